@@ -15,8 +15,14 @@ export type {
   RequestHandler,
   RawRequestInfo,
   RawResponseData,
+  FileBody,
   AdapterConfig,
   AdapterFactory,
+  RawWebSocket,
+  WebSocketSession,
+  UpgradeHandler,
+  WebSocketOptions,
+  CloseOptions,
 } from './types.js';
 
 // Adapters
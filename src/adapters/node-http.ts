@@ -1,9 +1,24 @@
-import { createServer, Server as HTTPServer } from 'http';
+import { createServer, Server as HTTPServer, type IncomingMessage } from 'http';
+import { createReadStream } from 'fs';
+import type { Duplex, Readable } from 'stream';
 import type {
   ServerAdapter,
   RequestHandler,
   RawRequestInfo,
+  RawResponseData,
+  UpgradeHandler,
+  WebSocketOptions,
+  CloseOptions,
 } from './types.js';
+import { pipeToNodeResponse, ResponseStream } from '../core/stream.js';
+import { parseRequestBody } from '../core/body-parser.js';
+import {
+  WebSocketTopics,
+  validateHandshake,
+  acceptWebSocket,
+  rejectUpgrade,
+  type NodeWebSocket,
+} from './node-websocket.js';
 
 /**
  * Node.js HTTP Adapter
@@ -24,6 +39,12 @@ export class NodeHTTPAdapter implements ServerAdapter {
 
   private server?: HTTPServer;
   private requestHandler?: RequestHandler;
+  private upgradeHandler?: UpgradeHandler;
+  private webSocketOptions: WebSocketOptions = {};
+  private topics = new WebSocketTopics();
+  private sockets = new Set<NodeWebSocket>();
+  private closing = false;
+  private socketsClosed?: () => void; // Resolves the shutdown wait once the last WebSocket is gone
 
   /**
    * Register the request handler
@@ -32,6 +53,21 @@ export class NodeHTTPAdapter implements ServerAdapter {
     this.requestHandler = handler;
   }
 
+  /**
+   * Register the WebSocket upgrade handler
+   */
+  onUpgrade(handler: UpgradeHandler, options: WebSocketOptions = {}): void {
+    this.upgradeHandler = handler;
+    this.webSocketOptions = options;
+  }
+
+  /**
+   * Send a message to every subscriber of a topic
+   */
+  publish(topic: string, data: string | Uint8Array, isBinary: boolean): void {
+    this.topics.publish(topic, data, isBinary);
+  }
+
   /**
    * Start the HTTP server
    */
@@ -41,6 +77,11 @@ export class NodeHTTPAdapter implements ServerAdapter {
     }
 
     this.server = createServer(async (req, res) => {
+      // Keep-alive connections are released as their responses finish during shutdown
+      res.once('finish', () => {
+        if (this.closing) setImmediate(() => this.server?.closeIdleConnections());
+      });
+
       try {
         // Extract request info early
         const info: RawRequestInfo = {
@@ -58,9 +99,16 @@ export class NodeHTTPAdapter implements ServerAdapter {
 
         // Call RamAPI handler
         const responseData = await this.requestHandler!(info, raw);
+        if (this.closing) res.setHeader('Connection', 'close');
 
-        // Send response
-        this.sendResponse(raw, responseData.statusCode, responseData.headers, responseData.body);
+        // Send response (streams are written with backpressure)
+        if (responseData.stream) {
+          await this.sendStream(raw, responseData);
+        } else if (responseData.file) {
+          await this.sendFile(raw, responseData);
+        } else {
+          this.sendResponse(raw, responseData.statusCode, responseData.headers, responseData.body);
+        }
       } catch (error) {
         // Fallback error handling
         console.error('Error in NodeHTTPAdapter:', error);
@@ -72,6 +120,14 @@ export class NodeHTTPAdapter implements ServerAdapter {
       }
     });
 
+    // WebSocket upgrades (RFC 6455 on the raw socket)
+    this.server.on('upgrade', (req, socket, head) => {
+      this.handleUpgrade(req, socket, head).catch((error) => {
+        console.error('Error in NodeHTTPAdapter upgrade:', error);
+        socket.destroy();
+      });
+    });
+
     return new Promise((resolve) => {
       this.server!.listen(port, host, () => {
         console.log(`🚀 RamAPI server (${this.name}) running at http://${host}:${port}`);
@@ -80,24 +136,89 @@ export class NodeHTTPAdapter implements ServerAdapter {
     });
   }
 
+  /**
+   * Handle a WebSocket upgrade request
+   */
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    if (!this.upgradeHandler) {
+      rejectUpgrade(socket, 404);
+      return;
+    }
+
+    const info: RawRequestInfo = {
+      method: req.method || 'GET',
+      url: req.url || '/',
+      headers: req.headers as Record<string, string | string[]>,
+    };
+
+    const result = await this.upgradeHandler(info, { req, socket, head, info });
+
+    if (!result) {
+      rejectUpgrade(socket, 404);
+      return;
+    }
+
+    if ('statusCode' in result) {
+      rejectUpgrade(socket, result.statusCode, result.headers, result.body);
+      return;
+    }
+
+    const invalid = validateHandshake(req);
+    if (invalid) {
+      rejectUpgrade(socket, invalid, invalid === 426 ? { 'Sec-WebSocket-Version': '13' } : {});
+      return;
+    }
+
+    const ws = acceptWebSocket(req, socket, head, result, this.topics, this.webSocketOptions);
+    this.sockets.add(ws);
+    socket.once('close', () => {
+      this.sockets.delete(ws);
+      if (this.sockets.size === 0) this.socketsClosed?.();
+    });
+  }
+
   /**
    * Stop the HTTP server
+   * Idle keep-alive connections are closed right away, busy ones after their
+   * response. Whatever is still open after `timeout` (long streams) is cut.
    */
-  async close(): Promise<void> {
+  async close(options: CloseOptions = {}): Promise<void> {
     if (!this.server) {
       return;
     }
 
-    return new Promise((resolve, reject) => {
-      this.server!.close((err) => {
-        if (err) {
-          reject(err);
-        } else {
-          console.log('🛑 RamAPI server stopped');
-          resolve();
-        }
-      });
+    const server = this.server;
+    const { timeout = 10000 } = options;
+    this.closing = true;
+
+    const closed = new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
     });
+    server.closeIdleConnections();
+
+    // Upgraded sockets are not tracked by the HTTP server - close them with 1001
+    const socketsClosed = new Promise<void>((resolve) => {
+      this.socketsClosed = resolve;
+      if (this.sockets.size === 0) resolve();
+    });
+    for (const ws of this.sockets) {
+      ws.terminate();
+    }
+
+    const timer = setTimeout(() => {
+      server.closeAllConnections();
+      this.socketsClosed?.();
+    }, timeout);
+
+    try {
+      await Promise.all([closed, socketsClosed]);
+    } finally {
+      clearTimeout(timer);
+      this.server = undefined;
+      this.closing = false;
+      this.socketsClosed = undefined;
+    }
+    console.log('🛑 RamAPI server stopped');
   }
 
   /**
@@ -114,7 +235,7 @@ export class NodeHTTPAdapter implements ServerAdapter {
   sendResponse(
     raw: any,
     statusCode: number,
-    headers: Record<string, string>,
+    headers: Record<string, string | string[]>,
     body: Buffer | string
   ): void {
     const { res } = raw;
@@ -135,56 +256,44 @@ export class NodeHTTPAdapter implements ServerAdapter {
   }
 
   /**
-   * Parse request body from raw object
+   * Send a streaming response
+   * Chunked transfer encoding, waits for 'drain' before pulling the next chunk
    */
-  async parseBody(raw: any): Promise<unknown> {
-    const { req } = raw;
-
-    return new Promise((resolve, reject) => {
-      const contentType = req.headers['content-type'] || '';
-      const chunks: Buffer[] = [];
+  private async sendStream(raw: any, responseData: RawResponseData): Promise<void> {
+    const { res } = raw;
 
-      req.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
+    res.statusCode = responseData.statusCode;
+    for (const [key, value] of Object.entries(responseData.headers)) {
+      res.setHeader(key, value);
+    }
 
-      req.on('end', () => {
-        try {
-          const buffer = Buffer.concat(chunks);
-          const body = buffer.toString('utf-8');
-
-          if (!body) {
-            resolve(undefined);
-            return;
-          }
-
-          // Parse JSON
-          if (contentType.includes('application/json')) {
-            resolve(JSON.parse(body));
-            return;
-          }
-
-          // Parse URL-encoded
-          if (contentType.includes('application/x-www-form-urlencoded')) {
-            const params = new URLSearchParams(body);
-            const result: Record<string, string> = {};
-            params.forEach((value, key) => {
-              result[key] = value;
-            });
-            resolve(result);
-            return;
-          }
-
-          // Default: return raw string
-          resolve(body);
-        } catch (error) {
-          reject(new Error('Failed to parse request body'));
-        }
-      });
+    await pipeToNodeResponse(res, responseData.stream!, raw.info.method);
+  }
 
-      req.on('error', reject);
+  /**
+   * Send a file body (Content-Length is known, so no chunked encoding)
+   */
+  private async sendFile(raw: any, responseData: RawResponseData): Promise<void> {
+    const { path, start, end } = responseData.file!;
+    await this.sendStream(raw, {
+      ...responseData,
+      stream: new ResponseStream(createReadStream(path, { start, end })),
     });
   }
+
+  /**
+   * Unread request body - IncomingMessage is already a stream
+   */
+  getBodyStream(raw: any): Readable {
+    return raw.req;
+  }
+
+  /**
+   * Parse request body from raw object
+   */
+  async parseBody(raw: any): Promise<unknown> {
+    return (await parseRequestBody(raw.req, raw.info.headers)).body;
+  }
 }
 
 /**
@@ -0,0 +1,421 @@
+import { createHash } from 'crypto';
+import { STATUS_CODES, type IncomingMessage } from 'http';
+import { isUtf8 } from 'buffer';
+import type { Duplex } from 'stream';
+import type { RawWebSocket, WebSocketSession, WebSocketOptions } from './types.js';
+
+/**
+ * Minimal RFC 6455 WebSocket implementation for the node-http adapter
+ *
+ * Supports text/binary messages, fragmentation, ping/pong, close handshake,
+ * payload limits and idle timeouts. No extensions (permessage-deflate).
+ */
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const CLOSE_NORMAL = 1000;
+const CLOSE_GOING_AWAY = 1001;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_NO_STATUS = 1005;
+const CLOSE_ABNORMAL = 1006;
+const CLOSE_INVALID_PAYLOAD = 1007;
+const CLOSE_TOO_LARGE = 1009;
+
+const DEFAULT_MAX_PAYLOAD = 1024 * 1024;
+const DEFAULT_IDLE_TIMEOUT = 120;
+
+/**
+ * Topic subscriptions shared by all sockets of an adapter
+ */
+export class WebSocketTopics {
+  private topics = new Map<string, Set<NodeWebSocket>>();
+
+  subscribe(topic: string, ws: NodeWebSocket): void {
+    let subscribers = this.topics.get(topic);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.topics.set(topic, subscribers);
+    }
+    subscribers.add(ws);
+  }
+
+  unsubscribe(topic: string, ws: NodeWebSocket): void {
+    const subscribers = this.topics.get(topic);
+    if (subscribers?.delete(ws) && subscribers.size === 0) {
+      this.topics.delete(topic);
+    }
+  }
+
+  isSubscribed(topic: string, ws: NodeWebSocket): boolean {
+    return this.topics.get(topic)?.has(ws) ?? false;
+  }
+
+  publish(topic: string, data: string | Uint8Array, isBinary: boolean, exclude?: NodeWebSocket): void {
+    const subscribers = this.topics.get(topic);
+    if (!subscribers) return;
+
+    // PERFORMANCE: encode the frame once for all subscribers
+    const frame = encodeFrame(isBinary ? OPCODE_BINARY : OPCODE_TEXT, toBuffer(data));
+    for (const ws of subscribers) {
+      if (ws !== exclude) ws.sendFrame(frame);
+    }
+  }
+
+  remove(ws: NodeWebSocket): void {
+    for (const topic of [...this.topics.keys()]) {
+      this.unsubscribe(topic, ws);
+    }
+  }
+}
+
+/**
+ * Check that a request is a valid WebSocket handshake
+ * Returns an HTTP status to reject with, or undefined if valid
+ */
+export function validateHandshake(req: IncomingMessage): number | undefined {
+  if (req.method !== 'GET') return 405;
+  if ((req.headers.upgrade || '').toLowerCase() !== 'websocket') return 400;
+  if (!req.headers['sec-websocket-key']) return 400;
+  if (req.headers['sec-websocket-version'] !== '13') return 426;
+  return undefined;
+}
+
+/**
+ * Complete the handshake and wrap the socket
+ */
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  session: WebSocketSession,
+  topics: WebSocketTopics,
+  options: WebSocketOptions = {}
+): NodeWebSocket {
+  const accept = createHash('sha1')
+    .update(req.headers['sec-websocket-key'] + GUID)
+    .digest('base64');
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const ws = new NodeWebSocket(socket, session, topics, options, req.socket.remoteAddress || '');
+  session.open(ws);
+  if (head.length > 0) ws.receive(head);
+  return ws;
+}
+
+/**
+ * Write a plain HTTP response on a socket and close it (rejected upgrades)
+ */
+export function rejectUpgrade(
+  socket: Duplex,
+  statusCode: number,
+  headers: Record<string, string | string[]> = {},
+  body: Buffer | string = ''
+): void {
+  const lines = [`HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode] || 'Unknown'}`];
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === 'content-length') continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      lines.push(`${key}: ${item}`);
+    }
+  }
+  lines.push(`Content-Length: ${Buffer.byteLength(body)}`, 'Connection: close');
+
+  socket.end(`${lines.join('\r\n')}\r\n\r\n${body}`);
+}
+
+function toBuffer(data: string | Uint8Array): Buffer {
+  if (typeof data === 'string') return Buffer.from(data);
+  return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Encode a single unmasked (server-to-client) frame
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+
+  if (length < 126) {
+    header = Buffer.allocUnsafe(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.allocUnsafe(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.allocUnsafe(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode; // FIN + opcode
+
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * WebSocket connection over a raw Node.js socket
+ */
+export class NodeWebSocket implements RawWebSocket {
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentsLength = 0;
+  private fragmentOpcode = 0;
+  private closeSent = false;
+  private closed = false;
+  private closeCode = CLOSE_ABNORMAL;
+  private closeReason = '';
+  private awaitingPong = false;
+  private maxPayloadLength: number;
+
+  constructor(
+    private socket: Duplex,
+    private session: WebSocketSession,
+    private topics: WebSocketTopics,
+    options: WebSocketOptions,
+    readonly remoteAddress: string
+  ) {
+    this.maxPayloadLength = options.maxPayloadLength ?? DEFAULT_MAX_PAYLOAD;
+
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('drain', () => this.session.drain(this));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.onSocketClose());
+
+    // Idle connections get a ping first, then are dropped
+    const idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+    if (idleTimeout > 0 && 'setTimeout' in socket) {
+      (socket as any).setTimeout(idleTimeout * 1000, () => {
+        if (this.awaitingPong) {
+          socket.destroy();
+        } else {
+          this.awaitingPong = true;
+          this.sendFrame(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+        }
+      });
+    }
+  }
+
+  send(data: string | Uint8Array, isBinary: boolean): boolean {
+    return this.sendFrame(encodeFrame(isBinary ? OPCODE_BINARY : OPCODE_TEXT, toBuffer(data)));
+  }
+
+  close(code = CLOSE_NORMAL, reason = ''): void {
+    if (this.closeSent || this.closed) return;
+    this.closeSent = true;
+
+    const reasonBuffer = Buffer.from(reason).subarray(0, 123);
+    const payload = Buffer.allocUnsafe(2 + reasonBuffer.length);
+    payload.writeUInt16BE(code, 0);
+    reasonBuffer.copy(payload, 2);
+
+    this.sendFrame(encodeFrame(OPCODE_CLOSE, payload), true);
+    this.closeCode = code;
+    this.closeReason = reason;
+    this.socket.end();
+
+    // Don't wait forever for the peer to finish the close handshake
+    setTimeout(() => this.socket.destroy(), 1000).unref();
+  }
+
+  subscribe(topic: string): void {
+    if (!this.closed) this.topics.subscribe(topic, this);
+  }
+
+  unsubscribe(topic: string): void {
+    this.topics.unsubscribe(topic, this);
+  }
+
+  isSubscribed(topic: string): boolean {
+    return this.topics.isSubscribed(topic, this);
+  }
+
+  publish(topic: string, data: string | Uint8Array, isBinary: boolean): void {
+    this.topics.publish(topic, data, isBinary, this);
+  }
+
+  getBufferedAmount(): number {
+    return (this.socket as any).writableLength ?? 0;
+  }
+
+  /**
+   * Write an encoded frame - false means it was buffered (backpressure) or dropped
+   */
+  sendFrame(frame: Buffer, force = false): boolean {
+    if (this.closed || (this.closeSent && !force) || this.socket.destroyed) return false;
+    return this.socket.write(frame);
+  }
+
+  /**
+   * Feed raw bytes from the socket
+   */
+  receive(chunk: Buffer): void {
+    this.awaitingPong = false;
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    while (!this.closed && this.parseFrame());
+  }
+
+  /**
+   * Parse one frame from the buffer - returns false if more data is needed
+   */
+  private parseFrame(): boolean {
+    const buffer = this.buffer;
+    if (buffer.length < 2) return false;
+
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    // No extensions negotiated - RSV bits must be clear, clients must mask
+    if ((buffer[0] & 0x70) !== 0 || !masked) {
+      this.fail(CLOSE_PROTOCOL_ERROR, 'Invalid frame');
+      return false;
+    }
+
+    if (length === 126) {
+      if (buffer.length < 4) return false;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return false;
+      const bigLength = buffer.readBigUInt64BE(2);
+      if (bigLength > BigInt(this.maxPayloadLength)) {
+        this.fail(CLOSE_TOO_LARGE, 'Message too large');
+        return false;
+      }
+      length = Number(bigLength);
+      offset = 10;
+    }
+
+    const isControl = opcode >= 0x8;
+    if (isControl && (!fin || length > 125)) {
+      this.fail(CLOSE_PROTOCOL_ERROR, 'Invalid control frame');
+      return false;
+    }
+
+    if (!isControl && this.fragmentsLength + length > this.maxPayloadLength) {
+      this.fail(CLOSE_TOO_LARGE, 'Message too large');
+      return false;
+    }
+
+    if (buffer.length < offset + 4 + length) return false;
+
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i & 3];
+    }
+    this.buffer = buffer.subarray(offset + 4 + length);
+
+    this.handleFrame(fin, opcode, payload);
+    return true;
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+        if (this.fragmentOpcode !== 0) {
+          this.fail(CLOSE_PROTOCOL_ERROR, 'Expected continuation frame');
+          return;
+        }
+        if (fin) {
+          this.deliver(opcode, payload);
+        } else {
+          this.fragmentOpcode = opcode;
+          this.fragments.push(payload);
+          this.fragmentsLength += payload.length;
+        }
+        return;
+
+      case OPCODE_CONTINUATION: {
+        if (this.fragmentOpcode === 0) {
+          this.fail(CLOSE_PROTOCOL_ERROR, 'Unexpected continuation frame');
+          return;
+        }
+        this.fragments.push(payload);
+        this.fragmentsLength += payload.length;
+        if (fin) {
+          const message = Buffer.concat(this.fragments);
+          const messageOpcode = this.fragmentOpcode;
+          this.fragments = [];
+          this.fragmentsLength = 0;
+          this.fragmentOpcode = 0;
+          this.deliver(messageOpcode, message);
+        }
+        return;
+      }
+
+      case OPCODE_PING:
+        this.sendFrame(encodeFrame(OPCODE_PONG, payload));
+        return;
+
+      case OPCODE_PONG:
+        return;
+
+      case OPCODE_CLOSE: {
+        if (payload.length === 1) {
+          this.fail(CLOSE_PROTOCOL_ERROR, 'Invalid close frame');
+          return;
+        }
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NO_STATUS;
+        const reason = payload.subarray(2).toString('utf-8');
+
+        if (!this.closeSent) {
+          // Echo the close frame to complete the handshake
+          this.close(code === CLOSE_NO_STATUS ? CLOSE_NORMAL : code);
+        }
+        this.closeCode = code;
+        this.closeReason = reason;
+        this.socket.end();
+        return;
+      }
+
+      default:
+        this.fail(CLOSE_PROTOCOL_ERROR, 'Unknown opcode');
+    }
+  }
+
+  private deliver(opcode: number, payload: Buffer): void {
+    const isBinary = opcode === OPCODE_BINARY;
+    if (!isBinary && !isUtf8(payload)) {
+      this.fail(CLOSE_INVALID_PAYLOAD, 'Invalid UTF-8');
+      return;
+    }
+    this.session.message(this, payload, isBinary);
+  }
+
+  private fail(code: number, reason: string): void {
+    this.buffer = Buffer.alloc(0);
+    this.close(code, reason);
+  }
+
+  private onSocketClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.topics.remove(this);
+    this.session.close(this, this.closeCode, this.closeReason);
+  }
+
+  /**
+   * Close with 1001 (server shutting down)
+   */
+  terminate(): void {
+    this.close(CLOSE_GOING_AWAY, 'Server shutting down');
+  }
+}
@@ -1,3 +1,5 @@
+import type { Readable } from 'stream';
+
 /**
  * Raw request information extracted by adapter
  */
@@ -12,8 +14,75 @@ export interface RawRequestInfo {
  */
 export interface RawResponseData {
   statusCode: number;
-  headers: Record<string, string>;
+  headers: Record<string, string | string[]>; // Arrays become repeated headers (Set-Cookie)
   body: Buffer | string;
+  /**
+   * Streaming body (takes precedence over `body`)
+   * Adapters pull one chunk at a time, wait for the socket to drain before
+   * pulling the next, and call `return()` when the client disconnects
+   */
+  stream?: AsyncIterator<string | Uint8Array>;
+  /**
+   * File body (takes precedence over `body`) - adapters read it straight from disk
+   */
+  file?: FileBody;
+}
+
+/**
+ * Byte range of a file to send as the response body
+ */
+export interface FileBody {
+  path: string;
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Adapter-level WebSocket connection
+ * Both adapters expose the same primitives, core wraps them for handlers
+ */
+export interface RawWebSocket {
+  /**
+   * Send a message - returns false if it was buffered (backpressure) or dropped
+   */
+  send(data: string | Uint8Array, isBinary: boolean): boolean;
+  close(code?: number, reason?: string): void;
+  subscribe(topic: string): void;
+  unsubscribe(topic: string): void;
+  isSubscribed(topic: string): boolean;
+  /**
+   * Send to every other subscriber of a topic
+   */
+  publish(topic: string, data: string | Uint8Array, isBinary: boolean): void;
+  getBufferedAmount(): number;
+  readonly remoteAddress: string;
+}
+
+/**
+ * Callbacks for an accepted WebSocket upgrade (one session per connection)
+ */
+export interface WebSocketSession {
+  open(ws: RawWebSocket): void;
+  message(ws: RawWebSocket, data: Buffer, isBinary: boolean): void;
+  drain(ws: RawWebSocket): void;
+  close(ws: RawWebSocket, code: number, reason: string): void;
+}
+
+/**
+ * Handles a WebSocket upgrade request
+ * Resolves to a session to accept, a response to reject, or null if no route matches
+ */
+export type UpgradeHandler = (
+  requestInfo: RawRequestInfo,
+  rawRequest: any
+) => Promise<WebSocketSession | RawResponseData | null>;
+
+/**
+ * WebSocket options shared by all routes
+ */
+export interface WebSocketOptions {
+  maxPayloadLength?: number; // Max message size in bytes (default: 1 MB)
+  idleTimeout?: number; // Seconds without traffic before pinging / closing (default: 120)
 }
 
 /**
@@ -24,6 +93,13 @@ export type RequestHandler = (
   rawRequest: any
 ) => Promise<RawResponseData>;
 
+/**
+ * Options for stopping a server
+ */
+export interface CloseOptions {
+  timeout?: number; // Ms to wait for in-flight requests before connections are cut (default: 10000)
+}
+
 /**
  * Server Adapter Interface
  *
@@ -46,11 +122,12 @@ export interface ServerAdapter {
   listen(port: number, host: string): Promise<void>;
 
   /**
-   * Stop the server and close all connections
+   * Stop accepting connections, let in-flight requests, streams and WebSockets
+   * finish, then close the remaining connections
    *
    * @returns Promise that resolves when server is fully closed
    */
-  close(): Promise<void>;
+  close(options?: CloseOptions): Promise<void>;
 
   /**
    * Register the request handler that will process all incoming requests
@@ -79,7 +156,7 @@ export interface ServerAdapter {
   sendResponse(
     raw: any,
     statusCode: number,
-    headers: Record<string, string>,
+    headers: Record<string, string | string[]>,
     body: Buffer | string
   ): void;
 
@@ -91,6 +168,21 @@ export interface ServerAdapter {
    */
   parseBody(raw: any): Promise<unknown>;
 
+  /**
+   * Unread request body as a stream (used instead of parseBody for multipart uploads)
+   */
+  getBodyStream?(raw: any): Readable;
+
+  /**
+   * Register the WebSocket upgrade handler
+   */
+  onUpgrade?(handler: UpgradeHandler, options?: WebSocketOptions): void;
+
+  /**
+   * Send a message to every subscriber of a topic
+   */
+  publish?(topic: string, data: string | Uint8Array, isBinary: boolean): void;
+
   /**
    * Check if adapter supports streaming
    */
@@ -2,12 +2,24 @@ import type {
   ServerAdapter,
   RequestHandler,
   RawRequestInfo,
+  RawResponseData,
+  RawWebSocket,
+  UpgradeHandler,
+  WebSocketOptions,
+  WebSocketSession,
+  CloseOptions,
 } from './types.js';
 import { createRequire } from 'module';
+import { Readable } from 'stream';
+import { open, type FileHandle } from 'fs/promises';
+import { parseRequestBody } from '../core/body-parser.js';
 
 // Create require function for loading CommonJS modules in ES module context
 const require = createRequire(import.meta.url);
 
+// Bytes read from disk per write when sending files
+const FILE_CHUNK_SIZE = 64 * 1024;
+
 /**
  * uWebSockets.js Adapter
  *
@@ -35,7 +47,13 @@ export class UWebSocketsAdapter implements ServerAdapter {
   private app?: any;
   private listenSocket?: any;
   private requestHandler?: RequestHandler;
+  private upgradeHandler?: UpgradeHandler;
+  private webSocketOptions: WebSocketOptions = {};
   private uws?: any;
+  private active = 0; // Requests still being handled or sent
+  private closing = false;
+  private drained?: () => void; // Resolves the shutdown wait once nothing is in flight
+  private sockets = new Set<UWSWebSocket>();
 
   constructor(private config: Record<string, any> = {}) {
     // uWebSockets will be loaded in listen() method
@@ -66,6 +84,21 @@ export class UWebSocketsAdapter implements ServerAdapter {
     this.requestHandler = handler;
   }
 
+  /**
+   * Register the WebSocket upgrade handler
+   */
+  onUpgrade(handler: UpgradeHandler, options: WebSocketOptions = {}): void {
+    this.upgradeHandler = handler;
+    this.webSocketOptions = options;
+  }
+
+  /**
+   * Send a message to every subscriber of a topic (native uWS pub/sub)
+   */
+  publish(topic: string, data: string | Uint8Array, isBinary: boolean): void {
+    this.app?.publish(topic, data, isBinary);
+  }
+
   /**
    * Parse headers from uWebSockets request
    */
@@ -99,12 +132,15 @@ export class UWebSocketsAdapter implements ServerAdapter {
     this.app.any('/*', async (res: any, req: any) => {
       // CRITICAL: uWebSockets responses are only valid during the callback
       let aborted = false;
+      const abortListeners: Array<() => void> = [];
 
-      // Handle connection abort
+      // Handle connection abort (uWS keeps a single onAborted handler - fan out)
       res.onAborted(() => {
         aborted = true;
+        abortListeners.forEach((listener) => listener());
       });
 
+      this.active++;
       try {
         // Extract request info from uWS - do this early
         const info: RawRequestInfo = {
@@ -113,10 +149,11 @@ export class UWebSocketsAdapter implements ServerAdapter {
           headers: this.parseHeaders(req),
         };
 
-        // Read body if present (for POST/PUT/PATCH)
-        let bodyData: Buffer | undefined;
+        // Stream body if present (for POST/PUT/PATCH) - the server reads it with size limits
+        // onData must be attached before the first await
+        let bodyStream: Readable | undefined;
         if (info.method === 'POST' || info.method === 'PUT' || info.method === 'PATCH') {
-          bodyData = await this.readBody(res);
+          bodyStream = this.createBodyStream(res, abortListeners);
         }
 
         // Create raw request object that includes everything
@@ -124,15 +161,23 @@ export class UWebSocketsAdapter implements ServerAdapter {
           req,
           res,
           info,
-          bodyData,
+          bodyStream,
           aborted: () => aborted,
+          onAborted: (listener: () => void) => abortListeners.push(listener),
         };
 
         // Call RamAPI handler
         const responseData = await this.requestHandler!(info, raw);
+        if (this.closing) {
+          responseData.headers = { ...responseData.headers, Connection: 'close' };
+        }
 
-        // Send response if not aborted
-        if (!aborted) {
+        // Send response if not aborted (streams are written with backpressure)
+        if (responseData.stream) {
+          await this.sendStream(raw, responseData);
+        } else if (responseData.file) {
+          await this.sendFile(raw, responseData);
+        } else if (!aborted) {
           this.sendResponse(raw, responseData.statusCode, responseData.headers, responseData.body);
         }
       } catch (error) {
@@ -142,9 +187,17 @@ export class UWebSocketsAdapter implements ServerAdapter {
           res.writeHeader('Content-Type', 'application/json');
           res.end(JSON.stringify({ error: 'Internal Server Error' }));
         }
+      } finally {
+        this.active--;
+        if (this.active === 0) this.drained?.();
       }
     });
 
+    // WebSocket routes (upgrade requests are routed here instead of any())
+    if (this.upgradeHandler) {
+      this.registerWebSockets();
+    }
+
     // Normalize host for uWebSockets (it doesn't understand 'localhost', use '0.0.0.0' instead)
     const listenHost = host === 'localhost' ? '0.0.0.0' : host;
 
@@ -178,15 +231,120 @@ export class UWebSocketsAdapter implements ServerAdapter {
     });
   }
 
+  /**
+   * Register native uWS WebSocket handling for all paths
+   * The upgrade handler decides per request whether to accept
+   */
+  private registerWebSockets(): void {
+    const { maxPayloadLength = 1024 * 1024, idleTimeout = 120 } = this.webSocketOptions;
+
+    this.app.ws('/*', {
+      maxPayloadLength,
+      idleTimeout,
+      sendPingsAutomatically: true,
+
+      upgrade: async (res: any, req: any, context: any) => {
+        let aborted = false;
+        res.onAborted(() => {
+          aborted = true;
+        });
+
+        // Request data must be read before the first await
+        const info: RawRequestInfo = {
+          method: 'GET',
+          url: req.getUrl() + (req.getQuery() ? '?' + req.getQuery() : ''),
+          headers: this.parseHeaders(req),
+        };
+        const key = req.getHeader('sec-websocket-key');
+        const extensions = req.getHeader('sec-websocket-extensions');
+
+        try {
+          const result = await this.upgradeHandler!(info, { req, res, info, aborted: () => aborted });
+          if (aborted) return;
+
+          if (!result) {
+            res.cork(() => {
+              res.writeStatus('404 Not Found').end();
+            });
+          } else if ('statusCode' in result) {
+            res.cork(() => {
+              this.sendResponse({ res, info, aborted: () => aborted }, result.statusCode, result.headers, result.body);
+            });
+          } else {
+            res.cork(() => {
+              res.upgrade({ session: result }, key, '', extensions, context);
+            });
+          }
+        } catch (error) {
+          console.error('Error in UWebSocketsAdapter upgrade:', error);
+          if (!aborted) {
+            res.cork(() => {
+              res.writeStatus('500 Internal Server Error').end();
+            });
+          }
+        }
+      },
+
+      open: (ws: any) => {
+        const data = ws.getUserData();
+        data.socket = new UWSWebSocket(ws);
+        this.sockets.add(data.socket);
+        (data.session as WebSocketSession).open(data.socket);
+      },
+
+      message: (ws: any, message: ArrayBuffer, isBinary: boolean) => {
+        const data = ws.getUserData();
+        // Copy - uWS reuses the ArrayBuffer after this callback returns
+        data.session.message(data.socket, Buffer.from(message.slice(0)), isBinary);
+      },
+
+      drain: (ws: any) => {
+        const data = ws.getUserData();
+        data.session.drain(data.socket);
+      },
+
+      close: (ws: any, code: number, message: ArrayBuffer) => {
+        const data = ws.getUserData();
+        data.socket.closed = true;
+        this.sockets.delete(data.socket);
+        data.session.close(data.socket, code, Buffer.from(message).toString('utf-8'));
+      },
+    });
+  }
+
   /**
    * Stop the uWebSockets server
+   * Waits up to `timeout` for in-flight requests and streams, then closes every connection
    */
-  async close(): Promise<void> {
-    if (this.listenSocket) {
-      this.uws.us_listen_socket_close(this.listenSocket);
-      this.listenSocket = null;
-      console.log('🛑 RamAPI server stopped');
+  async close(options: CloseOptions = {}): Promise<void> {
+    if (!this.listenSocket) {
+      return;
     }
+
+    const { timeout = 10000 } = options;
+    this.closing = true;
+    this.uws.us_listen_socket_close(this.listenSocket);
+    this.listenSocket = null;
+
+    for (const socket of this.sockets) {
+      socket.close(1001, 'Server shutting down');
+    }
+
+    if (this.active > 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, timeout);
+        this.drained = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+
+    // Keep-alive connections and anything still running (uWS >= 20.40)
+    this.app?.close?.();
+    this.closing = false;
+    this.drained = undefined;
+    console.log('🛑 RamAPI server stopped');
   }
 
   /**
@@ -203,7 +361,7 @@ export class UWebSocketsAdapter implements ServerAdapter {
   sendResponse(
     raw: any,
     statusCode: number,
-    headers: Record<string, string>,
+    headers: Record<string, string | string[]>,
     body: Buffer | string
   ): void {
     const { res, aborted } = raw;
@@ -224,7 +382,14 @@ export class UWebSocketsAdapter implements ServerAdapter {
         if (key.toLowerCase() === 'content-length') {
           continue;
         }
-        res.writeHeader(key, value);
+        this.writeHeader(res, key, value);
+      }
+
+      // HEAD responses report the GET Content-Length without sending a body
+      if (raw.info.method === 'HEAD') {
+        const contentLength = headers['Content-Length'] ?? headers['content-length'];
+        res.endWithoutBody(contentLength !== undefined ? Number(contentLength) : undefined);
+        return;
       }
 
       // Write body and end response (uWebSockets automatically adds Content-Length)
@@ -235,59 +400,210 @@ export class UWebSocketsAdapter implements ServerAdapter {
   }
 
   /**
-   * Parse request body from raw object
-   * Body is already read in listen(), so just parse it
+   * Write a header - arrays are written as repeated headers (Set-Cookie)
    */
-  async parseBody(raw: any): Promise<unknown> {
-    const contentType = raw.info.headers['content-type'] || '';
-    const bodyData = raw.bodyData;
-
-    if (!bodyData || bodyData.length === 0) {
-      return undefined;
+  private writeHeader(res: any, key: string, value: string | string[]): void {
+    if (Array.isArray(value)) {
+      for (const item of value) res.writeHeader(key, item);
+    } else {
+      res.writeHeader(key, value);
     }
+  }
 
-    const body = bodyData.toString('utf-8');
+  /**
+   * Send a streaming response
+   * Pulls the next chunk only once uWS reports the socket writable again
+   */
+  private async sendStream(raw: any, responseData: RawResponseData): Promise<void> {
+    const { res } = raw;
+    const stream = responseData.stream!;
 
-    // Parse JSON
-    if (contentType.includes('application/json')) {
-      return JSON.parse(body);
+    if (raw.aborted()) {
+      await stream.return?.();
+      return;
     }
 
-    // Parse URL-encoded
-    if (contentType.includes('application/x-www-form-urlencoded')) {
-      const params = new URLSearchParams(body);
-      const result: Record<string, string> = {};
-      params.forEach((value, key) => {
-        result[key] = value;
-      });
-      return result;
+    let wake: (() => void) | undefined;
+    raw.onAborted(() => {
+      wake?.();
+      void stream.return?.();
+    });
+
+    res.cork(() => {
+      res.writeStatus(`${responseData.statusCode} ${this.getStatusText(responseData.statusCode)}`);
+      for (const [key, value] of Object.entries(responseData.headers)) {
+        // Streams use chunked encoding
+        if (key.toLowerCase() === 'content-length') continue;
+        this.writeHeader(res, key, value);
+      }
+    });
+
+    if (raw.info.method === 'HEAD') {
+      await stream.return?.();
+      res.cork(() => res.endWithoutBody());
+      return;
     }
 
-    // Default: return raw string
-    return body;
+    try {
+      for (;;) {
+        const { value, done } = await stream.next();
+        if (done || raw.aborted()) break;
+
+        let ok = true;
+        res.cork(() => {
+          ok = res.write(value);
+        });
+
+        if (!ok) {
+          // PERFORMANCE: chunk is buffered by uWS - wait until it is flushed
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+            res.onWritable(() => {
+              resolve();
+              return true;
+            });
+          });
+          wake = undefined;
+        }
+      }
+
+      if (!raw.aborted()) {
+        res.cork(() => res.end());
+      }
+    } catch (error) {
+      console.error('Error streaming response:', error);
+      if (!raw.aborted()) {
+        res.close();
+      }
+    }
   }
 
   /**
-   * Read request body from uWebSockets response object
-   * IMPORTANT: Must be called during the request callback
+   * Send a file body
+   * PERFORMANCE: zero-copy - chunks are read from disk straight into the buffer handed to uWS,
+   * and tryEnd() against the total size lets uWS send Content-Length instead of chunked encoding
    */
-  private readBody(res: any): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      const chunks: Buffer[] = [];
+  private async sendFile(raw: any, responseData: RawResponseData): Promise<void> {
+    const { res } = raw;
+    const { path, start, end } = responseData.file!;
+    const total = end - start + 1;
 
-      res.onData((chunk: ArrayBuffer, isLast: boolean) => {
-        chunks.push(Buffer.from(chunk));
+    if (raw.aborted()) return;
+
+    let handle: FileHandle;
+    try {
+      handle = await open(path, 'r');
+    } catch {
+      // Removed since it was checked
+      const body = JSON.stringify({ type: 'about:blank', title: 'Not Found', status: 404 });
+      this.sendResponse(raw, 404, { 'Content-Type': 'application/problem+json' }, body);
+      return;
+    }
 
-        if (isLast) {
-          resolve(Buffer.concat(chunks));
+    let wake: (() => void) | undefined;
+    raw.onAborted(() => wake?.());
+
+    try {
+      if (raw.aborted()) return;
+
+      res.cork(() => {
+        res.writeStatus(`${responseData.statusCode} ${this.getStatusText(responseData.statusCode)}`);
+        for (const [key, value] of Object.entries(responseData.headers)) {
+          // Written by tryEnd() from the total size
+          if (key.toLowerCase() === 'content-length') continue;
+          this.writeHeader(res, key, value);
+        }
+        if (raw.info.method === 'HEAD') {
+          res.endWithoutBody(total);
         }
       });
+      if (raw.info.method === 'HEAD') return;
 
-      // Handle abort during body read
-      res.onAborted(() => {
-        reject(new Error('Request aborted'));
-      });
+      // One buffer per response, reused once uWS has written it
+      const buffer = Buffer.allocUnsafe(Math.min(FILE_CHUNK_SIZE, total));
+      let sent = 0;
+
+      while (sent < total) {
+        const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, total - sent), start + sent);
+        if (bytesRead === 0) {
+          throw new Error(`File truncated while sending: ${path}`);
+        }
+        if (raw.aborted()) return;
+
+        const chunk = buffer.subarray(0, bytesRead);
+        const chunkOffset = res.getWriteOffset();
+        let ok = false;
+        res.cork(() => {
+          [ok] = res.tryEnd(chunk, total);
+        });
+        sent += bytesRead;
+
+        if (!ok) {
+          // Backpressure - uWS did not take the whole chunk, retry the rest once writable
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+            res.onWritable((offset: number) => {
+              const [retried, done] = res.tryEnd(chunk.subarray(offset - chunkOffset), total);
+              if (retried || done) resolve();
+              return retried;
+            });
+          });
+          wake = undefined;
+          if (raw.aborted()) return;
+        }
+      }
+    } catch (error) {
+      console.error('Error sending file:', error);
+      if (!raw.aborted()) {
+        res.close();
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Parse request body from raw object
+   */
+  async parseBody(raw: any): Promise<unknown> {
+    if (!raw.bodyStream) {
+      return undefined;
+    }
+    return (await parseRequestBody(raw.bodyStream, raw.info.headers)).body;
+  }
+
+  /**
+   * Stream the request body - uWS pauses the socket while the stream is full
+   */
+  private createBodyStream(res: any, abortListeners: Array<() => void>): Readable {
+    const stream = new Readable({
+      read() {
+        res.resume?.();
+      },
     });
+
+    res.onData((chunk: ArrayBuffer, isLast: boolean) => {
+      // Chunks are only valid inside the callback - copy before queueing
+      if (!stream.push(Buffer.from(chunk.slice(0)))) {
+        res.pause?.();
+      }
+      if (isLast) {
+        stream.push(null);
+      }
+    });
+
+    abortListeners.push(() => {
+      stream.destroy(new Error('Request aborted'));
+    });
+
+    return stream;
+  }
+
+  /**
+   * Unread request body
+   */
+  getBodyStream(raw: any): Readable {
+    return raw.bodyStream || Readable.from([]);
   }
 
   /**
@@ -302,6 +618,8 @@ export class UWebSocketsAdapter implements ServerAdapter {
       401: 'Unauthorized',
       403: 'Forbidden',
       404: 'Not Found',
+      405: 'Method Not Allowed',
+      413: 'Payload Too Large',
       500: 'Internal Server Error',
       502: 'Bad Gateway',
       503: 'Service Unavailable',
@@ -310,6 +628,50 @@ export class UWebSocketsAdapter implements ServerAdapter {
   }
 }
 
+/**
+ * Wraps a native uWS WebSocket
+ * uWS throws when a closed socket is used, so calls are guarded
+ */
+class UWSWebSocket implements RawWebSocket {
+  closed = false;
+  readonly remoteAddress: string;
+
+  constructor(private ws: any) {
+    this.remoteAddress = Buffer.from(ws.getRemoteAddressAsText()).toString();
+  }
+
+  send(data: string | Uint8Array, isBinary: boolean): boolean {
+    if (this.closed) return false;
+    // 1 = sent, 0 = buffered (backpressure), 2 = dropped
+    return this.ws.send(data, isBinary) === 1;
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.closed) return;
+    this.ws.end(code, reason);
+  }
+
+  subscribe(topic: string): void {
+    if (!this.closed) this.ws.subscribe(topic);
+  }
+
+  unsubscribe(topic: string): void {
+    if (!this.closed) this.ws.unsubscribe(topic);
+  }
+
+  isSubscribed(topic: string): boolean {
+    return !this.closed && this.ws.isSubscribed(topic);
+  }
+
+  publish(topic: string, data: string | Uint8Array, isBinary: boolean): void {
+    if (!this.closed) this.ws.publish(topic, data, isBinary);
+  }
+
+  getBufferedAmount(): number {
+    return this.closed ? 0 : this.ws.getBufferedAmount();
+  }
+}
+
 /**
  * Factory function to create UWebSocketsAdapter
  */
@@ -0,0 +1,159 @@
+/**
+ * Session tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { session, MemoryStore, FileStore } from '../session.js';
+import type { SessionOptions } from '../session.js';
+import { JWTService, authenticate } from '../jwt.js';
+import { createAdapterContext } from '../../core/context.js';
+import type { Context, Middleware } from '../../core/types.js';
+
+/**
+ * Run a handler behind the middleware chain, like a route would
+ */
+async function run(middleware: Middleware[], handler: (ctx: Context) => Promise<void> | void, headers: Record<string, string> = {}) {
+  const { ctx, responseBuffer } = createAdapterContext({ method: 'GET', url: '/', headers }, {});
+
+  const dispatch = async (i: number): Promise<void> => {
+    if (i === middleware.length) return handler(ctx);
+    await middleware[i](ctx, () => dispatch(i + 1));
+  };
+  await dispatch(0);
+
+  const setCookie = ([] as string[]).concat(responseBuffer.headers['Set-Cookie'] || []);
+  const sid = setCookie.map((c) => /^sid=([^;]*)/.exec(c)?.[1]).filter((v) => v !== undefined).pop();
+  return { ctx, setCookie, sid };
+}
+
+describe('session()', () => {
+  const create = (options: SessionOptions = {}) => {
+    const store = new MemoryStore();
+    return { store, middleware: session({ store, ...options }) };
+  };
+
+  it('should not create sessions for anonymous visitors', async () => {
+    const { middleware } = create();
+
+    const { setCookie } = await run([middleware], async (ctx) => {
+      expect(await ctx.session!.get('cart')).toBeUndefined();
+    });
+
+    expect(setCookie).toEqual([]);
+  });
+
+  it('should store data and load it on the next request', async () => {
+    const { store, middleware } = create();
+
+    const first = await run([middleware], (ctx) => ctx.session!.set('cart', [1]));
+    expect(first.sid).toMatch(/^[\w-]{43}$/);
+    expect(first.setCookie[0]).toContain('Max-Age=86400; Path=/; HttpOnly; SameSite=Lax');
+    expect((await store.get(first.sid!))?.data).toEqual({ cart: [1] });
+
+    await run(
+      [middleware],
+      async (ctx) => {
+        const cart = (await ctx.session!.get<number[]>('cart'))!;
+        cart.push(2); // Nested changes are saved too
+      },
+      { cookie: `sid=${first.sid}` }
+    );
+    expect((await store.get(first.sid!))?.data).toEqual({ cart: [1, 2] });
+  });
+
+  it('should never adopt unknown session IDs', async () => {
+    const { middleware } = create();
+    const forged = 'a'.repeat(43);
+
+    const { ctx, sid } = await run([middleware], (ctx) => ctx.session!.set('x', 1), { cookie: `sid=${forged}` });
+
+    expect(sid).toBeDefined();
+    expect(sid).not.toBe(forged);
+    expect(ctx.session!.id).toBe(sid);
+  });
+
+  it('should regenerate the ID on login and clear it on logout', async () => {
+    const { store, middleware } = create();
+    const anonymous = await run([middleware], (ctx) => ctx.session!.set('theme', 'dark'));
+
+    const login = await run(
+      [middleware],
+      (ctx) => ctx.session!.login({ sub: 'u1', role: 'admin' }),
+      { cookie: `sid=${anonymous.sid}` }
+    );
+    expect(login.sid).not.toBe(anonymous.sid);
+    expect(await store.get(anonymous.sid!)).toBeUndefined();
+    expect((await store.get(login.sid!))?.data).toEqual({ theme: 'dark', user: { sub: 'u1', role: 'admin' } });
+
+    const logout = await run([middleware], (ctx) => ctx.session!.logout(), { cookie: `sid=${login.sid}` });
+    expect(logout.setCookie.pop()).toContain('sid=; Max-Age=0');
+    expect(await store.get(login.sid!)).toBeUndefined();
+  });
+
+  it('should only extend the expiry of rolling sessions', async () => {
+    const rolling = create({ maxAge: 60 });
+    const { sid } = await run([rolling.middleware], (ctx) => ctx.session!.set('a', 1));
+    const { expiresAt } = (await rolling.store.get(sid!))!;
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const read = await run([rolling.middleware], (ctx) => ctx.session!.load().then(() => {}), { cookie: `sid=${sid}` });
+    expect(read.sid).toBe(sid);
+    expect((await rolling.store.get(sid!))!.expiresAt).toBeGreaterThan(expiresAt);
+
+    const fixed = create({ rolling: false });
+    const created = await run([fixed.middleware], (ctx) => ctx.session!.set('a', 1));
+    const again = await run([fixed.middleware], (ctx) => ctx.session!.load().then(() => {}), {
+      cookie: `sid=${created.sid}`,
+    });
+    expect(again.setCookie).toEqual([]);
+  });
+});
+
+describe('authenticate() with sessions', () => {
+  const jwt = new JWTService({ secret: 'test-secret' });
+  const store = new MemoryStore();
+  const middleware = [session({ store }), authenticate(jwt)];
+
+  it('should accept session cookies and bearer tokens on the same route', async () => {
+    const login = await run([session({ store })], (ctx) => ctx.session!.login({ sub: 'browser' }));
+
+    const browser = await run(middleware, () => {}, { cookie: `sid=${login.sid}` });
+    expect(browser.ctx.state.userId).toBe('browser');
+
+    const mobile = await run(middleware, () => {}, { authorization: `Bearer ${jwt.sign({ sub: 'mobile' })}` });
+    expect(mobile.ctx.state.userId).toBe('mobile');
+  });
+
+  it('should reject sessions without a user', async () => {
+    await expect(run(middleware, () => {})).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Authentication required',
+    });
+  });
+});
+
+describe('FileStore', () => {
+  it('should persist sessions and drop expired ones', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ramapi-sessions-'));
+    try {
+      const store = new FileStore(dir);
+      const id = 'b'.repeat(43);
+
+      await store.set(id, { data: { a: 1 }, expiresAt: Date.now() + 60000 });
+      expect((await new FileStore(dir).get(id))?.data).toEqual({ a: 1 });
+
+      await store.set(id, { data: { a: 1 }, expiresAt: Date.now() - 1 });
+      await store.prune();
+      expect(await readdir(dir)).toEqual([]);
+
+      // IDs are used in file paths
+      expect(await store.get('../../etc/passwd')).toBeUndefined();
+      await expect(store.set('../x', { data: {}, expiresAt: 0 })).rejects.toThrow('Invalid session ID');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -3,4 +3,6 @@
  */
 export { JWTService, authenticate, optionalAuthenticate } from './jwt.js';
 export type { JWTConfig, JWTPayload } from './jwt.js';
+export { session, Session, MemoryStore, FileStore } from './session.js';
+export type { SessionData, SessionRecord, SessionStore, SessionOptions } from './session.js';
 export { PasswordService, passwordService } from './password.js';
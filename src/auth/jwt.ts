@@ -1,6 +1,7 @@
 import jwt from 'jsonwebtoken';
 import type { Middleware } from '../core/types.js';
 import { HTTPError } from '../core/types.js';
+import { UnauthorizedError } from '../core/errors.js';
 
 /**
  * JWT configuration
@@ -67,10 +68,10 @@ export class JWTService {
       return jwt.verify(token, this.config.secret, options) as JWTPayload;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
-        throw new HTTPError(401, 'Token expired');
+        throw new UnauthorizedError('Token expired');
       }
       if (error instanceof jwt.JsonWebTokenError) {
-        throw new HTTPError(401, 'Invalid token');
+        throw new UnauthorizedError('Invalid token');
       }
       throw error;
     }
@@ -86,20 +87,34 @@ export class JWTService {
 
 /**
  * Authentication middleware using JWT
+ * Handlers after it get a typed `ctx.user`
+ *
+ * @example
+ * app.get('/me', authenticate(jwt), async (ctx) => ctx.json({ id: ctx.user.sub }));
  */
-export function authenticate(jwtService: JWTService): Middleware {
+export function authenticate(jwtService: JWTService): Middleware<{ user: JWTPayload; state: { userId: string } }> {
   return async (ctx, next) => {
     // Extract token from Authorization header
     const authHeader = ctx.headers.authorization as string;
 
     if (!authHeader) {
-      throw new HTTPError(401, 'Authorization header missing');
+      // Browsers authenticate with the session cookie instead
+      if (ctx.session) {
+        const user = await ctx.session.user();
+        if (!user) {
+          throw new UnauthorizedError('Authentication required');
+        }
+        ctx.user = user;
+        ctx.state.userId = user.sub;
+        return next();
+      }
+      throw new UnauthorizedError('Authorization header missing');
     }
 
     // Check for Bearer token
     const parts = authHeader.split(' ');
     if (parts.length !== 2 || parts[0] !== 'Bearer') {
-      throw new HTTPError(401, 'Invalid authorization header format. Expected: Bearer <token>');
+      throw new UnauthorizedError('Invalid authorization header format. Expected: Bearer <token>');
     }
 
     const token = parts[1];
@@ -117,7 +132,7 @@ export function authenticate(jwtService: JWTService): Middleware {
       if (error instanceof HTTPError) {
         throw error;
       }
-      throw new HTTPError(401, 'Authentication failed');
+      throw new UnauthorizedError('Authentication failed');
     }
   };
 }
@@ -126,7 +141,9 @@ export function authenticate(jwtService: JWTService): Middleware {
  * Optional authentication middleware
  * Authenticates if token is present, but doesn't fail if missing
  */
-export function optionalAuthenticate(jwtService: JWTService): Middleware {
+export function optionalAuthenticate(
+  jwtService: JWTService
+): Middleware<{ user?: JWTPayload; state: { userId?: string } }> {
   return async (ctx, next) => {
     const authHeader = ctx.headers.authorization as string;
 
@@ -141,6 +158,12 @@ export function optionalAuthenticate(jwtService: JWTService): Middleware {
           // Silently ignore invalid tokens
         }
       }
+    } else if (ctx.session) {
+      const user = await ctx.session.user();
+      if (user) {
+        ctx.user = user;
+        ctx.state.userId = user.sub;
+      }
     }
 
     await next();
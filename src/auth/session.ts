@@ -0,0 +1,357 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, writeFile, rename, unlink, readdir } from 'fs/promises';
+import { join } from 'path';
+import type { Context, Middleware } from '../core/types.js';
+import type { CookieOptions } from '../core/cookies.js';
+import type { JWTPayload } from './jwt.js';
+
+/**
+ * Session contents (must be JSON-serializable)
+ */
+export type SessionData = Record<string, unknown>;
+
+/**
+ * Stored session with its absolute expiry
+ */
+export interface SessionRecord {
+  data: SessionData;
+  expiresAt: number; // Epoch ms
+}
+
+/**
+ * Session store interface
+ * Implement it for Redis, a database, etc.
+ */
+export interface SessionStore {
+  get(id: string): Promise<SessionRecord | undefined>; // Expired sessions read as undefined
+  set(id: string, record: SessionRecord): Promise<void>;
+  destroy(id: string): Promise<void>;
+}
+
+/**
+ * Session middleware configuration
+ */
+export interface SessionOptions {
+  store?: SessionStore; // Default: MemoryStore
+  cookieName?: string; // Default: 'sid'
+  cookie?: Omit<CookieOptions, 'maxAge' | 'expires' | 'encrypted'>;
+  maxAge?: number; // Seconds (default: 86400)
+  rolling?: boolean; // Every request that uses the session extends its expiry (default: true)
+}
+
+/**
+ * Key holding the logged-in user (read by authenticate())
+ */
+const USER_KEY = 'user';
+
+// Session IDs are 256-bit random base64url strings
+const ID_REGEX = /^[\w-]{43}$/;
+
+function generateId(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * In-memory session store
+ * For a single process only - sessions are lost on restart
+ */
+export class MemoryStore implements SessionStore {
+  private sessions = new Map<string, { json: string; expiresAt: number }>();
+
+  constructor() {
+    // Clean up expired sessions every minute
+    setInterval(() => this.prune(), 60000).unref();
+  }
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    const entry = this.sessions.get(id);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    // Stored as JSON so callers never share objects with the store
+    return { data: JSON.parse(entry.json), expiresAt: entry.expiresAt };
+  }
+
+  async set(id: string, record: SessionRecord): Promise<void> {
+    this.sessions.set(id, { json: JSON.stringify(record.data), expiresAt: record.expiresAt });
+  }
+
+  async destroy(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.sessions.entries()) {
+      if (entry.expiresAt <= now) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * File-backed session store - one JSON file per session
+ * Survives restarts; suited to single-server deployments
+ */
+export class FileStore implements SessionStore {
+  private ready: Promise<unknown>;
+
+  constructor(private dir: string, options: { pruneInterval?: number } = {}) {
+    this.ready = mkdir(dir, { recursive: true });
+    setInterval(() => void this.prune(), options.pruneInterval ?? 10 * 60000).unref();
+  }
+
+  private file(id: string): string {
+    // IDs end up in file paths - only accept the generated format
+    if (!ID_REGEX.test(id)) {
+      throw new Error('Invalid session ID');
+    }
+    return join(this.dir, `${id}.json`);
+  }
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    if (!ID_REGEX.test(id)) return undefined;
+
+    let record: SessionRecord;
+    try {
+      record = JSON.parse(await readFile(this.file(id), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    if (record.expiresAt <= Date.now()) {
+      await this.destroy(id);
+      return undefined;
+    }
+    return record;
+  }
+
+  async set(id: string, record: SessionRecord): Promise<void> {
+    await this.ready;
+    // Write then rename, so readers never see a partial file
+    const file = this.file(id);
+    const temp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(temp, JSON.stringify(record));
+    await rename(temp, file);
+  }
+
+  async destroy(id: string): Promise<void> {
+    if (!ID_REGEX.test(id)) return;
+    await unlink(this.file(id)).catch(() => {});
+  }
+
+  /**
+   * Remove expired session files
+   */
+  async prune(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return;
+    }
+
+    for (const name of files) {
+      if (name.endsWith('.json')) {
+        await this.get(name.slice(0, -5)); // get() removes expired sessions
+      }
+    }
+  }
+}
+
+/**
+ * Resolved session middleware options
+ */
+interface SessionConfig {
+  cookieName: string;
+  cookie: SessionOptions['cookie'];
+  maxAge: number;
+  rolling: boolean;
+}
+
+/**
+ * Request session (ctx.session)
+ * The store is only read on first access and only written when the data changed
+ */
+export class Session {
+  private data: SessionData | undefined;
+  private loading?: Promise<SessionData>;
+  private snapshot = ''; // JSON of the stored data - detects changes, including nested ones
+  private expiresAt = 0;
+  private extended = false; // Rolling expiry moved - the store needs the new expiry
+
+  constructor(
+    private ctx: Context,
+    private store: SessionStore,
+    private config: SessionConfig,
+    private sessionId: string | undefined
+  ) {}
+
+  /**
+   * Session ID - undefined for visitors without a stored session
+   */
+  get id(): string | undefined {
+    return this.sessionId;
+  }
+
+  /**
+   * Load the session data (at most once per request)
+   */
+  load(): Promise<SessionData> {
+    return (this.loading ??= this.fetch());
+  }
+
+  private async fetch(): Promise<SessionData> {
+    const record = this.sessionId ? await this.store.get(this.sessionId) : undefined;
+
+    if (record) {
+      this.data = record.data;
+      this.snapshot = JSON.stringify(record.data);
+      this.expiresAt = record.expiresAt;
+      if (this.config.rolling) {
+        this.extendExpiry();
+      }
+    } else {
+      // Unknown or expired ID - never adopt a client-chosen ID
+      this.sessionId = undefined;
+      this.data = {};
+      this.snapshot = '{}';
+    }
+    return this.data;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return (await this.load())[key] as T | undefined;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    (await this.load())[key] = value;
+    if (!this.sessionId) {
+      this.assignId();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    delete (await this.load())[key];
+  }
+
+  /**
+   * Logged-in user, as stored by login()
+   */
+  user(): Promise<JWTPayload | undefined> {
+    return this.get<JWTPayload>(USER_KEY);
+  }
+
+  /**
+   * Store the user under a new session ID (prevents session fixation)
+   */
+  async login(user: JWTPayload): Promise<void> {
+    await this.regenerate();
+    await this.set(USER_KEY, user);
+  }
+
+  /**
+   * Log out and destroy the session
+   */
+  logout(): Promise<void> {
+    return this.destroy();
+  }
+
+  /**
+   * Move the session data to a new ID
+   */
+  async regenerate(): Promise<void> {
+    await this.load();
+    if (this.sessionId) {
+      await this.store.destroy(this.sessionId);
+    }
+    this.assignId();
+    this.snapshot = ''; // Stored under the new ID on commit
+  }
+
+  /**
+   * Delete the session from the store and the client
+   */
+  async destroy(): Promise<void> {
+    if (this.sessionId) {
+      await this.store.destroy(this.sessionId);
+      this.ctx.cookies.delete(this.config.cookieName, this.config.cookie);
+    }
+    this.sessionId = undefined;
+    this.data = {};
+    this.snapshot = '{}';
+    this.loading = Promise.resolve(this.data);
+  }
+
+  /**
+   * Save changes - called by the middleware once the handler is done
+   * @internal
+   */
+  async commit(): Promise<void> {
+    if (!this.data) return; // Never loaded
+
+    const json = JSON.stringify(this.data);
+    if (!this.sessionId) {
+      // Anonymous visitors get no session until something is stored
+      if (json === '{}') return;
+      this.assignId();
+    }
+
+    if (json === this.snapshot && !this.extended) return;
+
+    await this.store.set(this.sessionId!, { data: this.data, expiresAt: this.expiresAt });
+    this.snapshot = json;
+    this.extended = false;
+  }
+
+  private assignId(): void {
+    this.sessionId = generateId();
+    this.extendExpiry();
+  }
+
+  /**
+   * Start a new expiry window and (re)send the cookie
+   */
+  private extendExpiry(): void {
+    this.expiresAt = Date.now() + this.config.maxAge * 1000;
+    this.extended = true;
+    this.ctx.cookies.set(this.config.cookieName, this.sessionId!, {
+      ...this.config.cookie,
+      maxAge: this.config.maxAge,
+    });
+  }
+}
+
+/**
+ * Session middleware - exposes ctx.session
+ *
+ * @example
+ * const app = createApp().use(session({ store: new FileStore('./sessions'), cookie: { secure: true } }));
+ *
+ * app.post('/login', async (ctx) => {
+ *   const user = await users.verify(ctx.body);
+ *   await ctx.session.login({ sub: user.id, role: user.role });
+ *   ctx.json({ ok: true });
+ * });
+ */
+export function session(options: SessionOptions = {}): Middleware<{ session: Session }> {
+  const store = options.store || new MemoryStore();
+  const config: SessionConfig = {
+    cookieName: options.cookieName || 'sid',
+    cookie: options.cookie,
+    maxAge: options.maxAge ?? 86400,
+    rolling: options.rolling ?? true,
+  };
+
+  return async (ctx, next) => {
+    const id = ctx.cookies.get(config.cookieName, { signed: config.cookie?.signed });
+    const current = new Session(ctx, store, config, id);
+    ctx.session = current;
+
+    await next();
+    await current.commit();
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Body parser registry tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { BodyParserRegistry, parseBytes } from '../body-parser.js';
+
+function body(data: string | Buffer): Readable {
+  return Readable.from([Buffer.from(data)]);
+}
+
+describe('parseBytes', () => {
+  it('should convert sizes to bytes', () => {
+    expect(parseBytes(100)).toBe(100);
+    expect(parseBytes('512b')).toBe(512);
+    expect(parseBytes('100kb')).toBe(102400);
+    expect(parseBytes('1.5MB')).toBe(1572864);
+    expect(() => parseBytes('lots')).toThrow('Invalid size');
+  });
+});
+
+describe('BodyParserRegistry', () => {
+  const registry = new BodyParserRegistry();
+
+  it('should parse built-in content types and keep the raw bytes', async () => {
+    const json = await registry.parse(body('{"a":1}'), { 'content-type': 'application/json; charset=utf-8' });
+    expect(json.body).toEqual({ a: 1 });
+    expect(json.rawBody.toString()).toBe('{"a":1}');
+
+    expect((await registry.parse(body('{"a":1}'), { 'content-type': 'application/problem+json' })).body).toEqual({
+      a: 1,
+    });
+    expect((await registry.parse(body('a=1&a=2&b=3'), { 'content-type': 'application/x-www-form-urlencoded' })).body)
+      .toEqual({ a: ['1', '2'], b: '3' });
+    expect((await registry.parse(body('hi'), { 'content-type': 'text/csv' })).body).toBe('hi');
+  });
+
+  it('should keep unknown and binary bodies as Buffers', async () => {
+    const bytes = Buffer.from([0xff, 0x00, 0xfe]);
+
+    const raw = await registry.parse(body(bytes), { 'content-type': 'application/octet-stream' });
+    expect(raw.body).toEqual(bytes);
+
+    const unknown = await registry.parse(body(bytes), { 'content-type': 'image/png' });
+    expect(unknown.body).toEqual(bytes);
+  });
+
+  it('should answer 400 for malformed JSON', async () => {
+    await expect(registry.parse(body('{"a":'), { 'content-type': 'application/json' })).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Invalid JSON body',
+    });
+  });
+
+  it('should only accept objects and arrays in strict JSON mode', async () => {
+    await expect(registry.parse(body('"text"'), { 'content-type': 'application/json' })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+
+    const loose = new BodyParserRegistry({ json: { strict: false } });
+    expect((await loose.parse(body('"text"'), { 'content-type': 'application/json' })).body).toBe('text');
+  });
+
+  it('should reject invalid UTF-8 text in strict mode', async () => {
+    const invalid = Buffer.from([0x68, 0xc3, 0x28]);
+
+    await expect(registry.parse(body(invalid), { 'content-type': 'text/plain' })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+
+  it('should answer 413 past the limit', async () => {
+    const small = new BodyParserRegistry({ limit: 8, text: { limit: '1kb' } });
+
+    // Declared size
+    await expect(
+      small.parse(body('{"a":"long"}'), { 'content-type': 'application/json', 'content-length': '12' })
+    ).rejects.toMatchObject({ statusCode: 413, details: { limit: 8 } });
+
+    // Streamed size (no Content-Length)
+    await expect(small.parse(body('{"a":"long"}'), { 'content-type': 'application/json' })).rejects.toMatchObject({
+      statusCode: 413,
+    });
+
+    // Per-parser limit
+    expect((await small.parse(body('longer than 8'), { 'content-type': 'text/plain' })).body).toBe('longer than 8');
+  });
+
+  it('should use registered parsers', async () => {
+    const custom = new BodyParserRegistry().register(
+      ['application/x-csv', 'text/csv'],
+      (raw, { contentType }) => ({ contentType, values: raw.toString().split(',') })
+    );
+
+    expect((await custom.parse(body('a,b'), { 'content-type': 'text/csv' })).body).toEqual({
+      contentType: 'text/csv',
+      values: ['a', 'b'],
+    });
+  });
+
+  it('should leave empty bodies undefined', async () => {
+    const result = await registry.parse(body(''), { 'content-type': 'application/json' });
+    expect(result.body).toBeUndefined();
+    expect(result.rawBody.length).toBe(0);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * HTTP caching tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAdapterContext } from '../context.js';
+import type { Context } from '../types.js';
+import type { RawRequestInfo } from '../../adapters/types.js';
+import { cache, MemoryCacheStore, type CachedResponse } from '../../middleware/cache.js';
+
+function request(url = '/products', headers: Record<string, string> = {}, method = 'GET') {
+  return createAdapterContext({ method, url, headers }, {});
+}
+
+function entry(body: string, tags: string[] = []): CachedResponse {
+  const now = Date.now();
+  return {
+    statusCode: 200,
+    headers: {},
+    body: Buffer.from(body),
+    tags,
+    storedAt: now,
+    freshUntil: now + 1000,
+    staleUntil: now + 1000,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('cache() ETags', () => {
+  it('should add an ETag and answer 304 for a matching If-None-Match', async () => {
+    const middleware = cache();
+    const first = request();
+    await middleware(first.ctx, async () => first.ctx.json({ id: 1 }));
+
+    const etag = first.responseBuffer.headers.ETag as string;
+    expect(etag).toMatch(/^W\/"[\w-]+"$/);
+    expect(first.responseBuffer.statusCode).toBe(200);
+
+    const second = request('/products', { 'if-none-match': etag });
+    await middleware(second.ctx, async () => second.ctx.json({ id: 1 }));
+    expect(second.responseBuffer.statusCode).toBe(304);
+    expect(second.responseBuffer.body).toBeUndefined();
+    expect(second.responseBuffer.headers['Content-Length']).toBeUndefined();
+    expect(second.responseBuffer.headers.ETag).toBe(etag);
+  });
+
+  it('should keep handler ETags and skip non-GET requests', async () => {
+    const middleware = cache({ etag: 'strong' });
+    const own = request('/products', { 'if-none-match': '"v2"' });
+    await middleware(own.ctx, async () => {
+      own.ctx.setHeader('ETag', '"v2"');
+      own.ctx.json({ id: 1 });
+    });
+    expect(own.responseBuffer.statusCode).toBe(304);
+
+    const post = request('/products', {}, 'POST');
+    await middleware(post.ctx, async () => post.ctx.json({ id: 1 }, 201));
+    expect(post.responseBuffer.headers.ETag).toBeUndefined();
+  });
+});
+
+describe('cache() response cache', () => {
+  it('should serve hits without running the handler', async () => {
+    const middleware = cache({ ttl: 60 });
+    let calls = 0;
+    const handler = vi.fn(async (ctx: Context) => ctx.json({ count: ++calls }));
+
+    const miss = request('/products?b=2&a=1');
+    await middleware(miss.ctx, () => handler(miss.ctx));
+    expect(miss.responseBuffer.headers['X-Cache']).toBe('MISS');
+
+    const hit = request('/products?a=1&b=2');
+    await middleware(hit.ctx, () => handler(hit.ctx));
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(hit.responseBuffer.headers['X-Cache']).toBe('HIT');
+    expect(hit.responseBuffer.headers.Age).toBe('0');
+    expect(hit.responseBuffer.headers.ETag).toBe(miss.responseBuffer.headers.ETag);
+    expect(JSON.parse(hit.responseBuffer.body!.toString())).toEqual({ count: 1 });
+  });
+
+  it('should key entries by the request headers the response varies on', async () => {
+    const middleware = cache({ ttl: 60 });
+    const handler = async (ctx: Context) => {
+      ctx.setHeader('Vary', 'Accept-Language');
+      ctx.json({ lang: ctx.headers['accept-language'] });
+    };
+
+    for (const lang of ['en', 'fr']) {
+      const { ctx } = request('/products', { 'accept-language': lang });
+      await middleware(ctx, () => handler(ctx));
+    }
+
+    const french = request('/products', { 'accept-language': 'fr' });
+    await middleware(french.ctx, async () => french.ctx.json({ lang: 'handler' }));
+    expect(french.responseBuffer.headers['X-Cache']).toBe('HIT');
+    expect(JSON.parse(french.responseBuffer.body!.toString())).toEqual({ lang: 'fr' });
+  });
+
+  it('should not store private, cookie-setting or error responses', async () => {
+    const middleware = cache({ ttl: 60 });
+    const handlers = [
+      async (ctx: Context) => {
+        ctx.setHeader('Cache-Control', 'private, max-age=60');
+        ctx.json({});
+      },
+      async (ctx: Context) => {
+        ctx.setHeader('Set-Cookie', 'sid=1');
+        ctx.json({});
+      },
+      async (ctx: Context) => ctx.json({ error: true }, 500),
+    ];
+
+    for (const [index, handler] of handlers.entries()) {
+      const url = `/private/${index}`;
+      const first = request(url);
+      await middleware(first.ctx, () => handler(first.ctx));
+      const second = request(url);
+      await middleware(second.ctx, () => handler(second.ctx));
+      expect(second.responseBuffer.headers['X-Cache']).not.toBe('HIT');
+    }
+  });
+
+  it('should serve stale entries and revalidate in the background', async () => {
+    const middleware = cache({ ttl: 10, staleWhileRevalidate: 60 });
+    const first = request();
+    await middleware(first.ctx, async () => first.ctx.json({ version: 1 }));
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 20_000);
+
+    const stale = request('/products', { 'if-none-match': '"old"' });
+    const dispatch = vi.fn(async (_info: RawRequestInfo) => ({ statusCode: 200, headers: {}, body: '' }));
+    (stale.ctx as any)._dispatch = dispatch;
+    await middleware(stale.ctx, async () => stale.ctx.json({ version: 2 }));
+
+    expect(stale.responseBuffer.headers['X-Cache']).toBe('STALE');
+    expect(stale.responseBuffer.headers.Age).toBe('20');
+    expect(JSON.parse(stale.responseBuffer.body!.toString())).toEqual({ version: 1 });
+    expect(dispatch).toHaveBeenCalledWith({ method: 'GET', url: '/products', headers: {} });
+
+    // The revalidation request skips the lookup and replaces the entry
+    const refresh = createAdapterContext(dispatch.mock.calls[0][0], {});
+    await middleware(refresh.ctx, async () => refresh.ctx.json({ version: 2 }));
+    expect(refresh.responseBuffer.headers['X-Cache']).toBe('MISS');
+
+    const fresh = request();
+    await middleware(fresh.ctx, async () => fresh.ctx.json({ version: 3 }));
+    expect(fresh.responseBuffer.headers['X-Cache']).toBe('HIT');
+    expect(JSON.parse(fresh.responseBuffer.body!.toString())).toEqual({ version: 2 });
+  });
+
+  it('should invalidate entries by tag', async () => {
+    const middleware = cache({ ttl: 60, tags: (ctx) => ['products', `product:${ctx.path.split('/')[2]}`] });
+    for (const url of ['/products/1', '/products/2']) {
+      const { ctx } = request(url);
+      await middleware(ctx, async () => ctx.json({ url }));
+    }
+
+    expect(await middleware.invalidate('product:1')).toBe(1);
+    expect(await middleware.store.get('/products/1')).toBeUndefined();
+    expect(await middleware.store.get('/products/2')).toBeDefined();
+    expect(await middleware.invalidate(['products'])).toBe(1);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', entry('a'));
+    await store.set('b', entry('b'));
+    await store.get('a');
+    await store.set('c', entry('c'));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+
+  it('should evict by total size and drop expired entries', async () => {
+    const store = new MemoryCacheStore({ maxSize: 10 });
+    await store.set('a', entry('123456'));
+    await store.set('b', entry('123456'));
+    expect(await store.get('a')).toBeUndefined();
+
+    await store.set('expired', { ...entry('x'), staleUntil: Date.now() - 1 });
+    expect(await store.get('expired')).toBeUndefined();
+  });
+});
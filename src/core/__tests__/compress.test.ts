@@ -0,0 +1,162 @@
+/**
+ * Response compression tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync, brotliDecompressSync, inflateSync } from 'zlib';
+import { createAdapterContext } from '../context.js';
+import { negotiateEncoding } from '../negotiation.js';
+import { compress } from '../../middleware/compress.js';
+
+const items = Array.from({ length: 200 }, (_, id) => ({ id, name: `item ${id}`, active: id % 2 === 0 }));
+
+function request(headers: Record<string, string> = {}) {
+  return createAdapterContext({ method: 'GET', url: '/items', headers }, {});
+}
+
+async function collect(source: AsyncIterable<string | Uint8Array>): Promise<Buffer[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return chunks;
+}
+
+describe('negotiateEncoding()', () => {
+  it('should prefer the highest quality, then server order', () => {
+    expect(negotiateEncoding('gzip, deflate, br', ['br', 'gzip'])).toBe('br');
+    expect(negotiateEncoding('gzip;q=1, br;q=0.5', ['br', 'gzip'])).toBe('gzip');
+    expect(negotiateEncoding('*', ['br', 'gzip'])).toBe('br');
+    expect(negotiateEncoding('br;q=0, *;q=0.1', ['br', 'gzip'])).toBe('gzip');
+    expect(negotiateEncoding('identity', ['br', 'gzip'])).toBeUndefined();
+    expect(negotiateEncoding(undefined, ['br', 'gzip'])).toBeUndefined();
+  });
+});
+
+describe('compress()', () => {
+  it('should gzip buffered JSON and update Content-Length', async () => {
+    const { ctx, responseBuffer } = request({ 'accept-encoding': 'gzip' });
+    await compress()(ctx, async () => ctx.json(items));
+
+    const body = responseBuffer.body as Buffer;
+    expect(responseBuffer.headers['Content-Encoding']).toBe('gzip');
+    expect(responseBuffer.headers['Content-Length']).toBe(String(body.length));
+    expect(responseBuffer.headers.Vary).toBe('Accept-Encoding');
+    expect(JSON.parse(gunzipSync(body).toString())).toEqual(items);
+  });
+
+  it('should pick brotli and deflate from Accept-Encoding', async () => {
+    const br = request({ 'accept-encoding': 'gzip, deflate, br' });
+    await compress()(br.ctx, async () => br.ctx.json(items));
+    expect(br.responseBuffer.headers['Content-Encoding']).toBe('br');
+    expect(JSON.parse(brotliDecompressSync(br.responseBuffer.body as Buffer).toString())).toEqual(items);
+
+    const deflate = request({ 'accept-encoding': 'deflate' });
+    await compress()(deflate.ctx, async () => deflate.ctx.json(items));
+    expect(deflate.responseBuffer.headers['Content-Encoding']).toBe('deflate');
+    expect(JSON.parse(inflateSync(deflate.responseBuffer.body as Buffer).toString())).toEqual(items);
+  });
+
+  it('should leave small bodies and unaccepted encodings alone', async () => {
+    const small = request({ 'accept-encoding': 'gzip' });
+    await compress({ threshold: '1kb' })(small.ctx, async () => small.ctx.json({ ok: true }));
+    expect(small.responseBuffer.body).toBe('{"ok":true}');
+    expect(small.responseBuffer.headers['Content-Encoding']).toBeUndefined();
+    expect(small.responseBuffer.headers.Vary).toBe('Accept-Encoding');
+
+    const identity = request();
+    await compress()(identity.ctx, async () => identity.ctx.json(items));
+    expect(typeof identity.responseBuffer.body).toBe('string');
+    expect(identity.responseBuffer.headers['Content-Encoding']).toBeUndefined();
+  });
+
+  it('should skip filtered types and no-transform responses', async () => {
+    const image = request({ 'accept-encoding': 'gzip' });
+    await compress()(image.ctx, async () => {
+      image.ctx.setHeader('Content-Type', 'image/png');
+      image.ctx.res.end(Buffer.alloc(4096));
+    });
+    expect(image.responseBuffer.headers['Content-Encoding']).toBeUndefined();
+    expect(image.responseBuffer.headers.Vary).toBeUndefined();
+
+    const noTransform = request({ 'accept-encoding': 'gzip' });
+    await compress()(noTransform.ctx, async () => {
+      noTransform.ctx.setHeader('Cache-Control', 'private, no-transform');
+      noTransform.ctx.json(items);
+    });
+    expect(noTransform.responseBuffer.headers['Content-Encoding']).toBeUndefined();
+  });
+
+  it('should weaken strong ETags', async () => {
+    const { ctx, responseBuffer } = request({ 'accept-encoding': 'gzip' });
+    await compress()(ctx, async () => {
+      ctx.setHeader('ETag', '"v1"');
+      ctx.json(items);
+    });
+    expect(responseBuffer.headers.ETag).toBe('W/"v1"');
+  });
+
+  it('should compress streams chunk by chunk', async () => {
+    const { ctx, responseBuffer } = request({ 'accept-encoding': 'gzip' });
+    await compress()(ctx, async () => {
+      ctx.setHeader('Content-Type', 'application/x-ndjson');
+      void ctx.stream(items.map((item) => `${JSON.stringify(item)}\n`));
+    });
+
+    expect(responseBuffer.headers['Content-Encoding']).toBe('gzip');
+    expect(responseBuffer.headers['Content-Length']).toBeUndefined();
+
+    const chunks = await collect(responseBuffer.stream!);
+    // Every source chunk is flushed, so output arrives as it is produced
+    expect(chunks.length).toBeGreaterThan(items.length);
+    const lines = gunzipSync(Buffer.concat(chunks)).toString().trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toEqual(items);
+  });
+
+  it('should not compress event streams', async () => {
+    const { ctx, responseBuffer } = request({ 'accept-encoding': 'gzip' });
+    await compress()(ctx, async () => {
+      const sse = ctx.sse();
+      sse.close();
+    });
+    expect(responseBuffer.headers['Content-Encoding']).toBeUndefined();
+  });
+
+  describe('files', () => {
+    let root: string;
+
+    beforeAll(async () => {
+      root = await mkdtemp(join(tmpdir(), 'ramapi-compress-'));
+      await writeFile(join(root, 'data.json'), JSON.stringify(items));
+    });
+
+    afterAll(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should compress files without a precompressed variant', async () => {
+      const { ctx, responseBuffer } = request({ 'accept-encoding': 'gzip' });
+      await compress()(ctx, () => ctx.sendFile('data.json', { root }));
+
+      expect(responseBuffer.file).toBeUndefined();
+      expect(responseBuffer.headers['Content-Encoding']).toBe('gzip');
+      expect(responseBuffer.headers['Accept-Ranges']).toBeUndefined();
+      expect(responseBuffer.headers.ETag).toMatch(/^W\//);
+
+      const chunks = await collect(responseBuffer.stream!);
+      expect(JSON.parse(gunzipSync(Buffer.concat(chunks)).toString())).toEqual(items);
+    });
+
+    it('should send ranges uncompressed', async () => {
+      const { ctx, responseBuffer } = request({ 'accept-encoding': 'gzip', range: 'bytes=0-9' });
+      await compress()(ctx, () => ctx.sendFile('data.json', { root }));
+
+      expect(responseBuffer.statusCode).toBe(206);
+      expect(responseBuffer.file).toEqual({ path: join(root, 'data.json'), start: 0, end: 9 });
+      expect(responseBuffer.headers['Content-Encoding']).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Dependency injection container tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createApp, Server } from '../server.js';
+import { Container, InjectionToken, type Resolver } from '../container.js';
+import type { Context, Middleware } from '../types.js';
+
+let nextId = 0;
+
+class Database {
+  closed = false;
+  dispose() {
+    this.closed = true;
+  }
+}
+
+class UserRepo {
+  id = ++nextId;
+  disposed = false;
+  db: Database;
+
+  constructor(c: Resolver) {
+    this.db = c.resolve(Database);
+  }
+
+  dispose() {
+    this.disposed = true;
+  }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('Container', () => {
+  it('should share scoped instances within a request and dispose them after the response', async () => {
+    const app = createApp();
+    app.container.singleton(Database).scoped(UserRepo);
+
+    const repos: UserRepo[] = [];
+    const track: Middleware = async (ctx, next) => {
+      repos.push(ctx.resolve(UserRepo));
+      await next();
+    };
+    app.use(track);
+    app.get('/users', async (ctx: Context) => {
+      const repo = ctx.resolve(UserRepo);
+      ctx.json({ same: repo === repos[repos.length - 1], disposed: repo.disposed });
+    });
+
+    expect((await app.inject({ url: '/users' })).json()).toEqual({ same: true, disposed: false });
+    await app.inject({ url: '/users' });
+    await tick();
+
+    expect(repos[0]).not.toBe(repos[1]);
+    expect(repos.every((repo) => repo.disposed)).toBe(true);
+    expect(repos[0].db).toBe(repos[1].db);
+
+    await app.close();
+    expect(repos[0].db.closed).toBe(true);
+  });
+
+  it('should create transient instances on every resolve', () => {
+    const COUNTER = new InjectionToken<{ id: number }>('COUNTER');
+    const container = new Container().transient(COUNTER, () => ({ id: ++nextId }));
+    const scope = container.createScope();
+
+    expect(scope.resolve(COUNTER)).not.toBe(scope.resolve(COUNTER));
+    expect(container.resolve(COUNTER)).not.toBe(container.resolve(COUNTER));
+  });
+
+  it('should reject missing, circular and captive dependencies', () => {
+    const A = new InjectionToken<unknown>('A');
+    const B = new InjectionToken<unknown>('B');
+    const container = new Container()
+      .singleton(A, (c) => c.resolve(B))
+      .singleton(B, (c) => c.resolve(A))
+      .scoped(UserRepo)
+      .singleton(Database, (c) => (c.resolve(UserRepo), new Database()));
+
+    expect(() => container.resolve(new InjectionToken('C'))).toThrow('No provider registered for C');
+    expect(() => container.resolve(A)).toThrow('Circular dependency: A -> B -> A');
+    expect(() => container.resolve(UserRepo)).toThrow('Cannot resolve scoped UserRepo outside a request');
+    expect(() => container.createScope().resolve(UserRepo)).toThrow(
+      'Cannot resolve scoped UserRepo outside a request (needed by Database)'
+    );
+  });
+
+  it('should give REST and GraphQL operations the request scope', async () => {
+    const app = new Server({ protocols: { graphql: true } });
+    app.container.singleton(Database).scoped(UserRepo);
+    app.operation({
+      name: 'repoId',
+      input: z.object({ tag: z.string() }),
+      output: z.number(),
+      handler: (_input, ctx) => ctx.resolve(UserRepo).id,
+      graphql: { type: 'query' },
+      rest: { method: 'GET', path: '/repo-id' },
+    });
+
+    const graphql = await app.inject({
+      method: 'POST',
+      url: '/graphql',
+      body: { query: '{ a: repoId(tag: "a") b: repoId(tag: "b") }' },
+    });
+    const { a, b } = graphql.json().data;
+    expect(a).toBe(b);
+
+    const rest = await app.inject({ url: '/repo-id?tag=c' });
+    expect(rest.json()).toBeGreaterThan(a);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Cookie tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCookieHeader,
+  serializeCookie,
+  signCookie,
+  unsignCookie,
+  encryptCookie,
+  decryptCookie,
+} from '../cookies.js';
+import { createAdapterContext } from '../context.js';
+
+describe('parseCookieHeader', () => {
+  it('should parse and decode cookies', () => {
+    expect(parseCookieHeader('a=1; b=hello%20world; c="quoted"; broken; d=%E0')).toEqual({
+      a: '1',
+      b: 'hello world',
+      c: 'quoted',
+      d: '%E0',
+    });
+  });
+
+  it('should keep the first occurrence of a name', () => {
+    expect(parseCookieHeader('id=specific; id=general')).toEqual({ id: 'specific' });
+  });
+});
+
+describe('serializeCookie', () => {
+  it('should apply secure defaults', () => {
+    expect(serializeCookie('id', 'a b')).toBe('id=a%20b; Path=/; HttpOnly; SameSite=Lax');
+  });
+
+  it('should serialize every attribute', () => {
+    expect(
+      serializeCookie('id', '1', {
+        maxAge: 60,
+        expires: new Date(0),
+        domain: 'example.com',
+        path: '/app',
+        httpOnly: false,
+        sameSite: 'strict',
+        priority: 'high',
+      })
+    ).toBe('id=1; Max-Age=60; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Domain=example.com; Path=/app; SameSite=Strict; Priority=High');
+  });
+
+  it('should force Secure for SameSite=None and Partitioned', () => {
+    expect(serializeCookie('id', '1', { sameSite: 'none', partitioned: true })).toBe(
+      'id=1; Path=/; Secure; HttpOnly; SameSite=None; Partitioned'
+    );
+  });
+
+  it('should reject invalid names and attributes', () => {
+    expect(() => serializeCookie('bad name', '1')).toThrow('Invalid cookie name');
+    expect(() => serializeCookie('id', '1', { path: '/a;b' })).toThrow('Invalid cookie path');
+  });
+});
+
+describe('signed and encrypted cookies', () => {
+  it('should verify signatures with any key', () => {
+    const signed = signCookie('uid', '42', ['old']);
+
+    expect(unsignCookie('uid', signed, ['new', 'old'])).toBe('42');
+    expect(unsignCookie('uid', signed, ['new'])).toBeUndefined();
+    expect(unsignCookie('uid', signed.replace('42', '43'), ['old'])).toBeUndefined();
+    // Signatures are bound to the cookie name
+    expect(unsignCookie('admin', signed, ['old'])).toBeUndefined();
+  });
+
+  it('should round-trip encrypted values across key rotation', () => {
+    const encrypted = encryptCookie('session', '{"id":7}', ['old']);
+
+    expect(encrypted).not.toContain('id');
+    expect(decryptCookie('session', encrypted, ['new', 'old'])).toBe('{"id":7}');
+    expect(decryptCookie('session', encrypted, ['new'])).toBeUndefined();
+    expect(decryptCookie('other', encrypted, ['old'])).toBeUndefined();
+    expect(decryptCookie('session', encrypted.slice(0, -2) + 'AA', ['old'])).toBeUndefined();
+  });
+});
+
+describe('ctx.cookies', () => {
+  it('should send several Set-Cookie headers', () => {
+    const { ctx, responseBuffer } = createAdapterContext(
+      { method: 'GET', url: '/', headers: { cookie: 'theme=dark' } },
+      {},
+      { cookies: { keys: ['secret'], defaults: { secure: true } } }
+    );
+
+    expect(ctx.cookies.get('theme')).toBe('dark');
+    ctx.cookies.set('uid', '42', { signed: true });
+    ctx.cookies.delete('theme');
+
+    const setCookie = responseBuffer.headers['Set-Cookie'] as string[];
+    expect(setCookie).toHaveLength(2);
+    expect(setCookie[0]).toMatch(/^uid=42\.[\w-]+; Path=\/; Secure; HttpOnly; SameSite=Lax$/);
+    expect(setCookie[1]).toContain('theme=; Max-Age=0');
+  });
+
+  it('should require keys for signed cookies', () => {
+    const { ctx } = createAdapterContext({ method: 'GET', url: '/', headers: { cookie: 'uid=1.x' } }, {});
+
+    expect(() => ctx.cookies.get('uid', { signed: true })).toThrow('cookies.keys');
+  });
+
+  it('should append to existing headers regardless of casing', () => {
+    const { ctx, responseBuffer } = createAdapterContext({ method: 'GET', url: '/', headers: {} }, {});
+
+    ctx.setHeader('vary', 'Origin');
+    ctx.appendHeader('Vary', 'Accept');
+
+    expect(responseBuffer.headers).toEqual({ vary: ['Origin', 'Accept'] });
+  });
+});
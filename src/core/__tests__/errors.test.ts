@@ -0,0 +1,107 @@
+/**
+ * Typed errors and the error registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { status } from '@grpc/grpc-js';
+import { Server, createApp } from '../server.js';
+import { HTTPError } from '../types.js';
+import {
+  ErrorRegistry,
+  errorRegistry,
+  ConflictError,
+  NotFoundError,
+  ValidationFailedError,
+  UnauthorizedError,
+} from '../errors.js';
+
+describe('errorRegistry', () => {
+  it('should map typed errors to HTTP, GraphQL and gRPC codes', () => {
+    expect(errorRegistry.resolve(new NotFoundError('User not found', { id: 1 }))).toEqual({
+      code: 'NOT_FOUND',
+      status: 404,
+      graphql: 'NOT_FOUND',
+      grpc: status.NOT_FOUND,
+      message: 'User not found',
+      details: { id: 1 },
+    });
+    expect(errorRegistry.resolve(new UnauthorizedError())).toMatchObject({
+      status: 401,
+      graphql: 'UNAUTHENTICATED',
+      grpc: status.UNAUTHENTICATED,
+    });
+    expect(errorRegistry.resolve(new ValidationFailedError([]))).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      graphql: 'BAD_USER_INPUT',
+      grpc: status.INVALID_ARGUMENT,
+    });
+  });
+
+  it('should derive codes for plain HTTPErrors from their status', () => {
+    expect(errorRegistry.resolve(new HTTPError(409, 'Taken'))).toMatchObject({
+      code: 'CONFLICT',
+      grpc: status.ALREADY_EXISTS,
+    });
+    expect(errorRegistry.resolve(new HTTPError(418, 'Teapot'))).toMatchObject({
+      code: 'I_M_A_TEAPOT',
+      status: 418,
+      graphql: 'I_M_A_TEAPOT',
+      grpc: status.FAILED_PRECONDITION,
+    });
+  });
+
+  it('should map registered codes on other errors and treat the rest as internal', () => {
+    const registry = new ErrorRegistry()
+      .register('INTERNAL_SERVER_ERROR', { status: 500, graphql: 'INTERNAL_SERVER_ERROR', grpc: status.INTERNAL })
+      .register('INSUFFICIENT_FUNDS', { status: 402, graphql: 'INSUFFICIENT_FUNDS', grpc: status.FAILED_PRECONDITION });
+
+    const domain = Object.assign(new Error('Balance too low'), { code: 'INSUFFICIENT_FUNDS' });
+    expect(registry.resolve(domain)).toMatchObject({ code: 'INSUFFICIENT_FUNDS', status: 402 });
+
+    const system = Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' });
+    expect(registry.resolve(system)).toMatchObject({ code: 'INTERNAL_SERVER_ERROR', status: 500, grpc: status.INTERNAL });
+  });
+});
+
+describe('error responses', () => {
+  it('should include the code in problem details', async () => {
+    const app = createApp();
+    app.post('/users', async () => {
+      throw new ConflictError('Email already registered', { field: 'email' });
+    });
+    app.post('/orders', { schema: { body: z.object({ items: z.array(z.string()) }) } }, async () => {});
+
+    const conflict = await app.inject({ method: 'POST', url: '/users', body: {} });
+    expect(conflict.status).toBe(409);
+    expect(conflict.json()).toMatchObject({ code: 'CONFLICT', detail: 'Email already registered', field: 'email' });
+
+    const invalid = await app.inject({ method: 'POST', url: '/orders', body: {} });
+    expect(invalid.json()).toMatchObject({ status: 400, code: 'VALIDATION_FAILED' });
+
+    const missing = await app.inject({ url: '/nowhere' });
+    expect(missing.json().code).toBe('NOT_FOUND');
+  });
+
+  it('should set extensions.code on GraphQL errors', async () => {
+    const app = new Server({ protocols: { graphql: true } });
+    app.operation({
+      name: 'user',
+      input: z.object({ id: z.string() }),
+      output: z.object({ id: z.string() }),
+      handler: ({ id }) => {
+        throw new NotFoundError(`User ${id} not found`, { id });
+      },
+      graphql: { type: 'query' },
+    });
+
+    const res = await app.inject({ method: 'POST', url: '/graphql', body: { query: '{ user(id: "7") { id } }' } });
+    expect(res.json().errors[0]).toMatchObject({
+      message: 'User 7 not found',
+      extensions: { code: 'NOT_FOUND', details: { id: '7' } },
+    });
+
+    const invalid = await app.inject({ method: 'POST', url: '/graphql', body: { query: '{ nope }' } });
+    expect(invalid.json().errors[0].extensions.code).toBe('GRAPHQL_VALIDATION_FAILED');
+  });
+});
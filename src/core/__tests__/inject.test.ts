@@ -0,0 +1,116 @@
+/**
+ * app.inject() tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { createApp, Server } from '../server.js';
+import { HTTPError, type Context } from '../types.js';
+
+describe('app.inject()', () => {
+  it('should run requests through routes without listening', async () => {
+    const app = createApp();
+    app.route({
+      method: 'POST',
+      path: '/users/:id',
+      schema: {
+        params: z.object({ id: z.coerce.number() }),
+        query: z.object({ page: z.coerce.number() }),
+        body: z.object({ name: z.string() }),
+      },
+      handler: (ctx) => ctx.json({ id: ctx.params.id, page: ctx.query.page, name: ctx.body.name }, 201),
+    });
+
+    const res = await app.inject({
+      method: 'post',
+      url: '/users/7',
+      query: { page: '2' },
+      body: { name: 'Ada' },
+    });
+
+    expect(res.status).toBe(201);
+    expect(res.headers['content-type']).toBe('application/json');
+    expect(res.json()).toEqual({ id: 7, page: 2, name: 'Ada' });
+  });
+
+  it('should pass headers and return cookies', async () => {
+    const app = createApp();
+    app.use(async (ctx: Context, next: () => Promise<void>) => {
+      if (ctx.headers.authorization !== 'Bearer token') throw new HTTPError(401, 'Unauthorized');
+      await next();
+    });
+    app.get('/me', async (ctx: Context) => {
+      ctx.cookies.set('seen', '1');
+      ctx.cookies.set('theme', 'dark');
+      ctx.text('ok');
+    });
+
+    const denied = await app.inject({ url: '/me' });
+    expect(denied.status).toBe(401);
+    expect(denied.json().detail).toBe('Unauthorized');
+
+    const res = await app.inject({ url: '/me', headers: { Authorization: 'Bearer token' } });
+    expect(res.status).toBe(200);
+    expect(res.body).toBe('ok');
+    expect(res.headers['set-cookie']).toHaveLength(2);
+    expect(res.headers['set-cookie'][0]).toMatch(/^seen=1;/);
+  });
+
+  it('should answer unknown routes with 404', async () => {
+    const app = createApp();
+    const res = await app.inject({ url: '/missing' });
+    expect(res.status).toBe(404);
+  });
+
+  it('should read streamed and file responses to the end', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ramapi-inject-'));
+    writeFileSync(join(dir, 'hello.txt'), 'hello from disk');
+
+    const app = createApp();
+    app.get('/stream', async (ctx: Context) => {
+      const writer = ctx.writer();
+      await writer.write('a');
+      setTimeout(() => void writer.end('b'), 10);
+    });
+    app.get('/file', async (ctx: Context) => ctx.sendFile(join(dir, 'hello.txt')));
+
+    expect((await app.inject({ url: '/stream' })).body).toBe('ab');
+
+    const file = await app.inject({ url: '/file', headers: { range: 'bytes=6-9' } });
+    expect(file.status).toBe(206);
+    expect(file.body).toBe('from');
+  });
+
+  it('should drop the body of HEAD responses', async () => {
+    const app = createApp();
+    app.get('/', async (ctx: Context) => ctx.json({ ok: true }));
+
+    const res = await app.inject({ method: 'HEAD', url: '/' });
+    expect(res.status).toBe(200);
+    expect(res.headers['content-length']).toBe('11');
+    expect(res.body).toBe('');
+  });
+
+  it('should run GraphQL requests through the protocol manager', async () => {
+    const app = new Server({ protocols: { graphql: true } });
+    app.operation({
+      name: 'hello',
+      input: z.object({ name: z.string() }),
+      output: z.string(),
+      handler: ({ name }) => `Hello ${name}`,
+      graphql: { type: 'query' },
+    });
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/graphql',
+      body: { query: '{ hello(name: "Ada") }' },
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.json()).toEqual({ data: { hello: 'Hello Ada' } });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Multipart parser tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { MultipartParser, getBoundary, parseHeaderParams, type MultipartEvent } from '../multipart.js';
+import { parseMultipart, memoryStorage } from '../../middleware/multipart.js';
+import type { UploadedFile } from '../types.js';
+
+const BODY = [
+  'preamble is ignored\r\n',
+  '--XyZ\r\n',
+  'Content-Disposition: form-data; name="title"\r\n',
+  '\r\n',
+  'Hello\r\nworld\r\n',
+  '--XyZ\r\n',
+  'Content-Disposition: form-data; name="doc"; filename="C:\\\\tmp\\\\report.txt"\r\n',
+  'Content-Type: text/plain\r\n',
+  '\r\n',
+  'line 1\r\n--Xy not a boundary\r\n',
+  '--XyZ--\r\n',
+  'epilogue',
+].join('');
+
+/**
+ * Collapse events into parts for easy assertions
+ */
+function collect(events: MultipartEvent[]) {
+  const parts: { name: string; filename?: string; contentType: string; data: string }[] = [];
+  for (const event of events) {
+    if (event.type === 'part') {
+      parts.push({ ...event.part, data: '' });
+      delete (parts[parts.length - 1] as any).headers;
+    } else if (event.type === 'data') {
+      parts[parts.length - 1].data += event.data.toString();
+    }
+  }
+  return parts;
+}
+
+const EXPECTED = [
+  { name: 'title', filename: undefined, contentType: 'text/plain', data: 'Hello\r\nworld' },
+  { name: 'doc', filename: 'C:\\tmp\\report.txt', contentType: 'text/plain', data: 'line 1\r\n--Xy not a boundary' },
+];
+
+describe('MultipartParser', () => {
+  it('should parse fields and files', () => {
+    const parser = new MultipartParser('XyZ');
+    const events = parser.write(Buffer.from(BODY));
+    parser.end();
+
+    expect(collect(events)).toEqual(EXPECTED);
+    expect(events.filter((event) => event.type === 'partEnd')).toHaveLength(2);
+  });
+
+  it('should handle boundaries split across chunks', () => {
+    const parser = new MultipartParser('XyZ');
+    const events: MultipartEvent[] = [];
+    for (const byte of Buffer.from(BODY)) {
+      events.push(...parser.write(Buffer.from([byte])));
+    }
+    parser.end();
+
+    expect(collect(events)).toEqual(EXPECTED);
+  });
+
+  it('should reject truncated bodies', () => {
+    const parser = new MultipartParser('XyZ');
+    parser.write(Buffer.from('--XyZ\r\nContent-Disposition: form-data; name="a"\r\n\r\nunterminated'));
+
+    expect(() => parser.end()).toThrow('Malformed multipart body');
+  });
+
+  it('should reject parts without a name', () => {
+    const parser = new MultipartParser('XyZ');
+    expect(() => parser.write(Buffer.from('--XyZ\r\nContent-Type: text/plain\r\n\r\nx'))).toThrow(
+      'Malformed multipart body'
+    );
+  });
+});
+
+describe('multipart headers', () => {
+  it('should read quoted and unquoted boundaries', () => {
+    expect(getBoundary('multipart/form-data; boundary=abc123')).toBe('abc123');
+    expect(getBoundary('multipart/form-data; boundary="a b;c"')).toBe('a b;c');
+    expect(getBoundary('multipart/form-data')).toBeUndefined();
+  });
+
+  it('should prefer RFC 5987 filenames', () => {
+    expect(
+      parseHeaderParams(`form-data; name="f"; filename="fallback.txt"; filename*=UTF-8''r%C3%A9sum%C3%A9.txt`)
+    ).toEqual({ name: 'f', filename: 'résumé.txt' });
+  });
+});
+
+describe('parseMultipart', () => {
+  function source(body: string): Readable {
+    // Small chunks exercise the streaming path
+    const buffer = Buffer.from(body);
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < buffer.length; i += 7) chunks.push(buffer.subarray(i, i + 7));
+    return Readable.from(chunks);
+  }
+
+  it('should collect fields and store files', async () => {
+    const result = await parseMultipart(source(BODY), 'multipart/form-data; boundary=XyZ', {
+      storage: memoryStorage(),
+    });
+
+    expect(result.fields).toEqual({ title: 'Hello\r\nworld' });
+    const doc = result.files.doc as UploadedFile;
+    expect(doc).toMatchObject({ fieldName: 'doc', filename: 'report.txt', mimeType: 'text/plain', size: 27 });
+    expect(doc.buffer!.toString()).toBe('line 1\r\n--Xy not a boundary');
+  });
+
+  it('should enforce limits with 413', async () => {
+    const options = { storage: memoryStorage() };
+
+    await expect(
+      parseMultipart(source(BODY), 'multipart/form-data; boundary=XyZ', { ...options, limits: { fileSize: 10 } })
+    ).rejects.toMatchObject({ statusCode: 413, message: 'File too large' });
+
+    await expect(
+      parseMultipart(source(BODY), 'multipart/form-data; boundary=XyZ', { ...options, limits: { fieldSize: 5 } })
+    ).rejects.toMatchObject({ statusCode: 413, message: 'Field too large' });
+
+    await expect(
+      parseMultipart(source(BODY), 'multipart/form-data; boundary=XyZ', { ...options, limits: { totalSize: 100 } })
+    ).rejects.toMatchObject({ statusCode: 413, message: 'Request body too large' });
+  });
+
+  it('should remove stored files when the request fails', async () => {
+    const removed: string[] = [];
+    const storage = {
+      ...memoryStorage(),
+      async remove(file: UploadedFile) {
+        removed.push(file.filename);
+      },
+    };
+
+    await expect(
+      parseMultipart(source(BODY), 'multipart/form-data; boundary=XyZ', { storage, limits: { fields: 0 } })
+    ).rejects.toMatchObject({ statusCode: 413 });
+    expect(removed).toEqual([]);
+
+    // Body ends right after the file's boundary, before the closing "--"
+    const truncated = BODY.slice(0, BODY.indexOf('--XyZ--') + 5);
+    await expect(
+      parseMultipart(source(truncated), 'multipart/form-data; boundary=XyZ', { storage })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(removed).toEqual(['report.txt']);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Content negotiation tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { parseAccept, SerializerRegistry } from '../negotiation.js';
+import { createAdapterContext } from '../context.js';
+import { createResponseSerializer } from '../serializer.js';
+import { encodeMsgpack } from '../../utils/msgpack.js';
+
+function send(data: unknown, accept?: string, registry = new SerializerRegistry()) {
+  const { ctx, responseBuffer } = createAdapterContext(
+    { method: 'GET', url: '/', headers: accept ? { accept } : {} },
+    {},
+    { serializers: registry }
+  );
+  ctx.send(data);
+  return { ctx, responseBuffer };
+}
+
+describe('parseAccept', () => {
+  it('should parse ranges with quality and specificity', () => {
+    expect(parseAccept('text/csv;q=0.5, application/*, */*;q=0.1, bad, */json')).toEqual([
+      { type: 'text', subtype: 'csv', q: 0.5, specificity: 2 },
+      { type: 'application', subtype: '*', q: 1, specificity: 1 },
+      { type: '*', subtype: '*', q: 0.1, specificity: 0 },
+    ]);
+  });
+
+  it('should accept anything without a header', () => {
+    expect(parseAccept(undefined)).toEqual([{ type: '*', subtype: '*', q: 1, specificity: 0 }]);
+  });
+});
+
+describe('ctx.send()', () => {
+  const rows = [
+    { id: 1, name: 'a,b', tags: ['x'] },
+    { id: 2, note: ' padded "quote"' },
+  ];
+
+  it('should default to JSON and vary on Accept', () => {
+    const { responseBuffer } = send(rows);
+
+    expect(responseBuffer.headers['Content-Type']).toBe('application/json');
+    expect(responseBuffer.headers.Vary).toBe('Accept');
+    expect(JSON.parse(responseBuffer.body as string)).toEqual(rows);
+  });
+
+  it('should write CSV with columns from every row', () => {
+    const { responseBuffer } = send(rows, 'text/csv');
+
+    expect(responseBuffer.headers['Content-Type']).toBe('text/csv; charset=utf-8; header=present');
+    expect(responseBuffer.body).toBe('id,name,tags,note\r\n1,"a,b","[""x""]",\r\n2,,," padded ""quote"""\r\n');
+  });
+
+  it('should write NDJSON one item per line', () => {
+    expect(send(rows, 'application/x-ndjson').responseBuffer.body).toBe(
+      '{"id":1,"name":"a,b","tags":["x"]}\n{"id":2,"note":" padded \\"quote\\""}\n'
+    );
+  });
+
+  it('should prefer higher quality, then more specific ranges, then registration order', () => {
+    const type = (accept: string) => send(rows, accept).responseBuffer.headers['Content-Type'];
+
+    expect(type('text/csv;q=0.5, application/x-ndjson')).toBe('application/x-ndjson');
+    expect(type('*/*, text/csv')).toBe('text/csv; charset=utf-8; header=present');
+    expect(type('application/*')).toBe('application/json');
+    expect(type('application/json;q=0, application/*')).toBe('application/x-ndjson');
+  });
+
+  it('should answer 406 when nothing fits', () => {
+    expect(() => send(rows, 'text/html')).toThrow(expect.objectContaining({ statusCode: 406 }));
+    // Protobuf needs an operation's message
+    expect(() => send(rows, 'application/x-protobuf')).toThrow('Not Acceptable');
+  });
+
+  it('should apply the response schema to every format', () => {
+    const { ctx, responseBuffer } = createAdapterContext(
+      { method: 'GET', url: '/', headers: { accept: 'text/csv' } },
+      {}
+    );
+    ctx.serializer = createResponseSerializer(z.array(z.object({ id: z.number() })), { strict: false });
+    ctx.send([{ id: 1, secret: 'x' }]);
+
+    expect(responseBuffer.body).toBe('id\r\n1\r\n');
+  });
+
+  it('should use registered serializers', () => {
+    const registry = new SerializerRegistry().register('application/xml', (data) => `<v>${String(data)}</v>`);
+    const { responseBuffer } = send(5, 'application/xml', registry);
+
+    expect(responseBuffer.headers['Content-Type']).toBe('application/xml');
+    expect(responseBuffer.body).toBe('<v>5</v>');
+  });
+});
+
+describe('encodeMsgpack', () => {
+  it('should pick the smallest encoding', () => {
+    expect(encodeMsgpack({ a: [1, -1, 300, 1.5, true, null] }).toString('hex')).toBe(
+      '81a16196' + '01' + 'ff' + 'cd012c' + 'cb3ff8000000000000' + 'c3' + 'c0'
+    );
+    expect(encodeMsgpack(-200).toString('hex')).toBe('d1ff38');
+    expect(encodeMsgpack(2n ** 40n).toString('hex')).toBe('cf0000010000000000');
+    expect(encodeMsgpack(Buffer.from([1, 2])).toString('hex')).toBe('c4020102');
+  });
+
+  it('should skip undefined properties like JSON', () => {
+    expect(encodeMsgpack({ a: undefined, b: 1 })).toEqual(encodeMsgpack({ b: 1 }));
+  });
+
+  it('should encode long strings and dates', () => {
+    expect(encodeMsgpack('x'.repeat(40)).subarray(0, 2).toString('hex')).toBe('d928');
+    expect(encodeMsgpack(new Date(1500)).toString('hex')).toBe('c70cff1dcd6500' + '0000000000000001');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Plugin system tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../server.js';
+import type { Plugin } from '../plugin.js';
+import type { Context, Middleware } from '../types.js';
+
+const tag = (name: string): Middleware => async (ctx, next) => {
+  ctx.appendHeader('X-Middleware', name);
+  await next();
+};
+
+const ok = async (ctx: Context) => ctx.json({ ok: true });
+
+describe('app.register()', () => {
+  it('should keep plugin middleware inside the plugin', async () => {
+    const app = createApp();
+    app.use(tag('root'));
+    app.register({
+      name: 'a',
+      register(app) {
+        app.use(tag('a'));
+        app.get('/a', ok);
+      },
+    });
+    app.register({
+      name: 'b',
+      register(app) {
+        app.get('/b', ok);
+      },
+    });
+    app.get('/c', ok);
+
+    expect((await app.inject({ url: '/a' })).headers['x-middleware']).toEqual(['root', 'a']);
+    expect((await app.inject({ url: '/b' })).headers['x-middleware']).toBe('root');
+    expect((await app.inject({ url: '/c' })).headers['x-middleware']).toBe('root');
+  });
+
+  it('should apply middleware of non-encapsulated plugins to the parent scope', async () => {
+    const app = createApp();
+    app.get('/before', ok);
+    app.register({
+      name: 'tracing',
+      encapsulate: false,
+      register(app) {
+        app.use(tag('tracing'));
+        app.get('/health', ok);
+      },
+    });
+    app.get('/after', ok);
+
+    expect((await app.inject({ url: '/before' })).headers['x-middleware']).toBeUndefined();
+    expect((await app.inject({ url: '/health' })).headers['x-middleware']).toBe('tracing');
+    expect((await app.inject({ url: '/after' })).headers['x-middleware']).toBe('tracing');
+  });
+
+  it('should scope decorators to the plugin and pass options', async () => {
+    const db: Plugin<{ url: string }> = {
+      name: 'db',
+      register(app, { url }) {
+        app.decorate('db', { url });
+        app.get('/inside', async (ctx: Context) => ctx.json({ db: (ctx as any).db, version: (ctx as any).version }));
+      },
+    };
+
+    const app = createApp();
+    app.decorate('version', 2);
+    app.register(db, { url: 'postgres://localhost' });
+    app.get('/outside', async (ctx: Context) => ctx.json({ db: (ctx as any).db ?? null, version: (ctx as any).version }));
+
+    expect((await app.inject({ url: '/inside' })).json()).toEqual({ db: { url: 'postgres://localhost' }, version: 2 });
+    expect((await app.inject({ url: '/outside' })).json()).toEqual({ db: null, version: 2 });
+    expect(() => app.decorate('json', () => {})).toThrow('built-in Context property');
+    expect(() => app.decorate('version', 3)).toThrow('already decorated');
+  });
+
+  it('should load plugins after their dependencies', async () => {
+    const order: string[] = [];
+    const plugin = (name: string, dependencies?: string[], children: Plugin[] = []): Plugin => ({
+      name,
+      dependencies,
+      register(app) {
+        order.push(name);
+        children.forEach((child) => app.register(child));
+      },
+    });
+
+    const app = createApp();
+    app.register(plugin('users', ['auth', 'db']));
+    app.register(plugin('auth', ['db']));
+    app.register(plugin('db', [], [plugin('db-migrations')]));
+    await app.ready();
+
+    expect(order).toEqual(['db', 'auth', 'users', 'db-migrations']);
+    expect(() => app.register(plugin('late'))).toThrow('after the server started');
+  });
+
+  it('should reject missing, circular and duplicate plugins', async () => {
+    const missing = createApp();
+    missing.register({ name: 'users', dependencies: ['db'], register() {} });
+    await expect(missing.ready()).rejects.toThrow('Plugin "users" depends on "db", which is not registered');
+
+    const circular = createApp();
+    circular.register({ name: 'a', dependencies: ['b'], register() {} });
+    circular.register({ name: 'b', dependencies: ['a'], register() {} });
+    await expect(circular.ready()).rejects.toThrow('Circular plugin dependencies: a, b');
+
+    const duplicate = createApp();
+    duplicate.register({ name: 'a', register() {} });
+    expect(() => duplicate.register({ name: 'a', register() {} })).toThrow('already registered');
+  });
+
+  it('should register hooks and nested plugins in the plugin scope', async () => {
+    const ended: string[] = [];
+    const app = createApp();
+    app.register({
+      name: 'admin',
+      register(app) {
+        app.use(tag('admin'));
+        app.onRequestEnd((ctx) => {
+          ended.push(ctx.path);
+        });
+        app.register({
+          name: 'reports',
+          register(app) {
+            app.get('/admin/reports', ok);
+          },
+        });
+      },
+    });
+    app.get('/public', ok);
+
+    expect((await app.inject({ url: '/admin/reports' })).headers['x-middleware']).toBe('admin');
+    await app.inject({ url: '/public' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    // Lifecycle hooks are app-wide
+    expect(ended).toEqual(['/admin/reports', '/public']);
+  });
+});
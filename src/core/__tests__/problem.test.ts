@@ -0,0 +1,119 @@
+/**
+ * Error responses - problem details, onNotFound and custom formats
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createApp } from '../server.js';
+import { HTTPError, type Context } from '../types.js';
+
+describe('problem details', () => {
+  it('should answer errors with application/problem+json', async () => {
+    const app = createApp();
+    app.get('/users/:id', async () => {
+      throw new HTTPError(404, 'User not found');
+    });
+    app.get('/crash', async () => {
+      throw new Error('boom');
+    });
+
+    const missing = await app.inject({ url: '/users/1' });
+    expect(missing.status).toBe(404);
+    expect(missing.headers['content-type']).toBe('application/problem+json');
+    expect(missing.json()).toMatchObject({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'User not found',
+      instance: '/users/1',
+    });
+
+    const crash = await app.inject({ url: '/crash?token=secret' });
+    expect(crash.status).toBe(500);
+    expect(crash.json()).toMatchObject({ title: 'Internal Server Error', detail: 'boom', instance: '/crash' });
+    expect(crash.json().stack).toContain('boom');
+  });
+
+  it('should report validation failures as an errors member', async () => {
+    const app = createApp();
+    app.post('/users', { schema: { body: z.object({ name: z.string(), age: z.number() }) } }, async (ctx: Context) => {
+      ctx.json(ctx.body, 201);
+    });
+
+    const res = await app.inject({ method: 'POST', url: '/users', body: { age: 'old' } });
+    expect(res.status).toBe(400);
+    expect(res.json()).toMatchObject({
+      title: 'Bad Request',
+      detail: 'Validation failed',
+      errors: [
+        { field: 'body.name', code: 'invalid_type' },
+        { field: 'body.age', code: 'invalid_type' },
+      ],
+    });
+  });
+
+  it('should send body parsing errors through the same pipeline', async () => {
+    const app = createApp();
+    app.post('/users', async (ctx: Context) => ctx.json(ctx.body));
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/users',
+      headers: { 'content-type': 'application/json' },
+      body: '{"name":',
+    });
+    expect(res.status).toBe(400);
+    expect(res.headers['content-type']).toBe('application/problem+json');
+    expect(res.json().detail).toBe('Invalid JSON body');
+  });
+
+  it('should add non-standard details as extension members', async () => {
+    const app = createApp();
+    app.get('/users', async (ctx: Context) => ctx.json([]));
+
+    const res = await app.inject({ method: 'DELETE', url: '/users' });
+    expect(res.status).toBe(405);
+    expect(res.json()).toMatchObject({ title: 'Method Not Allowed', allow: ['GET', 'HEAD', 'OPTIONS'] });
+  });
+
+  it('should use a custom error formatter', async () => {
+    const app = createApp({
+      errorFormatter: (problem, error) => ({ code: problem.status, reason: error.message }),
+    });
+    app.get('/teapot', async () => {
+      throw new HTTPError(418, 'No coffee');
+    });
+
+    const res = await app.inject({ url: '/teapot' });
+    expect(res.status).toBe(418);
+    expect(res.headers['content-type']).toBe('application/json');
+    expect(res.json()).toEqual({ code: 418, reason: 'No coffee' });
+  });
+});
+
+describe('onNotFound', () => {
+  it('should handle unmatched routes behind global middleware', async () => {
+    const seen: string[] = [];
+    const app = createApp({
+      middleware: [
+        async (ctx, next) => {
+          seen.push(ctx.path);
+          await next();
+        },
+      ],
+      onNotFound: async (ctx) => ctx.json({ missing: ctx.path }, 404),
+    });
+    app.get('/users/:id', async () => {
+      throw new HTTPError(404, 'User not found');
+    });
+
+    const unmatched = await app.inject({ url: '/nowhere' });
+    expect(unmatched.status).toBe(404);
+    expect(unmatched.json()).toEqual({ missing: '/nowhere' });
+    expect(seen).toEqual(['/nowhere']);
+
+    // A 404 thrown by a route is an error, not an unmatched route
+    const thrown = await app.inject({ url: '/users/1' });
+    expect(thrown.json().detail).toBe('User not found');
+  });
+});
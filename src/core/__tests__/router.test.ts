@@ -0,0 +1,512 @@
+/**
+ * Router tests
+ * Covers route matching, priorities and pattern syntax
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { Router } from '../router.js';
+import type { Context, Handler, HTTPMethod, Middleware } from '../types.js';
+
+const noop: Handler = () => {};
+
+interface TestResponse {
+  status: number;
+  headers: Record<string, string>;
+  ended: boolean;
+}
+
+/**
+ * Minimal context for driving Router.handle() directly
+ */
+function createTestContext(method: HTTPMethod, path: string): Context & { response: TestResponse } {
+  const response: TestResponse = { status: 200, headers: {}, ended: false };
+  const ctx = {
+    method,
+    path,
+    params: {},
+    state: {},
+    headers: {},
+    response,
+    status(code: number) {
+      response.status = code;
+      return ctx;
+    },
+    setHeader(key: string, value: string) {
+      response.headers[key] = value;
+      return ctx;
+    },
+    res: {
+      end() {
+        response.ended = true;
+      },
+    },
+  };
+  return ctx as unknown as Context & { response: TestResponse };
+}
+
+/**
+ * Middleware that records its name in ctx.state.trail
+ */
+function mark(name: string): Middleware {
+  return async (ctx, next) => {
+    ((ctx.state.trail as string[]) ||= []).push(name);
+    await next();
+  };
+}
+
+describe('Router', () => {
+  describe('Route matching', () => {
+    it('should match static routes', () => {
+      const router = new Router();
+      router.get('/users', noop);
+
+      expect(router.findRoute('GET', '/users')).not.toBeNull();
+      expect(router.findRoute('POST', '/users')).toBeNull();
+      expect(router.findRoute('GET', '/user')).toBeNull();
+    });
+
+    it('should extract named params', () => {
+      const router = new Router();
+      router.get('/users/:userId/posts/:postId', noop);
+
+      const match = router.findRoute('GET', '/users/42/posts/7');
+      expect(match?.params).toEqual({ userId: '42', postId: '7' });
+    });
+
+    it('should decode percent-encoded params', () => {
+      const router = new Router();
+      router.get('/tags/:name', noop);
+
+      expect(router.findRoute('GET', '/tags/hello%20world')?.params).toEqual({ name: 'hello world' });
+    });
+
+    it('should prefer static routes over dynamic ones', () => {
+      const router = new Router();
+      const me: Handler = () => {};
+      router.get('/users/:id', noop);
+      router.get('/users/me', me);
+
+      expect(router.findRoute('GET', '/users/me')?.route.handler).toBe(me);
+      expect(router.findRoute('GET', '/users/1')?.route.handler).toBe(noop);
+    });
+
+    it('should backtrack when a static branch does not match', () => {
+      const router = new Router();
+      router.get('/users/me/settings', noop);
+      router.get('/users/:id/posts', noop);
+
+      expect(router.findRoute('GET', '/users/me/posts')?.params).toEqual({ id: 'me' });
+    });
+
+    it('should share static prefixes between routes', () => {
+      const router = new Router();
+      router.get('/user-groups/:id', noop);
+      router.get('/users/:id', noop);
+      router.get('/u/:id', noop);
+
+      expect(router.findRoute('GET', '/user-groups/1')?.params).toEqual({ id: '1' });
+      expect(router.findRoute('GET', '/users/2')?.params).toEqual({ id: '2' });
+      expect(router.findRoute('GET', '/u/3')?.params).toEqual({ id: '3' });
+      expect(router.findRoute('GET', '/us/3')).toBeNull();
+    });
+
+    it('should tolerate a trailing slash on dynamic routes', () => {
+      const router = new Router();
+      router.get('/users/:id', noop);
+
+      expect(router.findRoute('GET', '/users/1/')?.params).toEqual({ id: '1' });
+    });
+  });
+
+  describe('Wildcards', () => {
+    it('should capture the rest of the path', () => {
+      const router = new Router();
+      router.get('/files/*path', noop);
+
+      expect(router.findRoute('GET', '/files/a/b/c.txt')?.params).toEqual({ path: 'a/b/c.txt' });
+      expect(router.findRoute('GET', '/files/')?.params).toEqual({ path: '' });
+    });
+
+    it('should use "*" as the name of unnamed wildcards', () => {
+      const router = new Router();
+      router.get('/static/*', noop);
+
+      expect(router.findRoute('GET', '/static/app.js')?.params).toEqual({ '*': 'app.js' });
+    });
+
+    it('should give params priority over wildcards', () => {
+      const router = new Router();
+      const catchAll: Handler = () => {};
+      router.get('/docs/*rest', catchAll);
+      router.get('/docs/:page', noop);
+
+      expect(router.findRoute('GET', '/docs/intro')?.route.handler).toBe(noop);
+      expect(router.findRoute('GET', '/docs/guide/intro')?.route.handler).toBe(catchAll);
+    });
+
+    it('should reject wildcards that are not the last segment', () => {
+      const router = new Router();
+      expect(() => router.get('/files/*path/meta', noop)).toThrow(/last segment/);
+    });
+  });
+
+  describe('Optional segments', () => {
+    it('should match with and without the optional segment', () => {
+      const router = new Router();
+      router.get('/files/:name?', noop);
+
+      expect(router.findRoute('GET', '/files')?.params).toEqual({});
+      expect(router.findRoute('GET', '/files/report.pdf')?.params).toEqual({ name: 'report.pdf' });
+    });
+
+    it('should support multiple trailing optional segments', () => {
+      const router = new Router();
+      router.get('/archive/:year?/:month?', noop);
+
+      expect(router.findRoute('GET', '/archive')?.params).toEqual({});
+      expect(router.findRoute('GET', '/archive/2024')?.params).toEqual({ year: '2024' });
+      expect(router.findRoute('GET', '/archive/2024/05')?.params).toEqual({ year: '2024', month: '05' });
+    });
+
+    it('should reject optional segments that are not trailing', () => {
+      const router = new Router();
+      expect(() => router.get('/files/:name?/meta', noop)).toThrow(/trailing/);
+    });
+  });
+
+  describe('Param constraints', () => {
+    it('should enforce regex constraints', () => {
+      const router = new Router();
+      router.get('/users/:id(\\d+)', noop);
+
+      expect(router.findRoute('GET', '/users/123')?.params).toEqual({ id: '123' });
+      expect(router.findRoute('GET', '/users/abc')).toBeNull();
+    });
+
+    it('should enforce typed constraints', () => {
+      const router = new Router();
+      router.get('/orders/:id<uuid>', noop);
+
+      expect(router.findRoute('GET', '/orders/0b6f3a4e-2f0c-4b8e-9a57-3f1c2d4e5f60')).not.toBeNull();
+      expect(router.findRoute('GET', '/orders/42')).toBeNull();
+    });
+
+    it('should try constrained params before unconstrained ones', () => {
+      const router = new Router();
+      const byId: Handler = () => {};
+      router.get('/users/:slug', noop);
+      router.get('/users/:id<int>', byId);
+
+      expect(router.findRoute('GET', '/users/42')?.route.handler).toBe(byId);
+      expect(router.findRoute('GET', '/users/jane')?.params).toEqual({ slug: 'jane' });
+    });
+
+    it('should support constraints on optional params', () => {
+      const router = new Router();
+      router.get('/v/:version(\\d+)?', noop);
+
+      expect(router.findRoute('GET', '/v')).not.toBeNull();
+      expect(router.findRoute('GET', '/v/2')?.params).toEqual({ version: '2' });
+      expect(router.findRoute('GET', '/v/beta')).toBeNull();
+    });
+
+    it('should reject unknown param types', () => {
+      const router = new Router();
+      expect(() => router.get('/users/:id<bogus>', noop)).toThrow(/unknown parameter type/);
+    });
+  });
+
+  describe('Mounting', () => {
+    it('should index mounted routes under the prefix', () => {
+      const users = new Router();
+      users.get('/', noop);
+      users.get('/:id', noop);
+
+      const router = new Router();
+      router.use('/users', users);
+
+      expect(router.findRoute('GET', '/users')).not.toBeNull();
+      expect(router.findRoute('GET', '/users/7')?.params).toEqual({ id: '7' });
+      expect(router.getRoutes().map((r) => r.path)).toEqual(['/users', '/users/:id']);
+    });
+
+    it('should pick up routes added to the child after mounting', () => {
+      const child = new Router();
+      const router = new Router();
+      router.use('/api', child);
+
+      child.get('/health', noop);
+
+      expect(router.findRoute('GET', '/api/health')).not.toBeNull();
+    });
+
+    it('should support nested mounts', () => {
+      const leaf = new Router();
+      const middle = new Router();
+      const router = new Router();
+      router.use('/api', middle);
+      middle.use('/v1', leaf);
+      leaf.get('/items/:id', noop);
+
+      expect(router.findRoute('GET', '/api/v1/items/3')?.params).toEqual({ id: '3' });
+    });
+
+    it('should wrap child middleware with parent middleware', async () => {
+      const child = new Router();
+      child.use(mark('child'));
+      child.get('/ping', mark('route'), (ctx: Context) => {
+        (ctx.state.trail as string[]).push('handler');
+      });
+
+      const router = new Router();
+      router.use(mark('parent'));
+      router.use('/child', child);
+
+      const ctx = createTestContext('GET', '/child/ping');
+      await router.handle(ctx);
+
+      expect(ctx.state.trail).toEqual(['parent', 'child', 'route', 'handler']);
+    });
+
+    it('should not leak child middleware to parent routes', async () => {
+      const child = new Router();
+      child.use(mark('child'));
+      child.get('/a', noop);
+
+      const router = new Router();
+      router.use('/child', child);
+      router.get('/b', noop);
+
+      const ctx = createTestContext('GET', '/b');
+      await router.handle(ctx);
+
+      expect(ctx.state.trail).toBeUndefined();
+    });
+
+    it('should index group routes and scope group middleware', async () => {
+      const router = new Router();
+      router.use(mark('root'));
+      router.group('/admin', (admin) => {
+        admin.use(mark('admin'));
+        admin.get('/stats', noop);
+      });
+      router.get('/public', noop);
+
+      const admin = createTestContext('GET', '/admin/stats');
+      await router.handle(admin);
+      expect(admin.state.trail).toEqual(['root', 'admin']);
+
+      const pub = createTestContext('GET', '/public');
+      await router.handle(pub);
+      expect(pub.state.trail).toEqual(['root']);
+    });
+
+    it('should refuse to mount a router into itself', () => {
+      const router = new Router();
+      expect(() => router.use('/self', router)).toThrow();
+    });
+  });
+
+  describe('Method handling', () => {
+    it('should answer 405 with an Allow header for known paths', async () => {
+      const router = new Router();
+      router.get('/users/:id', noop);
+      router.delete('/users/:id', noop);
+
+      const ctx = createTestContext('POST', '/users/1');
+      await expect(router.handle(ctx)).rejects.toMatchObject({ statusCode: 405 });
+      expect(ctx.response.headers.Allow).toBe('GET, HEAD, DELETE, OPTIONS');
+    });
+
+    it('should answer 404 for unknown paths', async () => {
+      const router = new Router();
+      router.get('/users', noop);
+
+      const ctx = createTestContext('POST', '/missing');
+      await expect(router.handle(ctx)).rejects.toMatchObject({ statusCode: 404 });
+      expect(ctx.response.headers.Allow).toBeUndefined();
+    });
+
+    it('should answer OPTIONS automatically through router middleware', async () => {
+      const router = new Router();
+      router.use(mark('cors'));
+      router.get('/users', noop);
+      router.post('/users', noop);
+
+      const ctx = createTestContext('OPTIONS', '/users');
+      await router.handle(ctx);
+
+      expect(ctx.response.status).toBe(204);
+      expect(ctx.response.ended).toBe(true);
+      expect(ctx.response.headers.Allow).toBe('GET, HEAD, POST, OPTIONS');
+      expect(ctx.state.trail).toEqual(['cors']);
+    });
+
+    it('should serve HEAD from the GET handler', async () => {
+      const router = new Router();
+      router.get('/report', (ctx: Context) => {
+        ctx.state.served = true;
+      });
+
+      const ctx = createTestContext('HEAD', '/report');
+      await router.handle(ctx);
+
+      expect(ctx.state.served).toBe(true);
+    });
+
+    it('should prefer an explicit HEAD handler', async () => {
+      const router = new Router();
+      const head: Handler = () => {};
+      router.get('/report', noop);
+      router.head('/report', head);
+
+      expect(router.findRoute('HEAD', '/report')?.route.handler).toBe(head);
+    });
+
+    it('should list methods across static and dynamic matches', () => {
+      const router = new Router();
+      router.get('/items/special', noop);
+      router.put('/items/:id', noop);
+
+      expect(router.allowedMethods('/items/special')).toEqual(['GET', 'HEAD', 'PUT', 'OPTIONS']);
+      expect(router.allowedMethods('/items/1')).toEqual(['PUT', 'OPTIONS']);
+      expect(router.allowedMethods('/nothing')).toEqual([]);
+    });
+  });
+
+  describe('Named routes', () => {
+    it('should build URLs with encoded params and query', () => {
+      const router = new Router();
+      router.get('/users/:id', { name: 'user.show' }, noop);
+
+      expect(router.url('user.show', { id: 42 })).toBe('/users/42');
+      expect(router.url('user.show', { id: 'a b/c' })).toBe('/users/a%20b%2Fc');
+      expect(router.url('user.show', { id: 1 }, { query: { tab: 'posts', tag: ['x', 'y'], skip: undefined } }))
+        .toBe('/users/1?tab=posts&tag=x&tag=y');
+    });
+
+    it('should keep names through group and mount prefixes', () => {
+      const users = new Router();
+      users.get('/:id', { name: 'user.show' }, noop);
+
+      const router = new Router();
+      router.group('/api', (api) => {
+        api.use('/users', users);
+      });
+
+      expect(router.url('user.show', { id: 7 })).toBe('/api/users/7');
+    });
+
+    it('should resolve names registered on a child after mounting', () => {
+      const child = new Router();
+      const router = new Router();
+      router.use('/v2', child);
+      child.get('/health', { name: 'health' }, noop);
+
+      expect(router.url('health')).toBe('/v2/health');
+    });
+
+    it('should handle optional segments and wildcards', () => {
+      const router = new Router();
+      router.get('/files/:name?', { name: 'files' }, noop);
+      router.get('/assets/*path', { name: 'asset' }, noop);
+
+      expect(router.url('files')).toBe('/files');
+      expect(router.url('files', { name: 'a.txt' })).toBe('/files/a.txt');
+      expect(router.url('asset', { path: 'css/app main.css' })).toBe('/assets/css/app%20main.css');
+    });
+
+    it('should reject missing params and constraint violations', () => {
+      const router = new Router();
+      router.get('/users/:id(\\d+)', { name: 'user' }, noop);
+
+      expect(() => router.url('user')).toThrow(/Missing param "id"/);
+      expect(() => router.url('user', { id: 'abc' })).toThrow(/constraint/);
+      expect(() => router.url('nope')).toThrow(/Unknown route name/);
+    });
+
+    it('should reject duplicate names on different paths', () => {
+      const router = new Router();
+      router.get('/a', { name: 'dup' }, noop);
+
+      expect(() => router.get('/b', { name: 'dup' }, noop)).toThrow(/Duplicate route name/);
+      expect(() => router.post('/a', { name: 'dup' }, noop)).not.toThrow();
+    });
+
+    it('should expose names through getRoutes()', () => {
+      const router = new Router();
+      router.get('/users', { name: 'user.list' }, noop);
+
+      expect(router.getRoutes()[0].name).toBe('user.list');
+    });
+  });
+
+  describe('Declarative routes', () => {
+    it('should validate and transform the request before the handler', async () => {
+      const router = new Router();
+      let received: { name: string; age: number } | undefined;
+
+      router.route({
+        method: 'POST',
+        path: '/users/:id',
+        schema: {
+          body: z.object({ name: z.string(), age: z.coerce.number() }),
+          params: z.object({ id: z.string().regex(/^\d+$/) }),
+        },
+        handler: (ctx) => {
+          received = ctx.body;
+        },
+      });
+
+      const ok = createTestContext('POST', '/users/1');
+      ok.body = { name: 'Ada', age: '36' };
+      await router.handle(ok);
+      expect(received).toEqual({ name: 'Ada', age: 36 });
+
+      const bad = createTestContext('POST', '/users/x');
+      bad.body = { age: 'old' };
+      await expect(router.handle(bad)).rejects.toMatchObject({
+        statusCode: 400,
+        details: {
+          errors: expect.arrayContaining([
+            expect.objectContaining({ field: 'body.name' }),
+            expect.objectContaining({ field: 'params.id' }),
+          ]),
+        },
+      });
+    });
+
+    it('should keep schema and meta available through getRoutes()', () => {
+      const router = new Router();
+      const schema = { query: z.object({ page: z.string() }) };
+      router.get('/items', { schema, meta: { tags: ['items'], description: 'List items' } }, noop);
+
+      const [route] = router.getRoutes();
+      expect(route.schema).toBe(schema);
+      expect(route.meta).toEqual({ tags: ['items'], description: 'List items' });
+    });
+
+    it('should run option middleware before inline middleware and validation', async () => {
+      const router = new Router();
+      router.get(
+        '/ordered',
+        {
+          middleware: [mark('option')],
+          schema: {
+            query: z.object({}).transform(() => {
+              throw new Error('validation ran too early');
+            }),
+          },
+        },
+        mark('inline'),
+        noop
+      );
+
+      const ctx = createTestContext('GET', '/ordered');
+      Object.defineProperty(ctx, 'query', { value: {}, writable: true });
+      await expect(router.handle(ctx)).rejects.toThrow('validation ran too early');
+      expect(ctx.state.trail).toEqual(['option', 'inline']);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Response serializer tests
+ * Covers compiled stringifiers and strict response validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  compileStringifier,
+  createResponseSerializer,
+  validateResponse,
+} from '../serializer.js';
+import { HTTPError, type Context } from '../types.js';
+import { Router } from '../router.js';
+import { createAdapterContext } from '../context.js';
+import { ProtocolManager } from '../../protocols/manager.js';
+
+const user = z.object({
+  id: z.string(),
+  name: z.string(),
+  age: z.number().optional(),
+  tags: z.array(z.string()),
+});
+
+describe('compileStringifier', () => {
+  it('should drop undeclared properties', () => {
+    const stringify = compileStringifier(user);
+    const json = stringify({ id: '1', name: 'Ada', tags: ['x'], passwordHash: 'secret' });
+
+    expect(json).toBe('{"id":"1","name":"Ada","tags":["x"]}');
+  });
+
+  it('should drop undeclared properties in nested objects and arrays', () => {
+    const stringify = compileStringifier(
+      z.object({ users: z.array(user), owner: user.nullable() })
+    );
+    const json = stringify({
+      users: [{ id: '1', name: 'Ada', tags: [], token: 't' }],
+      owner: null,
+      internal: true,
+    });
+
+    expect(JSON.parse(json)).toEqual({ users: [{ id: '1', name: 'Ada', tags: [] }], owner: null });
+  });
+
+  it('should match JSON.stringify for declared data', () => {
+    const schema = z.object({
+      text: z.string(),
+      count: z.number(),
+      flag: z.boolean(),
+      when: z.date(),
+      meta: z.record(z.number()),
+      pair: z.tuple([z.string(), z.number()]),
+      kind: z.enum(['a', 'b']),
+      unknown: z.unknown(),
+    });
+    const value = {
+      text: 'quote " and \\ and \n',
+      count: 1.5,
+      flag: false,
+      when: new Date(0),
+      meta: { a: 1 },
+      pair: ['x', 2],
+      kind: 'a',
+      unknown: { nested: [1, null] },
+    };
+
+    expect(compileStringifier(schema)(value)).toBe(JSON.stringify(value));
+  });
+
+  it('should pick the matching branch of unions', () => {
+    const schema = z.discriminatedUnion('type', [
+      z.object({ type: z.literal('a'), a: z.string() }),
+      z.object({ type: z.literal('b'), b: z.number() }),
+    ]);
+    const stringify = compileStringifier(schema);
+
+    expect(stringify({ type: 'b', b: 2, a: 'leak' })).toBe('{"type":"b","b":2}');
+  });
+
+  it('should keep extra keys for passthrough objects', () => {
+    const stringify = compileStringifier(z.object({ id: z.string() }).passthrough());
+    expect(stringify({ id: '1', extra: true })).toBe('{"id":"1","extra":true}');
+  });
+});
+
+describe('validateResponse', () => {
+  it('should report undeclared fields and type mismatches', () => {
+    const errors = validateResponse(user, { id: 1, name: 'Ada', tags: [], passwordHash: 'x' });
+
+    expect(errors.map((e) => e.field)).toEqual(['response.id', 'response.passwordHash']);
+    expect(errors[1].code).toBe('unrecognized_keys');
+  });
+
+  it('should accept valid responses', () => {
+    expect(validateResponse(user, { id: '1', name: 'Ada', tags: [] })).toEqual([]);
+  });
+});
+
+describe('createResponseSerializer', () => {
+  it('should throw a 500 HTTPError in strict mode', () => {
+    const serialize = createResponseSerializer(user, { strict: true });
+
+    expect(() => serialize({ id: '1', name: 'Ada', tags: [], passwordHash: 'x' }, 200)).toThrow(
+      HTTPError
+    );
+  });
+
+  it('should strip fields in non-strict mode', () => {
+    const serialize = createResponseSerializer(user, { strict: false });
+    expect(serialize({ id: '1', name: 'Ada', tags: [], passwordHash: 'x' }, 200)).toBe(
+      '{"id":"1","name":"Ada","tags":[]}'
+    );
+  });
+
+  it('should only apply to statuses with a schema', () => {
+    const single = createResponseSerializer(user, { strict: false });
+    expect(single({ error: true }, 404)).toBeUndefined();
+
+    const byStatus = createResponseSerializer({ 201: user }, { strict: false });
+    expect(byStatus({ id: '1', name: 'Ada', tags: [] }, 200)).toBeUndefined();
+    expect(byStatus({ id: '1', name: 'Ada', tags: [], x: 1 }, 201)).toBe(
+      '{"id":"1","name":"Ada","tags":[]}'
+    );
+  });
+});
+
+describe('Route response schemas', () => {
+  function request(router: Router, path: string) {
+    const { ctx, responseBuffer } = createAdapterContext(
+      { method: 'GET', url: path, headers: {} } as any,
+      {}
+    );
+    return router.handle(ctx).then(() => responseBuffer);
+  }
+
+  it('should fail loudly on leaked fields in development', async () => {
+    const router = new Router();
+    router.get('/me', { schema: { response: user } }, (ctx: Context) => {
+      ctx.json({ id: '1', name: 'Ada', tags: [], passwordHash: 'secret' });
+    });
+
+    await expect(request(router, '/me')).rejects.toMatchObject({
+      statusCode: 500,
+      message: 'Response validation failed',
+    });
+  });
+
+  it('should serialize declared fields with the compiled stringifier', async () => {
+    const router = new Router();
+    router.get('/me', { schema: { response: user } }, (ctx: Context) => {
+      ctx.json({ id: '1', name: 'Ada', tags: [] });
+    });
+
+    const response = await request(router, '/me');
+    expect(response.body).toBe('{"id":"1","name":"Ada","tags":[]}');
+    expect(response.headers['Content-Length']).toBe('33');
+  });
+});
+
+describe('Operation output validation', () => {
+  it('should validate operation output in development', async () => {
+    const manager = new ProtocolManager({ graphql: true });
+    manager.registerOperation({
+      name: 'me',
+      output: z.object({ id: z.string() }),
+      handler: () => ({ id: '1', passwordHash: 'secret' }),
+      graphql: { type: 'query' },
+    });
+
+    const operation = (manager.getGraphQLAdapter() as any).operations[0];
+    await expect(operation.handler({}, {})).rejects.toThrow('Response validation failed');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Graceful shutdown and lifecycle hook tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { Agent, request, type IncomingMessage } from 'http';
+import { createApp } from '../server.js';
+import type { Server } from '../server.js';
+import type { Context } from '../types.js';
+
+let port = 32000 + Math.floor(Math.random() * 1000);
+let app: Server | undefined;
+
+afterEach(async () => {
+  await app?.close({ timeout: 100 });
+  app = undefined;
+});
+
+async function start(setup: (app: Server) => void): Promise<Server> {
+  port++;
+  app = createApp({ adapter: { type: 'node-http' } });
+  setup(app);
+  await app.listen(port, '127.0.0.1');
+  return app;
+}
+
+function get(path: string, agent?: Agent): Promise<{ res: IncomingMessage; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request({ port, host: '127.0.0.1', path, agent }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => (body += chunk));
+      res.on('end', () => resolve({ res, body }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('app.close()', () => {
+  it('should finish in-flight requests and refuse new connections', async () => {
+    const server = await start((app) => {
+      app.get('/slow', async (ctx: Context) => {
+        await delay(150);
+        ctx.json({ done: true });
+      });
+    });
+
+    const inFlight = get('/slow');
+    await delay(30);
+    const started = Date.now();
+    const closed = server.close({ timeout: 5000 });
+
+    await expect(get('/slow')).rejects.toThrow();
+    const { res, body } = await inFlight;
+    expect(res.statusCode).toBe(200);
+    expect(res.headers.connection).toBe('close');
+    expect(JSON.parse(body)).toEqual({ done: true });
+
+    // The keep-alive connection is released once its response is done
+    await closed;
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should close idle keep-alive connections without waiting for the timeout', async () => {
+    const server = await start((app) => {
+      app.get('/', async (ctx: Context) => ctx.json({ ok: true }));
+    });
+
+    const agent = new Agent({ keepAlive: true });
+    await get('/', agent);
+
+    const started = Date.now();
+    await server.close({ timeout: 5000 });
+    expect(Date.now() - started).toBeLessThan(1000);
+    agent.destroy();
+  });
+
+  it('should cut streams still open after the timeout', async () => {
+    const server = await start((app) => {
+      app.get('/events', async (ctx: Context) => {
+        const writer = ctx.writer();
+        await writer.write('first\n');
+      });
+    });
+
+    const response = new Promise<IncomingMessage>((resolve, reject) => {
+      request({ port, host: '127.0.0.1', path: '/events' }, resolve).on('error', reject).end();
+    });
+    const res = await response;
+    const ended = new Promise((resolve) => res.on('close', resolve));
+    res.resume();
+
+    const started = Date.now();
+    await server.close({ timeout: 200 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+    await ended;
+  });
+
+  it('should return the same promise when called twice', async () => {
+    const server = await start(() => {});
+    const first = server.close();
+    expect(server.close()).toBe(first);
+    await first;
+  });
+});
+
+describe('lifecycle hooks', () => {
+  it('should run hooks in order', async () => {
+    const events: string[] = [];
+    const server = await start((app) => {
+      app.onListen(({ port }) => {
+        events.push(`listen ${port}`);
+      });
+      app.onRequestStart((ctx) => {
+        events.push(`start ${ctx.path}`);
+      });
+      app.onRequestEnd((ctx, { statusCode, duration }) => {
+        expect(duration).toBeGreaterThanOrEqual(0);
+        events.push(`end ${ctx.path} ${statusCode}`);
+      });
+      app.onShutdown(() => {
+        events.push('shutdown');
+      });
+      app.get('/hello', async (ctx: Context) => ctx.json({ hello: true }, 201));
+    });
+
+    await get('/hello');
+    await delay(10);
+    await server.close();
+
+    expect(events).toEqual([`listen ${port}`, 'start /hello', 'end /hello 201', 'shutdown']);
+  });
+
+  it('should treat onRequestStart errors like middleware errors', async () => {
+    let ended: { statusCode: number; error?: Error } | undefined;
+    await start((app) => {
+      app.onRequestStart(() => {
+        throw new Error('maintenance');
+      });
+      app.onRequestEnd((_ctx, info) => {
+        ended = info;
+      });
+      app.get('/', async (ctx: Context) => ctx.json({ ok: true }));
+    });
+
+    const { res, body } = await get('/');
+    expect(res.statusCode).toBe(500);
+    expect(JSON.parse(body).detail).toBe('maintenance');
+
+    await delay(10);
+    expect(ended?.statusCode).toBe(500);
+    expect(ended?.error?.message).toBe('maintenance');
+  });
+
+  it('should run onRequestEnd after a stream finishes', async () => {
+    const events: string[] = [];
+    await start((app) => {
+      app.onRequestEnd(() => {
+        events.push('end');
+      });
+      app.get('/stream', async (ctx: Context) => {
+        const writer = ctx.writer();
+        await writer.write('a');
+        setTimeout(() => {
+          events.push('stream done');
+          void writer.end('b');
+        }, 50);
+      });
+    });
+
+    const { body } = await get('/stream');
+    await delay(10);
+    expect(body).toBe('ab');
+    expect(events).toEqual(['stream done', 'end']);
+  });
+});
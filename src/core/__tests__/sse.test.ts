@@ -0,0 +1,89 @@
+/**
+ * Server-Sent Events tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatSSEEvent } from '../sse.js';
+import { createAdapterContext } from '../context.js';
+
+describe('formatSSEEvent', () => {
+  it('should format all fields', () => {
+    expect(formatSSEEvent({ id: 7, event: 'update', retry: 5000, data: 'hello' })).toBe(
+      'id: 7\nevent: update\nretry: 5000\ndata: hello\n\n'
+    );
+  });
+
+  it('should serialize objects as JSON and split multiline data', () => {
+    expect(formatSSEEvent({ data: { ok: true } })).toBe('data: {"ok":true}\n\n');
+    expect(formatSSEEvent({ data: 'line 1\nline 2' })).toBe('data: line 1\ndata: line 2\n\n');
+  });
+
+  it('should strip line breaks from single-line fields', () => {
+    expect(formatSSEEvent({ event: 'a\nevent: b', data: '' })).toBe('event: aevent: b\ndata: \n\n');
+  });
+});
+
+describe('ctx.sse', () => {
+  function context(headers: Record<string, string> = {}) {
+    return createAdapterContext({ method: 'GET', url: '/events', headers }, {});
+  }
+
+  async function read(stream: AsyncIterator<string | Uint8Array>, count: number): Promise<string> {
+    let result = '';
+    for (let i = 0; i < count; i++) {
+      const { value } = await stream.next();
+      result += String(value);
+    }
+    return result;
+  }
+
+  it('should open an event stream and send events', async () => {
+    const { ctx, responseBuffer } = context();
+    const sse = ctx.sse({ heartbeat: false, retry: 3000 });
+
+    expect(responseBuffer.headers['Content-Type']).toBe('text/event-stream; charset=utf-8');
+    expect(responseBuffer.headers['Cache-Control']).toBe('no-cache, no-transform');
+
+    sse.send({ event: 'ping', data: 1 });
+    sse.comment('still here');
+
+    expect(await read(responseBuffer.stream!, 3)).toBe(
+      'retry: 3000\n\nevent: ping\ndata: 1\n\n: still here\n\n'
+    );
+  });
+
+  it('should expose Last-Event-ID for resuming', () => {
+    const { ctx } = context({ 'last-event-id': '42' });
+    const sse = ctx.sse({ heartbeat: false });
+
+    expect(sse.lastEventId).toBe('42');
+  });
+
+  it('should run cleanup when the client disconnects', async () => {
+    const { ctx, responseBuffer } = context();
+    const sse = ctx.sse({ heartbeat: 10 });
+    let cleaned = false;
+    sse.onClose(() => {
+      cleaned = true;
+    });
+
+    await responseBuffer.stream!.return!();
+
+    expect(cleaned).toBe(true);
+    expect(sse.closed).toBe(true);
+    expect(await sse.send({ data: 'late' })).toBe(false);
+  });
+
+  it('should send heartbeat comments', async () => {
+    const { ctx, responseBuffer } = context();
+    const sse = ctx.sse({ heartbeat: 5 });
+
+    expect(await read(responseBuffer.stream!, 2)).toBe(':\n\n: heartbeat\n\n');
+
+    // close() resolves once the adapter has pulled the rest
+    const closing = sse.close();
+    while (!(await responseBuffer.stream!.next()).done);
+    await closing;
+    expect(sse.closed).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Static file tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createAdapterContext } from '../context.js';
+import { resolveInside } from '../send-file.js';
+import { serveStatic } from '../../middleware/static.js';
+import { getContentType } from '../../utils/mime.js';
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'ramapi-static-'));
+  await mkdir(join(root, 'assets'));
+  await writeFile(join(root, 'index.html'), '<h1>app</h1>');
+  await writeFile(join(root, 'assets', 'app.js'), 'console.log(1);');
+  await writeFile(join(root, 'assets', 'app.js.gz'), 'gzipped');
+  await writeFile(join(root, '.env'), 'SECRET=1');
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+function request(path: string, headers: Record<string, string> = {}, method = 'GET') {
+  return createAdapterContext({ method, url: path, headers }, {});
+}
+
+describe('ctx.sendFile()', () => {
+  it('should send the file with caching headers', async () => {
+    const { ctx, responseBuffer } = request('/');
+    await ctx.sendFile(join(root, 'assets', 'app.js'), { maxAge: 60, immutable: true });
+
+    expect(responseBuffer.statusCode).toBe(200);
+    expect(responseBuffer.file).toEqual({ path: join(root, 'assets', 'app.js'), start: 0, end: 14 });
+    expect(responseBuffer.headers).toMatchObject({
+      'Content-Type': 'text/javascript; charset=utf-8',
+      'Content-Length': '15',
+      'Cache-Control': 'public, max-age=60, immutable',
+      'Accept-Ranges': 'bytes',
+      Vary: 'Accept-Encoding',
+    });
+    expect(responseBuffer.headers.ETag).toMatch(/^W\/"f-[0-9a-f]+"$/);
+  });
+
+  it('should answer 304 for matching validators', async () => {
+    const first = request('/');
+    await first.ctx.sendFile('index.html', { root, etag: 'strong' });
+    const etag = first.responseBuffer.headers.ETag as string;
+    expect(etag).toMatch(/^"[\w-]+"$/);
+
+    const cached = request('/', { 'if-none-match': `"other", W/${etag}` });
+    await cached.ctx.sendFile('index.html', { root, etag: 'strong' });
+    expect(cached.responseBuffer.statusCode).toBe(304);
+    expect(cached.responseBuffer.file).toBeUndefined();
+
+    const since = request('/', { 'if-modified-since': first.responseBuffer.headers['Last-Modified'] as string });
+    await since.ctx.sendFile('index.html', { root });
+    expect(since.responseBuffer.statusCode).toBe(304);
+  });
+
+  it('should serve byte ranges', async () => {
+    const { ctx, responseBuffer } = request('/', { range: 'bytes=-3' });
+    await ctx.sendFile('index.html', { root });
+
+    expect(responseBuffer.statusCode).toBe(206);
+    expect(responseBuffer.file).toMatchObject({ start: 9, end: 11 });
+    expect(responseBuffer.headers['Content-Range']).toBe('bytes 9-11/12');
+    expect(responseBuffer.headers['Content-Length']).toBe('3');
+
+    const outside = request('/', { range: 'bytes=100-' });
+    await expect(outside.ctx.sendFile('index.html', { root })).rejects.toMatchObject({ statusCode: 416 });
+    expect(outside.responseBuffer.headers['Content-Range']).toBe('bytes */12');
+  });
+
+  it('should ignore ranges when If-Range does not match', async () => {
+    const { ctx, responseBuffer } = request('/', { range: 'bytes=0-1', 'if-range': '"stale"' });
+    await ctx.sendFile('index.html', { root });
+
+    expect(responseBuffer.statusCode).toBe(200);
+    expect(responseBuffer.file).toMatchObject({ start: 0, end: 11 });
+  });
+
+  it('should prefer precompressed siblings the client accepts', async () => {
+    const { ctx, responseBuffer } = request('/', { 'accept-encoding': 'br;q=0, gzip' });
+    await ctx.sendFile('assets/app.js', { root });
+
+    expect(responseBuffer.file!.path).toBe(join(root, 'assets', 'app.js.gz'));
+    expect(responseBuffer.headers['Content-Encoding']).toBe('gzip');
+    expect(responseBuffer.headers['Content-Type']).toBe('text/javascript; charset=utf-8');
+    expect(responseBuffer.headers['Content-Length']).toBe('7');
+  });
+
+  it('should answer 404 for missing files', async () => {
+    await expect(request('/').ctx.sendFile('nope.txt', { root })).rejects.toMatchObject({ statusCode: 404 });
+    await expect(request('/').ctx.sendFile('relative.txt')).rejects.toThrow('absolute path');
+  });
+});
+
+describe('resolveInside', () => {
+  it('should keep paths inside the root', () => {
+    expect(resolveInside('/srv', '/a/b.txt')).toBe(join('/srv', 'a', 'b.txt'));
+    expect(() => resolveInside('/srv', '/a/../../etc/passwd')).toThrow('Forbidden');
+    expect(() => resolveInside('/srv', '/a\\..\\..\\x')).toThrow('Forbidden');
+    expect(() => resolveInside('/srv', '/a\0.txt')).toThrow('Invalid path');
+  });
+
+  it('should hide dotfiles unless allowed', () => {
+    expect(resolveInside('/srv', '/.env')).toBeUndefined();
+    expect(() => resolveInside('/srv', '/.git/config', 'deny')).toThrow('Forbidden');
+    expect(resolveInside('/srv', '/.well-known/x', 'allow')).toBe(join('/srv', '.well-known', 'x'));
+  });
+});
+
+describe('serveStatic()', () => {
+  it('should serve files below the prefix', async () => {
+    const handler = serveStatic(root, { prefix: '/app' });
+    const { ctx, responseBuffer } = request('/app/assets/app%2Ejs');
+    await handler(ctx);
+
+    expect(responseBuffer.file!.path).toBe(join(root, 'assets', 'app.js'));
+  });
+
+  it('should redirect directories and serve index files', async () => {
+    const handler = serveStatic(root, { prefix: '/app' });
+
+    const bare = request('/app?tab=1');
+    await handler(bare.ctx);
+    expect(bare.responseBuffer.statusCode).toBe(301);
+    expect(bare.responseBuffer.headers.Location).toBe('/app/?tab=1');
+
+    const dir = request('/app/');
+    await handler(dir.ctx);
+    expect(dir.responseBuffer.file!.path).toBe(join(root, 'index.html'));
+  });
+
+  it('should fall back for client-side routes only', async () => {
+    const handler = serveStatic(root, { fallback: 'index.html' });
+
+    const route = request('/settings/profile');
+    await handler(route.ctx);
+    expect(route.responseBuffer.file!.path).toBe(join(root, 'index.html'));
+
+    await expect(handler(request('/missing.js').ctx)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should call next() as middleware', async () => {
+    const handler = serveStatic(root);
+    let called = 0;
+
+    await handler(request('/.env').ctx, async () => {
+      called++;
+    });
+    await handler(request('/index.html', {}, 'POST').ctx, async () => {
+      called++;
+    });
+    expect(called).toBe(2);
+  });
+});
+
+describe('getContentType', () => {
+  it('should detect common types', () => {
+    expect(getContentType('a/b.HTML')).toBe('text/html; charset=utf-8');
+    expect(getContentType('logo.svg')).toBe('image/svg+xml');
+    expect(getContentType('font.woff2')).toBe('font/woff2');
+    expect(getContentType('archive.unknown')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Streaming response tests
+ * Covers the writer queue, backpressure and stream hand-over to adapters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { ChunkQueue, ResponseStream } from '../stream.js';
+import { createAdapterContext } from '../context.js';
+
+async function collect(stream: AsyncIterator<string | Uint8Array>): Promise<string> {
+  let result = '';
+  for (;;) {
+    const { value, done } = await stream.next();
+    if (done) return result;
+    result += typeof value === 'string' ? value : Buffer.from(value).toString();
+  }
+}
+
+describe('ChunkQueue', () => {
+  it('should deliver written chunks in order', async () => {
+    const queue = new ChunkQueue();
+    queue.write('a');
+    queue.write(Buffer.from('b'));
+    queue.end('c');
+
+    expect(await collect(queue)).toBe('abc');
+    expect(queue.closed).toBe(true);
+  });
+
+  it('should apply backpressure above the high water mark', async () => {
+    const queue = new ChunkQueue(4);
+    let drained = false;
+
+    expect(await queue.write('ab')).toBe(true);
+    const pending = queue.write('cdef').then((ok) => {
+      drained = ok;
+    });
+
+    await Promise.resolve();
+    expect(drained).toBe(false);
+
+    await queue.next();
+    await queue.next();
+    await pending;
+    expect(drained).toBe(true);
+  });
+
+  it('should report disconnects to writers and close listeners', async () => {
+    const queue = new ChunkQueue();
+    let closed = false;
+    queue.onClose(() => {
+      closed = true;
+    });
+
+    await queue.return();
+
+    expect(closed).toBe(true);
+    expect(await queue.write('late')).toBe(false);
+  });
+
+  it('should fail the pending pull when destroyed', async () => {
+    const queue = new ChunkQueue();
+    const pull = queue.next();
+    queue.destroy(new Error('handler failed'));
+
+    await expect(pull).rejects.toThrow('handler failed');
+  });
+});
+
+describe('ResponseStream', () => {
+  it('should resolve finished once the source is consumed', async () => {
+    const stream = new ResponseStream(Readable.from(['x', 'y']));
+    expect(await collect(stream)).toBe('xy');
+    await expect(stream.finished).resolves.toBeUndefined();
+  });
+
+  it('should reject finished when the source fails', async () => {
+    async function* source() {
+      yield 'x';
+      throw new Error('source failed');
+    }
+    const stream = new ResponseStream(source());
+
+    await expect(collect(stream)).rejects.toThrow('source failed');
+    await expect(stream.finished).rejects.toThrow('source failed');
+  });
+
+  it('should destroy Node streams when the client goes away', async () => {
+    const readable = new Readable({ read() {} });
+    const stream = new ResponseStream(readable);
+
+    await stream.return();
+
+    expect(readable.destroyed).toBe(true);
+    await expect(stream.finished).resolves.toBeUndefined();
+  });
+});
+
+describe('ctx.stream', () => {
+  function context() {
+    return createAdapterContext({ method: 'GET', url: '/export', headers: {} }, {});
+  }
+
+  it('should hand the stream to the adapter before the body is produced', async () => {
+    const { ctx, responseBuffer } = context();
+    let started = false;
+    responseBuffer.onStream = () => {
+      started = true;
+    };
+
+    const writer = ctx.writer(201);
+
+    expect(started).toBe(true);
+    expect(responseBuffer.statusCode).toBe(201);
+    expect(responseBuffer.headers['Content-Type']).toBe('application/octet-stream');
+    expect(ctx.res.headersSent).toBe(true);
+
+    writer.write('id,name\n');
+    writer.end('1,Ada\n');
+    expect(await collect(responseBuffer.stream!)).toBe('id,name\n1,Ada\n');
+  });
+
+  it('should keep an explicit Content-Type and ignore later json()', async () => {
+    const { ctx, responseBuffer } = context();
+    ctx.setHeader('content-type', 'text/csv');
+
+    const finished = ctx.stream(['a,b\n']);
+    ctx.json({ ignored: true });
+
+    expect(responseBuffer.headers).toEqual({ 'content-type': 'text/csv' });
+    expect(await collect(responseBuffer.stream!)).toBe('a,b\n');
+    await finished;
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Typed context tests - middleware additions and decorators
+ * Type assertions are checked by tsc, the requests by vitest
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { createApp } from '../server.js';
+import { Router } from '../router.js';
+import { JWTService, authenticate, type JWTPayload } from '../../auth/jwt.js';
+import type { Middleware } from '../types.js';
+
+const jwt = new JWTService({ secret: 'test-secret' });
+const bearer = { authorization: `Bearer ${jwt.sign({ sub: 'ada' })}` };
+
+const tenant = (): Middleware<{ tenant: { id: string } }> => async (ctx, next) => {
+  (ctx as any).tenant = { id: ctx.headers['x-tenant'] as string };
+  await next();
+};
+
+describe('typed context', () => {
+  it('should type what route middleware adds', async () => {
+    const app = createApp();
+    app.get('/me', authenticate(jwt), tenant(), async (ctx) => {
+      expectTypeOf(ctx.user).toEqualTypeOf<JWTPayload>();
+      expectTypeOf(ctx.state.userId).toEqualTypeOf<string>();
+      ctx.json({ id: ctx.user.sub, tenant: ctx.tenant.id });
+    });
+    app.get('/public', { name: 'public' }, tenant(), async (ctx) => {
+      // @ts-expect-error - no authenticate() before this handler
+      expectTypeOf(() => ctx.user.sub).toBeFunction();
+      ctx.json({ tenant: ctx.tenant.id });
+    });
+
+    const res = await app.inject({ url: '/me', headers: { ...bearer, 'x-tenant': 'acme' } });
+    expect(res.json()).toEqual({ id: 'ada', tenant: 'acme' });
+    expect((await app.inject({ url: '/public', headers: { 'x-tenant': 'acme' } })).json()).toEqual({ tenant: 'acme' });
+  });
+
+  it('should type decorators and app-wide middleware on the returned app', async () => {
+    const app = createApp()
+      .decorate('db', { users: ['ada', 'grace'] })
+      .use(authenticate(jwt));
+
+    app.get('/users', async (ctx) => {
+      expectTypeOf(ctx.db.users).toEqualTypeOf<string[]>();
+      ctx.json({ users: ctx.db.users, by: ctx.user.sub });
+    });
+    app.route({
+      method: 'GET',
+      path: '/count',
+      handler: async (ctx) => ctx.json({ count: ctx.db.users.length }),
+    });
+
+    expect((await app.inject({ url: '/users', headers: bearer })).json()).toEqual({ users: ['ada', 'grace'], by: 'ada' });
+    expect((await app.inject({ url: '/count', headers: bearer })).json()).toEqual({ count: 2 });
+    expect((await app.inject({ url: '/users' })).status).toBe(401);
+  });
+
+  it('should type router routes', () => {
+    const router = new Router();
+    router.post('/posts', authenticate(jwt), async (ctx) => {
+      expectTypeOf(ctx.user.sub).toEqualTypeOf<string>();
+      ctx.json({ author: ctx.user.sub }, 201);
+    });
+
+    expect(router.getRoutes()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * WebSocket route tests
+ * Runs against the node-http adapter with a minimal RFC 6455 client
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { request } from 'http';
+import { randomBytes } from 'crypto';
+import type { Duplex } from 'stream';
+import { createApp } from '../server.js';
+import type { Context } from '../types.js';
+import type { Server } from '../server.js';
+
+const PORT = 31000 + Math.floor(Math.random() * 1000);
+
+interface Frame {
+  opcode: number;
+  payload: Buffer;
+}
+
+/**
+ * Minimal client: masks outgoing frames, parses unfragmented incoming frames
+ */
+class TestClient {
+  private buffer = Buffer.alloc(0);
+  private frames: Frame[] = [];
+  private waiting: ((frame: Frame) => void)[] = [];
+
+  constructor(private socket: Duplex, head: Buffer) {
+    socket.on('data', (data: Buffer) => this.receive(data));
+    if (head.length) this.receive(head);
+  }
+
+  private receive(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    while (this.buffer.length >= 2) {
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      }
+      if (this.buffer.length < offset + length) return;
+
+      const frame = { opcode: this.buffer[0] & 0x0f, payload: this.buffer.subarray(offset, offset + length) };
+      this.buffer = this.buffer.subarray(offset + length);
+      const waiter = this.waiting.shift();
+      if (waiter) waiter(frame);
+      else this.frames.push(frame);
+    }
+  }
+
+  next(): Promise<Frame> {
+    const frame = this.frames.shift();
+    if (frame) return Promise.resolve(frame);
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  async text(): Promise<string> {
+    return (await this.next()).payload.toString();
+  }
+
+  send(data: string | Buffer, opcode = typeof data === 'string' ? 0x1 : 0x2): void {
+    const payload = Buffer.from(data);
+    const mask = randomBytes(4);
+    const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+    this.socket.write(Buffer.concat([Buffer.from([0x80 | opcode, 0x80 | payload.length]), mask, masked]));
+  }
+
+  close(code = 1000): void {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.send(payload, 0x8);
+  }
+}
+
+function connect(path: string, headers: Record<string, string> = {}): Promise<TestClient | number> {
+  return new Promise((resolve, reject) => {
+    const req = request({
+      port: PORT,
+      host: '127.0.0.1',
+      path,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+        ...headers,
+      },
+    });
+    req.on('upgrade', (_res, socket, head) => resolve(new TestClient(socket, head)));
+    req.on('response', (res) => {
+      res.resume();
+      resolve(res.statusCode!);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('WebSocket routes', () => {
+  let app: Server;
+  const closed: number[] = [];
+
+  beforeAll(async () => {
+    app = createApp({ adapter: { type: 'node-http' } });
+
+    app.ws('/echo/:name', {
+      open: (ws) => {
+        ws.send(`hello ${ws.ctx.params.name}`);
+      },
+      message: (ws, message, isBinary) => {
+        ws.json({ message: isBinary ? 'binary' : message });
+      },
+      close: (_ws, code) => {
+        closed.push(code);
+      },
+    });
+
+    app.ws('/private', {
+      middleware: [
+        async (ctx: Context, next) => {
+          if (ctx.headers.authorization !== 'secret') {
+            ctx.json({ error: true, message: 'Unauthorized' }, 401);
+            return;
+          }
+          ctx.state.user = 'alice';
+          await next();
+        },
+      ],
+      open: (ws) => {
+        ws.send(`welcome ${ws.ctx.state.user}`);
+      },
+    });
+
+    app.ws('/rooms/:room', {
+      open: (ws) => {
+        ws.subscribe(ws.ctx.params.room);
+        ws.send('joined');
+      },
+      message: (ws, message) => {
+        ws.publish(ws.ctx.params.room, message);
+      },
+    });
+
+    await app.listen(PORT, '127.0.0.1');
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should run open and message handlers', async () => {
+    const client = (await connect('/echo/bob?x=1')) as TestClient;
+
+    expect(await client.text()).toBe('hello bob');
+
+    client.send('ping');
+    expect(JSON.parse(await client.text())).toEqual({ message: 'ping' });
+
+    client.send(Buffer.from([1, 2, 3]));
+    expect(JSON.parse(await client.text())).toEqual({ message: 'binary' });
+
+    client.close(1000);
+    const frame = await client.next();
+    expect(frame.opcode).toBe(0x8);
+    expect(frame.payload.readUInt16BE(0)).toBe(1000);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(closed).toContain(1000);
+  });
+
+  it('should reject the upgrade from middleware', async () => {
+    expect(await connect('/private')).toBe(401);
+
+    const client = (await connect('/private', { Authorization: 'secret' })) as TestClient;
+    expect(await client.text()).toBe('welcome alice');
+    client.close();
+  });
+
+  it('should answer 404 for unknown paths', async () => {
+    expect(await connect('/missing')).toBe(404);
+  });
+
+  it('should publish to other subscribers of a topic', async () => {
+    const first = (await connect('/rooms/a')) as TestClient;
+    const second = (await connect('/rooms/a')) as TestClient;
+    const other = (await connect('/rooms/b')) as TestClient;
+    await Promise.all([first.text(), second.text(), other.text()]);
+
+    first.send('hi room');
+    expect(await second.text()).toBe('hi room');
+
+    app.publish('b', 'server message');
+    expect(await other.text()).toBe('server message');
+
+    first.close();
+    second.close();
+    other.close();
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Request body parsing
+ * Parsers are registered per content type and run on the raw bytes,
+ * which stay available on ctx.rawBody (e.g. for webhook signatures)
+ */
+
+import type { Readable } from 'stream';
+import { HTTPError } from './types.js';
+import { PayloadTooLargeError } from './errors.js';
+import { parseQuery } from '../utils/url.js';
+
+/**
+ * Parse the raw body of a request
+ */
+export type BodyParser = (
+  body: Buffer,
+  options: { contentType: string; strict: boolean }
+) => unknown | Promise<unknown>;
+
+/**
+ * Per-parser options
+ */
+export interface BodyParserOptions {
+  limit?: number | string; // Max body size - bytes or '100kb', '1mb' (default: 1mb)
+  strict?: boolean; // Parser-specific strictness (default: true)
+}
+
+/**
+ * Built-in parser configuration (`false` disables a parser)
+ */
+export interface BodyParserConfig {
+  limit?: number | string; // Default limit for every parser
+  json?: BodyParserOptions | false; // strict: only objects and arrays at the top level
+  urlencoded?: BodyParserOptions | false; // strict: reject invalid UTF-8
+  text?: BodyParserOptions | false; // text/* - strict: reject invalid UTF-8
+  raw?: BodyParserOptions | false; // application/octet-stream - kept as a Buffer
+}
+
+/**
+ * Parsed request body
+ */
+export interface ParsedBody {
+  body: unknown;
+  rawBody: Buffer;
+}
+
+interface ParserEntry {
+  parser: BodyParser;
+  limit: number;
+  strict: boolean;
+}
+
+const DEFAULT_LIMIT = 1024 * 1024;
+const UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/**
+ * Convert a size like '512kb' to bytes
+ */
+export function parseBytes(size: number | string): number {
+  if (typeof size === 'number') return size;
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(size);
+  if (!match) {
+    throw new Error(`Invalid size: ${size}`);
+  }
+  return Math.floor(parseFloat(match[1]) * UNITS[(match[2] || 'b').toLowerCase()]);
+}
+
+/**
+ * Read a stream into a Buffer, failing with 413 past the limit
+ * The rest of an oversized body is discarded so the error response can be sent
+ */
+export function readBody(stream: Readable, limit: number, contentLength?: number): Promise<Buffer> {
+  const tooLarge = () => new PayloadTooLargeError('Payload Too Large', { limit });
+
+  // Reject early when the declared size is already too large
+  if (contentLength !== undefined && contentLength > limit) {
+    stream.resume();
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const cleanup = () => {
+      stream.off('data', onData);
+      stream.off('end', onEnd);
+      stream.off('error', onError);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        cleanup();
+        stream.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(chunks.length === 1 ? chunks[0] : Buffer.concat(chunks, size));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    stream.on('data', onData);
+    stream.on('end', onEnd);
+    stream.on('error', onError);
+  });
+}
+
+/**
+ * Decode UTF-8, rejecting invalid sequences in strict mode
+ */
+function decodeText(body: Buffer, strict: boolean): string {
+  if (strict) {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(body);
+    } catch {
+      throw new HTTPError(400, 'Invalid UTF-8 in request body');
+    }
+  }
+  return body.toString('utf-8');
+}
+
+const jsonParser: BodyParser = (body, { strict }) => {
+  const text = decodeText(body, false).replace(/^\uFEFF/, '');
+
+  // Strict mode: only objects and arrays (first non-whitespace character)
+  if (strict) {
+    const first = /^\s*(.)/.exec(text)?.[1];
+    if (first !== '{' && first !== '[') {
+      throw new HTTPError(400, 'Invalid JSON body', { reason: 'Expected an object or array' });
+    }
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new HTTPError(400, 'Invalid JSON body', { reason: (error as Error).message });
+  }
+};
+
+const urlencodedParser: BodyParser = (body, { strict }) => parseQuery(decodeText(body, strict));
+
+const textParser: BodyParser = (body, { strict }) => decodeText(body, strict);
+
+const rawParser: BodyParser = (body) => body;
+
+/**
+ * Content type -> parser registry
+ *
+ * Types match exactly ('application/json'), by structured suffix ('application/*+json')
+ * or by top-level type ('text/*'). A catch-all parser uses wildcards for both parts.
+ * Bodies without a matching parser are kept as Buffers.
+ *
+ * @example
+ * registry.register('application/msgpack', (body) => decode(body), { limit: '5mb' });
+ */
+export class BodyParserRegistry {
+  private parsers = new Map<string, ParserEntry>();
+  private defaultLimit: number;
+
+  constructor(config: BodyParserConfig = {}) {
+    this.defaultLimit = parseBytes(config.limit ?? DEFAULT_LIMIT);
+
+    if (config.json !== false) {
+      this.register(['application/json', 'application/*+json'], jsonParser, config.json);
+    }
+    if (config.urlencoded !== false) {
+      this.register('application/x-www-form-urlencoded', urlencodedParser, config.urlencoded);
+    }
+    if (config.text !== false) {
+      this.register('text/*', textParser, config.text);
+    }
+    if (config.raw !== false) {
+      this.register('application/octet-stream', rawParser, config.raw);
+    }
+  }
+
+  /**
+   * Register a parser for one or more content types (replaces existing ones)
+   */
+  register(types: string | string[], parser: BodyParser, options: BodyParserOptions = {}): this {
+    const entry: ParserEntry = {
+      parser,
+      limit: options.limit !== undefined ? parseBytes(options.limit) : this.defaultLimit,
+      strict: options.strict ?? true,
+    };
+    for (const type of Array.isArray(types) ? types : [types]) {
+      this.parsers.set(type.toLowerCase(), entry);
+    }
+    return this;
+  }
+
+  /**
+   * Find the parser for a Content-Type header
+   */
+  private find(mediaType: string): ParserEntry | undefined {
+    const exact = this.parsers.get(mediaType);
+    if (exact) return exact;
+
+    const slash = mediaType.indexOf('/');
+    const plus = mediaType.lastIndexOf('+');
+    if (plus > slash) {
+      const suffix = this.parsers.get(`${mediaType.slice(0, slash)}/*${mediaType.slice(plus)}`);
+      if (suffix) return suffix;
+    }
+
+    return this.parsers.get(`${mediaType.slice(0, slash)}/*`) || this.parsers.get('*/*');
+  }
+
+  /**
+   * Read and parse a request body
+   * PERFORMANCE: the size limit is known before reading, so oversized bodies are never buffered
+   */
+  async parse(stream: Readable, headers: Record<string, string | string[] | undefined>): Promise<ParsedBody> {
+    const contentType = typeof headers['content-type'] === 'string' ? headers['content-type'] : '';
+    const semicolon = contentType.indexOf(';');
+    const mediaType = (semicolon === -1 ? contentType : contentType.slice(0, semicolon)).trim().toLowerCase();
+
+    const entry = mediaType ? this.find(mediaType) : undefined;
+    const contentLength = headers['content-length'] ? Number(headers['content-length']) : undefined;
+    const rawBody = await readBody(stream, entry?.limit ?? this.defaultLimit, contentLength);
+
+    if (rawBody.length === 0) {
+      return { body: undefined, rawBody };
+    }
+
+    const body = entry ? await entry.parser(rawBody, { contentType, strict: entry.strict }) : rawBody;
+    return { body, rawBody };
+  }
+}
+
+let defaultRegistry: BodyParserRegistry | undefined;
+
+/**
+ * Parse a body with the built-in parsers and default limits
+ */
+export function parseRequestBody(
+  stream: Readable,
+  headers: Record<string, string | string[] | undefined>
+): Promise<ParsedBody> {
+  return (defaultRegistry ??= new BodyParserRegistry()).parse(stream, headers);
+}
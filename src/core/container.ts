@@ -0,0 +1,261 @@
+/**
+ * Dependency injection container
+ * Singleton, request-scoped and transient providers, resolved with ctx.resolve()
+ */
+
+import type { Context } from './types.js';
+
+/**
+ * Token for a dependency without a class (config, interfaces, third-party clients)
+ *
+ * @example
+ * const DATABASE_URL = new InjectionToken<string>('DATABASE_URL');
+ * app.container.value(DATABASE_URL, process.env.DATABASE_URL!);
+ */
+export class InjectionToken<T> {
+  declare readonly type?: T; // Only carries T
+
+  constructor(readonly name: string) {}
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+/**
+ * A class or an InjectionToken
+ */
+export type Token<T> = (abstract new (...args: any[]) => T) | InjectionToken<T>;
+
+/**
+ * singleton: one instance for the app, disposed on close()
+ * scoped: one instance per request (or gRPC call), disposed when the response finishes
+ * transient: a new instance on every resolve
+ */
+export type Lifetime = 'singleton' | 'scoped' | 'transient';
+
+/**
+ * Resolves dependencies - passed to factories
+ */
+export interface Resolver {
+  resolve<T>(token: Token<T>): T;
+}
+
+/**
+ * How to create a dependency
+ * Without a factory the token must be a class - it's constructed with the resolver.
+ * Instances are disposed with `dispose`, or their own dispose() method.
+ */
+export interface Provider<T> {
+  lifetime: Lifetime;
+  factory?: (resolver: Resolver) => T;
+  dispose?: (instance: T) => void | Promise<void>;
+}
+
+interface Created {
+  token: Token<any>;
+  instance: unknown;
+  provider: Provider<any>;
+}
+
+function tokenName(token: Token<any>): string {
+  return token instanceof InjectionToken ? token.name : token.name || 'anonymous class';
+}
+
+/**
+ * Dispose instances in reverse creation order - dependents before their dependencies
+ */
+async function disposeAll(created: Created[]): Promise<void> {
+  for (const { token, instance, provider } of created.reverse()) {
+    try {
+      if (provider.dispose) {
+        await provider.dispose(instance);
+      } else if (typeof (instance as { dispose?: unknown })?.dispose === 'function') {
+        await (instance as { dispose(): unknown }).dispose();
+      }
+    } catch (error) {
+      console.error(`❌ Failed to dispose ${tokenName(token)}:`, error);
+    }
+  }
+}
+
+/**
+ * Dependency injection container
+ * One per app (app.container), shared by plugins and every protocol.
+ *
+ * @example
+ * app.container
+ *   .singleton(Database, () => new Database(process.env.DATABASE_URL!))
+ *   .scoped(UserRepo, (c) => new UserRepo(c.resolve(Database)));
+ *
+ * app.get('/users', async (ctx) => ctx.json(await ctx.resolve(UserRepo).list()));
+ */
+export class Container implements Resolver {
+  private providers = new Map<Token<any>, Provider<any>>();
+  private singletons = new Map<Token<any>, unknown>();
+  private created: Created[] = []; // Singletons, for dispose()
+
+  /**
+   * Register (or replace) a provider
+   */
+  register<T>(token: Token<T>, provider: Provider<T>): this {
+    if (!provider.factory && token instanceof InjectionToken) {
+      throw new Error(`Provider for ${token.name} needs a factory`);
+    }
+    this.providers.set(token, provider);
+    this.singletons.delete(token);
+    return this;
+  }
+
+  singleton<T>(token: Token<T>, factory?: (resolver: Resolver) => T, dispose?: (instance: T) => void | Promise<void>): this {
+    return this.register(token, { lifetime: 'singleton', factory, dispose });
+  }
+
+  scoped<T>(token: Token<T>, factory?: (resolver: Resolver) => T, dispose?: (instance: T) => void | Promise<void>): this {
+    return this.register(token, { lifetime: 'scoped', factory, dispose });
+  }
+
+  transient<T>(token: Token<T>, factory?: (resolver: Resolver) => T): this {
+    return this.register(token, { lifetime: 'transient', factory });
+  }
+
+  /**
+   * Register an existing instance as a singleton (not disposed by the container)
+   */
+  value<T>(token: Token<T>, value: T): this {
+    return this.register(token, { lifetime: 'singleton', factory: () => value, dispose: () => {} });
+  }
+
+  has(token: Token<any>): boolean {
+    return this.providers.has(token);
+  }
+
+  /**
+   * Resolve a singleton or transient dependency - scoped ones need a request (ctx.resolve())
+   */
+  resolve<T>(token: Token<T>): T {
+    return this.get(token, undefined, []);
+  }
+
+  /**
+   * Create a scope for one request
+   */
+  createScope(): RequestScope {
+    return new RequestScope(this);
+  }
+
+  /**
+   * Dispose singletons - called by app.close()
+   */
+  async dispose(): Promise<void> {
+    const created = this.created;
+    this.created = [];
+    this.singletons.clear();
+    await disposeAll(created);
+  }
+
+  /** @internal */
+  get<T>(token: Token<T>, scope: RequestScope | undefined, path: Token<any>[]): T {
+    const provider = this.providers.get(token);
+    if (!provider) {
+      throw new Error(`No provider registered for ${tokenName(token)}`);
+    }
+
+    switch (provider.lifetime) {
+      case 'singleton': {
+        if (!this.singletons.has(token)) {
+          // Singletons outlive the request - they never see the scope
+          const instance = this.create(token, provider, undefined, path);
+          this.singletons.set(token, instance);
+          this.created.push({ token, instance, provider });
+        }
+        return this.singletons.get(token) as T;
+      }
+      case 'scoped': {
+        if (!scope) {
+          const parent = path.length > 0 ? ` (needed by ${tokenName(path[path.length - 1])})` : '';
+          throw new Error(`Cannot resolve scoped ${tokenName(token)} outside a request${parent}`);
+        }
+        return scope.get(token, provider, () => this.create(token, provider, scope, path));
+      }
+      default: {
+        const instance = this.create(token, provider, scope, path);
+        scope?.track(token, instance, provider);
+        return instance;
+      }
+    }
+  }
+
+  private create<T>(token: Token<T>, provider: Provider<T>, scope: RequestScope | undefined, path: Token<any>[]): T {
+    if (path.includes(token)) {
+      throw new Error(`Circular dependency: ${[...path, token].map(tokenName).join(' -> ')}`);
+    }
+
+    const dependencyPath = [...path, token];
+    const resolver: Resolver = { resolve: (dependency) => this.get(dependency, scope, dependencyPath) };
+    return provider.factory
+      ? provider.factory(resolver)
+      : new (token as new (resolver: Resolver) => T)(resolver);
+  }
+}
+
+/**
+ * Dependencies of one request
+ * Scoped instances are created once per scope; scoped and transient instances are disposed with it.
+ */
+export class RequestScope implements Resolver {
+  private instances = new Map<Token<any>, unknown>();
+  private created: Created[] = [];
+
+  constructor(private container: Container) {}
+
+  resolve<T>(token: Token<T>): T {
+    return this.container.get(token, this, []);
+  }
+
+  /** @internal */
+  get<T>(token: Token<T>, provider: Provider<T>, create: () => T): T {
+    if (!this.instances.has(token)) {
+      const instance = create();
+      this.instances.set(token, instance);
+      this.track(token, instance, provider);
+    }
+    return this.instances.get(token) as T;
+  }
+
+  /** @internal */
+  track(token: Token<any>, instance: unknown, provider: Provider<any>): void {
+    this.created.push({ token, instance, provider });
+  }
+
+  async dispose(): Promise<void> {
+    const created = this.created;
+    this.created = [];
+    this.instances.clear();
+    await disposeAll(created);
+  }
+}
+
+/**
+ * The request scope behind ctx.resolve() - created on first use
+ */
+export function requestScope(ctx: Context, container: Container | undefined): RequestScope {
+  const internal = ctx as any;
+  if (!internal._scope) {
+    if (!container) {
+      throw new Error('ctx.resolve() is only available on contexts created by a Server');
+    }
+    internal._scope = container.createScope();
+  }
+  return internal._scope;
+}
+
+/**
+ * Dispose the request scope, if ctx.resolve() created one
+ */
+export async function disposeRequestScope(ctx: Context): Promise<void> {
+  const scope = (ctx as any)._scope as RequestScope | undefined;
+  if (scope) {
+    await scope.dispose();
+  }
+}
@@ -1,73 +1,64 @@
 import type { IncomingMessage, ServerResponse } from 'http';
+import { createReadStream } from 'fs';
 import type { Context, HTTPMethod } from './types.js';
 import { parseQuery } from '../utils/url.js';
 import { startSpan as _startSpan, endSpan as _endSpan, addEvent, setAttributes } from '../observability/context.js';
-import type { RawRequestInfo } from '../adapters/types.js';
-
-/**
- * Ultra-fast JSON stringification (PERFORMANCE)
- * Hand-optimized for benchmark objects with proper escaping
- */
-function fastStringify(obj: any): string {
-  const type = typeof obj;
-
-  // Primitives - fastest path
-  if (obj === null) return 'null';
-  if (type === 'string') return JSON.stringify(obj);  // Use native for proper escaping
-  if (type === 'number') return String(obj);
-  if (type === 'boolean') return obj ? 'true' : 'false';
-  if (type === 'undefined') return 'null';
-
-  // Array - fast path
-  if (Array.isArray(obj)) {
-    if (obj.length === 0) return '[]';
-    // Just use JSON.stringify for arrays - it's optimized
-    return JSON.stringify(obj);
-  }
-
-  // Object - ultra-fast path for small objects
-  const keys = Object.keys(obj);
-  const len = keys.length;
-
-  if (len === 0) return '{}';
-  if (len > 10) return JSON.stringify(obj);  // Too big, use native
-
-  // Build JSON manually for small objects (no .every() overhead)
-  let result = '{';
-  for (let i = 0; i < len; i++) {
-    const key = keys[i];
-    const value = obj[key];
-    const valueType = typeof value;
-
-    if (i > 0) result += ',';
-    result += `"${key}":`;
-
-    // Inline primitive checks (no function call)
-    if (value === null) {
-      result += 'null';
-    } else if (valueType === 'string') {
-      result += JSON.stringify(value);  // Use native for proper escaping
-    } else if (valueType === 'number') {
-      result += value;
-    } else if (valueType === 'boolean') {
-      result += value ? 'true' : 'false';
-    } else {
-      // Complex value - fallback to JSON.stringify
-      return JSON.stringify(obj);
-    }
-  }
-  result += '}';
-  return result;
-}
+import type { RawRequestInfo, FileBody } from '../adapters/types.js';
+import { stringifyJSON } from './serializer.js';
+import { ResponseStream, ChunkQueue, pipeToNodeResponse, type StreamSource } from './stream.js';
+import { createSSEStream, type SSEOptions } from './sse.js';
+import { createCookieJar, type CookieConfig, type CookieJar } from './cookies.js';
+import { defaultSerializers, type SerializerRegistry } from './negotiation.js';
+import { sendFile, type SendFileOptions } from './send-file.js';
+import { requestScope, type Container } from './container.js';
 
 /**
  * Response buffer for adapter-agnostic context
+ * Exposed to middleware as (ctx as any)._response, for post-processing before the adapter writes
  */
-interface ResponseBuffer {
+export interface ResponseBuffer {
   statusCode: number;
-  headers: Record<string, string>;
+  headers: Record<string, string | string[]>;
   body?: Buffer | string;
   sent: boolean;
+  stream?: ResponseStream; // Set by ctx.stream() - the adapter pulls from it
+  file?: FileBody; // Set by ctx.sendFile() - the adapter reads it from disk
+  onStream?: () => void; // Lets the server hand the response over before the handler returns
+}
+
+/**
+ * Check for a header regardless of its casing
+ */
+function hasHeader(headers: Record<string, string | string[]>, name: string): boolean {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).some((key) => key.toLowerCase() === lower);
+}
+
+/**
+ * Add a header value, keeping earlier ones (matched regardless of casing)
+ */
+function appendHeaderValue(headers: Record<string, string | string[]>, name: string, value: string | string[]): void {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((existing) => existing.toLowerCase() === lower) ?? name;
+  const current = headers[key];
+  headers[key] = current === undefined ? value : ([] as string[]).concat(current, value);
+}
+
+/**
+ * Cookie header of a request
+ */
+function cookieHeader(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const header = headers.cookie;
+  return Array.isArray(header) ? header.join('; ') : header;
+}
+
+/**
+ * Per-server options for context creation
+ */
+export interface ContextOptions {
+  cookies?: CookieConfig;
+  serializers?: SerializerRegistry; // Formats for ctx.send() (default: built-in serializers)
+  container?: Container; // Dependencies for ctx.resolve()
 }
 
 /**
@@ -80,7 +71,8 @@ interface ResponseBuffer {
  */
 export function createAdapterContext(
   requestInfo: RawRequestInfo,
-  rawRequest: any
+  rawRequest: any,
+  options: ContextOptions = {}
 ): { ctx: Context; responseBuffer: ResponseBuffer } {
   const url = requestInfo.url;
   // Inline URL parsing for performance
@@ -89,6 +81,7 @@ export function createAdapterContext(
   const queryString = qIdx === -1 ? '' : url.slice(qIdx + 1);
 
   let parsedQuery: Record<string, string | string[]> | undefined;
+  let cookies: CookieJar | undefined;
 
   // Response buffer - holds response data until adapter sends it
   const responseBuffer: ResponseBuffer = {
@@ -109,12 +102,19 @@ export function createAdapterContext(
   const pseudoRes = {
     statusCode: 200,
     headersSent: false,
-    setHeader(key: string, value: string) {
+    setHeader(key: string, value: string | string[]) {
       responseBuffer.headers[key] = value;
     },
     end(body?: any) {
       responseBuffer.body = body;
       responseBuffer.sent = true;
+      pseudoRes.headersSent = true;
+    },
+    get writableEnded() {
+      return !responseBuffer.stream || responseBuffer.stream.settled;
+    },
+    destroy(error?: Error) {
+      responseBuffer.stream?.destroy(error || new Error('Response destroyed'));
     },
   } as any;
 
@@ -128,18 +128,37 @@ export function createAdapterContext(
     get query() {
       return parsedQuery || (parsedQuery = queryString ? parseQuery(queryString) : {});
     },
+    // Validation replaces the query with the parsed schema output
+    set query(value) {
+      parsedQuery = value;
+    },
     params: {},
     body: undefined,
     headers: requestInfo.headers as Record<string, string | string[] | undefined>,
     state: {},
     user: undefined,
 
+    // PERFORMANCE: the request scope is created on first resolve()
+    resolve(token) {
+      return requestScope(ctx, options.container).resolve(token);
+    },
+
+    // PERFORMANCE: cookies are parsed on first access
+    get cookies() {
+      return (cookies ||= createCookieJar(
+        cookieHeader(requestInfo.headers),
+        (value) => appendHeaderValue(responseBuffer.headers, 'Set-Cookie', value),
+        options.cookies
+      ));
+    },
+
     // ULTRA-FAST json() with Content-Length for better pipelining
     json(data: unknown, status = 200) {
       if (responseBuffer.sent) return;
-      responseBuffer.sent = true;
 
-      const body = fastStringify(data);
+      // Serialize first - a strict response schema may throw
+      const body = ctx.serializer?.(data, status) ?? stringifyJSON(data);
+      responseBuffer.sent = true;
 
       responseBuffer.statusCode = status;
       responseBuffer.headers['Content-Type'] = 'application/json';
@@ -158,17 +177,72 @@ export function createAdapterContext(
       pseudoRes.headersSent = true;
     },
 
+    send(data: unknown, status = 200) {
+      if (responseBuffer.sent) return;
+
+      appendHeaderValue(responseBuffer.headers, 'Vary', 'Accept');
+      const { contentType, body } = (options.serializers || defaultSerializers()).serialize(ctx, data, status);
+      responseBuffer.sent = true;
+
+      responseBuffer.statusCode = status;
+      responseBuffer.headers['Content-Type'] = contentType;
+      responseBuffer.headers['Content-Length'] = Buffer.byteLength(body).toString();
+      responseBuffer.body = body;
+      pseudoRes.headersSent = true;
+    },
+
     status(code: number) {
       responseBuffer.statusCode = code;
       pseudoRes.statusCode = code;
       return ctx;
     },
 
-    setHeader(key: string, value: string) {
+    setHeader(key: string, value: string | string[]) {
       responseBuffer.headers[key] = value;
       return ctx;
     },
 
+    appendHeader(key: string, value: string | string[]) {
+      appendHeaderValue(responseBuffer.headers, key, value);
+      return ctx;
+    },
+
+    stream(source: StreamSource, status?: number) {
+      if (responseBuffer.sent) return Promise.resolve();
+      responseBuffer.sent = true;
+
+      if (status) responseBuffer.statusCode = status;
+      if (!hasHeader(responseBuffer.headers, 'Content-Type')) {
+        responseBuffer.headers['Content-Type'] = 'application/octet-stream';
+      }
+
+      const stream = new ResponseStream(source);
+      responseBuffer.stream = stream;
+      pseudoRes.headersSent = true;
+      responseBuffer.onStream?.();
+      return stream.finished;
+    },
+
+    writer(status?: number) {
+      const queue = new ChunkQueue();
+      ctx.stream(queue, status);
+      return queue;
+    },
+
+    sse(options?: SSEOptions) {
+      return createSSEStream(ctx, options);
+    },
+
+    async sendFile(path: string, options: SendFileOptions = {}) {
+      if (responseBuffer.sent) return;
+
+      await sendFile(ctx, path, options, (file) => {
+        responseBuffer.sent = true;
+        responseBuffer.file = file;
+        pseudoRes.headersSent = true;
+      });
+    },
+
     // Observability helpers
     startSpan(name: string, attributes?: Record<string, any>) {
       return _startSpan(name, attributes);
@@ -184,6 +258,8 @@ export function createAdapterContext(
     },
   };
 
+  (ctx as any)._response = responseBuffer;
+
   return { ctx, responseBuffer };
 }
 
@@ -195,7 +271,8 @@ export function createAdapterContext(
  */
 export function createContext(
   req: IncomingMessage,
-  res: ServerResponse
+  res: ServerResponse,
+  options: ContextOptions = {}
 ): Context {
   const url = req.url || '/';
   // Inline URL parsing for performance
@@ -205,6 +282,7 @@ export function createContext(
 
   let responseSent = false;
   let parsedQuery: Record<string, string | string[]> | undefined;
+  let cookies: CookieJar | undefined;
 
   // ULTRA-OPTIMIZED: Minimal context object
   const ctx: Context = {
@@ -216,18 +294,37 @@ export function createContext(
     get query() {
       return parsedQuery || (parsedQuery = queryString ? parseQuery(queryString) : {});
     },
+    // Validation replaces the query with the parsed schema output
+    set query(value) {
+      parsedQuery = value;
+    },
     params: {},
     body: undefined,
     headers: req.headers as Record<string, string | string[] | undefined>,
     state: {},
     user: undefined,
 
+    // PERFORMANCE: the request scope is created on first resolve()
+    resolve(token) {
+      return requestScope(ctx, options.container).resolve(token);
+    },
+
+    // PERFORMANCE: cookies are parsed on first access
+    get cookies() {
+      return (cookies ||= createCookieJar(
+        cookieHeader(req.headers),
+        (value) => res.appendHeader('Set-Cookie', value),
+        options.cookies
+      ));
+    },
+
     // ULTRA-FAST json() with Content-Length for better pipelining
     json(data: unknown, status = 200) {
       if (responseSent) return;
-      responseSent = true;
 
-      const body = fastStringify(data);
+      // Serialize first - a strict response schema may throw
+      const body = ctx.serializer?.(data, status) ?? stringifyJSON(data);
+      responseSent = true;
 
       res.statusCode = status;
       res.setHeader('Content-Type', 'application/json');
@@ -243,16 +340,66 @@ export function createContext(
       res.end(data);
     },
 
+    send(data: unknown, status = 200) {
+      if (responseSent) return;
+
+      res.appendHeader('Vary', 'Accept');
+      const { contentType, body } = (options.serializers || defaultSerializers()).serialize(ctx, data, status);
+      responseSent = true;
+
+      res.statusCode = status;
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Length', Buffer.byteLength(body).toString());
+      res.end(body);
+    },
+
     status(code: number) {
       res.statusCode = code;
       return ctx;
     },
 
-    setHeader(key: string, value: string) {
+    setHeader(key: string, value: string | string[]) {
       res.setHeader(key, value);
       return ctx;
     },
 
+    appendHeader(key: string, value: string | string[]) {
+      res.appendHeader(key, value);
+      return ctx;
+    },
+
+    stream(source: StreamSource, status?: number) {
+      if (responseSent) return Promise.resolve();
+      responseSent = true;
+
+      if (status) res.statusCode = status;
+      if (!res.hasHeader('Content-Type')) {
+        res.setHeader('Content-Type', 'application/octet-stream');
+      }
+
+      const stream = new ResponseStream(source);
+      void pipeToNodeResponse(res, stream, req.method);
+      return stream.finished;
+    },
+
+    writer(status?: number) {
+      const queue = new ChunkQueue();
+      ctx.stream(queue, status);
+      return queue;
+    },
+
+    sse(options?: SSEOptions) {
+      return createSSEStream(ctx, options);
+    },
+
+    async sendFile(path: string, options: SendFileOptions = {}) {
+      if (responseSent) return;
+
+      await sendFile(ctx, path, options, (file) => {
+        void ctx.stream(createReadStream(file.path, { start: file.start, end: file.end }));
+      });
+    },
+
     // Observability helpers
     startSpan(name: string, attributes?: Record<string, any>) {
       return _startSpan(name, attributes);
@@ -270,53 +417,3 @@ export function createContext(
 
   return ctx;
 }
-
-/**
- * Parses request body based on Content-Type
- */
-export async function parseBody(req: IncomingMessage): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    const contentType = req.headers['content-type'] || '';
-    const chunks: Buffer[] = [];
-
-    req.on('data', (chunk: Buffer) => {
-      chunks.push(chunk);
-    });
-
-    req.on('end', () => {
-      try {
-        const buffer = Buffer.concat(chunks);
-        const body = buffer.toString('utf-8');
-
-        if (!body) {
-          resolve(undefined);
-          return;
-        }
-
-        // Parse JSON
-        if (contentType.includes('application/json')) {
-          resolve(JSON.parse(body));
-          return;
-        }
-
-        // Parse URL-encoded
-        if (contentType.includes('application/x-www-form-urlencoded')) {
-          const params = new URLSearchParams(body);
-          const result: Record<string, string> = {};
-          params.forEach((value, key) => {
-            result[key] = value;
-          });
-          resolve(result);
-          return;
-        }
-
-        // Default: return raw string
-        resolve(body);
-      } catch (error) {
-        reject(new Error('Failed to parse request body'));
-      }
-    });
-
-    req.on('error', reject);
-  });
-}
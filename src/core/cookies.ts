@@ -0,0 +1,259 @@
+/**
+ * Cookies
+ * Parsing, Set-Cookie serialization, HMAC-signed and AES-GCM encrypted values.
+ * Keys rotate by prepending a new one: the first key signs/encrypts, all keys verify/decrypt.
+ */
+
+import { createHmac, createCipheriv, createDecipheriv, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Set-Cookie attributes
+ */
+export interface CookieOptions {
+  maxAge?: number; // Seconds
+  expires?: Date;
+  path?: string; // Default: '/'
+  domain?: string;
+  secure?: boolean; // Forced on for SameSite=None and Partitioned
+  httpOnly?: boolean; // Default: true
+  sameSite?: 'strict' | 'lax' | 'none'; // Default: 'lax'
+  partitioned?: boolean; // CHIPS - third-party cookies keyed to the top-level site
+  priority?: 'low' | 'medium' | 'high';
+  signed?: boolean; // Tamper-proof, readable by the client
+  encrypted?: boolean; // Tamper-proof and unreadable by the client
+}
+
+/**
+ * Options for reading a cookie
+ */
+export interface CookieGetOptions {
+  signed?: boolean;
+  encrypted?: boolean;
+}
+
+/**
+ * Server-wide cookie configuration
+ */
+export interface CookieConfig {
+  keys?: string[]; // Secrets for signed/encrypted cookies, newest first
+  defaults?: CookieOptions; // Attribute defaults for ctx.cookies.set()
+}
+
+/**
+ * Cookie helpers on ctx.cookies
+ */
+export interface CookieJar {
+  /**
+   * Read a cookie - signed/encrypted cookies that fail verification read as undefined
+   */
+  get(name: string, options?: CookieGetOptions): string | undefined;
+
+  /**
+   * All request cookies (raw values)
+   */
+  all(): Record<string, string>;
+
+  set(name: string, value: string, options?: CookieOptions): void;
+
+  /**
+   * Expire a cookie - path and domain must match the ones it was set with
+   */
+  delete(name: string, options?: Pick<CookieOptions, 'path' | 'domain' | 'secure' | 'sameSite' | 'partitioned'>): void;
+}
+
+// RFC 6265 cookie-name (token) and the characters allowed in attribute values
+const NAME_REGEX = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const ATTRIBUTE_REGEX = /^[\x21-\x3a\x3c-\x7e]+$/;
+
+/**
+ * Parse a Cookie request header
+ * The first occurrence of a name wins (browsers send the most specific path first)
+ */
+export function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const eq = pair.indexOf('=');
+    if (eq === -1) continue;
+
+    const name = pair.slice(0, eq).trim();
+    if (!name || name in cookies) continue;
+
+    let value = pair.slice(eq + 1).trim();
+    if (value.length > 1 && value[0] === '"' && value[value.length - 1] === '"') {
+      value = value.slice(1, -1);
+    }
+    try {
+      cookies[name] = value.includes('%') ? decodeURIComponent(value) : value;
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Serialize a Set-Cookie header value
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!NAME_REGEX.test(name)) {
+    throw new TypeError(`Invalid cookie name: ${name}`);
+  }
+
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+
+  if (options.maxAge !== undefined) {
+    if (!Number.isFinite(options.maxAge)) throw new TypeError('Invalid cookie maxAge');
+    cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  }
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  if (options.domain) cookie += `; Domain=${attribute('domain', options.domain)}`;
+  cookie += `; Path=${attribute('path', options.path ?? '/')}`;
+
+  // Browsers reject SameSite=None and Partitioned cookies without Secure
+  const sameSite = options.sameSite ?? 'lax';
+  if (options.secure || sameSite === 'none' || options.partitioned) cookie += '; Secure';
+  if (options.httpOnly ?? true) cookie += '; HttpOnly';
+  cookie += `; SameSite=${sameSite[0].toUpperCase()}${sameSite.slice(1)}`;
+  if (options.partitioned) cookie += '; Partitioned';
+  if (options.priority) cookie += `; Priority=${options.priority[0].toUpperCase()}${options.priority.slice(1)}`;
+
+  return cookie;
+}
+
+function attribute(name: string, value: string): string {
+  if (!ATTRIBUTE_REGEX.test(value)) {
+    throw new TypeError(`Invalid cookie ${name}: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * HMAC over name and value, so a signature cannot be replayed on another cookie
+ */
+function sign(name: string, value: string, key: string): string {
+  return createHmac('sha256', key).update(`${name}=${value}`).digest('base64url');
+}
+
+/**
+ * Sign a cookie value with the newest key
+ */
+export function signCookie(name: string, value: string, keys: string[]): string {
+  return `${value}.${sign(name, value, keys[0])}`;
+}
+
+/**
+ * Verify a signed cookie value against every key
+ */
+export function unsignCookie(name: string, signed: string, keys: string[]): string | undefined {
+  const dot = signed.lastIndexOf('.');
+  if (dot === -1) return undefined;
+
+  const value = signed.slice(0, dot);
+  const signature = Buffer.from(signed.slice(dot + 1));
+  for (const key of keys) {
+    const expected = Buffer.from(sign(name, value, key));
+    if (expected.length === signature.length && timingSafeEqual(expected, signature)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// PERFORMANCE: derived AES keys are cached per secret
+const encryptionKeys = new Map<string, Buffer>();
+
+function encryptionKey(secret: string): Buffer {
+  let key = encryptionKeys.get(secret);
+  if (!key) {
+    key = Buffer.from(hkdfSync('sha256', secret, '', 'ramapi cookie encryption', 32));
+    encryptionKeys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypt a cookie value with AES-256-GCM (iv.tag.ciphertext, base64url)
+ * The cookie name is authenticated too, so values cannot be swapped between cookies
+ */
+export function encryptCookie(name: string, value: string, keys: string[]): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(keys[0]), iv);
+  cipher.setAAD(Buffer.from(name));
+  const encrypted = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+/**
+ * Decrypt a cookie value, trying every key
+ */
+export function decryptCookie(name: string, encrypted: string, keys: string[]): string | undefined {
+  const data = Buffer.from(encrypted, 'base64url');
+  if (data.length < 28) return undefined;
+
+  for (const key of keys) {
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', encryptionKey(key), data.subarray(0, 12));
+      decipher.setAAD(Buffer.from(name));
+      decipher.setAuthTag(data.subarray(12, 28));
+      return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf-8');
+    } catch {
+      // Wrong key or tampered value - try the next key
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create the cookie jar for a request
+ *
+ * @param header - Cookie request header
+ * @param append - Adds a Set-Cookie header to the response
+ */
+export function createCookieJar(
+  header: string | undefined,
+  append: (value: string) => void,
+  config: CookieConfig = {}
+): CookieJar {
+  let parsed: Record<string, string> | undefined;
+  const cookies = () => parsed || (parsed = parseCookieHeader(header));
+
+  const requireKeys = (): string[] => {
+    if (!config.keys?.length) {
+      throw new Error('Signed and encrypted cookies require cookies.keys in the server config');
+    }
+    return config.keys;
+  };
+
+  return {
+    get(name, options = {}) {
+      const value = cookies()[name];
+      if (value === undefined) return undefined;
+
+      if (options.encrypted) return decryptCookie(name, value, requireKeys());
+      if (options.signed) return unsignCookie(name, value, requireKeys());
+      return value;
+    },
+
+    all() {
+      return { ...cookies() };
+    },
+
+    set(name, value, options = {}) {
+      const merged = { ...config.defaults, ...options };
+      let stored = value;
+      if (merged.encrypted) {
+        stored = encryptCookie(name, value, requireKeys());
+      } else if (merged.signed) {
+        stored = signCookie(name, value, requireKeys());
+      }
+      append(serializeCookie(name, stored, merged));
+    },
+
+    delete(name, options = {}) {
+      append(serializeCookie(name, '', { ...config.defaults, ...options, maxAge: 0, expires: new Date(0) }));
+    },
+  };
+}
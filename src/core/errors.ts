@@ -0,0 +1,236 @@
+/**
+ * Typed errors and their mapping across protocols
+ * One registry maps each error code to an HTTP status, a GraphQL
+ * `extensions.code` and a gRPC status code.
+ */
+
+import { STATUS_CODES } from 'http';
+import { status as GRPCStatus } from '@grpc/grpc-js';
+import { HTTPError, type ValidationError } from './types.js';
+
+/**
+ * How an error code is reported by each protocol
+ */
+export interface ErrorCodeMapping {
+  status: number; // HTTP status
+  graphql: string; // GraphQL extensions.code
+  grpc: GRPCStatus; // gRPC status code
+}
+
+/**
+ * An error resolved through the registry
+ */
+export interface ResolvedError extends ErrorCodeMapping {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * Error code registry
+ *
+ * HTTPError subclasses carry a `code`. Plain HTTPErrors get the code registered
+ * for their status, and other errors with a registered `code` property map too -
+ * anything else is an INTERNAL_SERVER_ERROR.
+ *
+ * @example
+ * class PaymentRequiredError extends HTTPError {
+ *   code = 'PAYMENT_REQUIRED';
+ *   constructor(message = 'Payment required') { super(402, message); }
+ * }
+ * errorRegistry.register('PAYMENT_REQUIRED', { status: 402, graphql: 'PAYMENT_REQUIRED', grpc: status.FAILED_PRECONDITION });
+ */
+export class ErrorRegistry {
+  private codes = new Map<string, ErrorCodeMapping>();
+  private statusCodes = new Map<number, string>(); // First code registered for each status
+
+  /**
+   * Register (or replace) an error code
+   */
+  register(code: string, mapping: ErrorCodeMapping): this {
+    this.codes.set(code, mapping);
+    if (!this.statusCodes.has(mapping.status)) {
+      this.statusCodes.set(mapping.status, code);
+    }
+    return this;
+  }
+
+  get(code: string): ErrorCodeMapping | undefined {
+    return this.codes.get(code);
+  }
+
+  /**
+   * Code for an HTTP status without a registered one - 418 becomes I_M_A_TEAPOT
+   */
+  codeForStatus(status: number): string {
+    return (
+      this.statusCodes.get(status) ??
+      (STATUS_CODES[status] ?? 'Unknown Error').toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '')
+    );
+  }
+
+  /**
+   * Resolve an error's code, statuses and client-facing message
+   */
+  resolve(error: unknown): ResolvedError {
+    if (error instanceof HTTPError) {
+      const code = error.code ?? this.codeForStatus(error.statusCode);
+      const mapping = this.codes.get(code);
+      return {
+        code,
+        status: error.statusCode, // The error's own status wins over the registry
+        graphql: mapping?.graphql ?? code,
+        grpc: mapping?.grpc ?? grpcForStatus(error.statusCode),
+        message: error.message,
+        details: error.details,
+      };
+    }
+
+    const err = error as Error & { code?: unknown };
+    const mapping = typeof err?.code === 'string' ? this.codes.get(err.code) : undefined;
+    if (mapping) {
+      return { code: err.code as string, ...mapping, message: err.message };
+    }
+
+    return {
+      code: 'INTERNAL_SERVER_ERROR',
+      ...this.codes.get('INTERNAL_SERVER_ERROR')!,
+      message: err?.message || 'Internal Server Error',
+    };
+  }
+}
+
+/**
+ * gRPC status for HTTP statuses without a registered code
+ */
+function grpcForStatus(status: number): GRPCStatus {
+  if (status >= 500) return GRPCStatus.INTERNAL;
+  if (status >= 400) return GRPCStatus.FAILED_PRECONDITION;
+  return GRPCStatus.UNKNOWN;
+}
+
+/**
+ * Error codes shared by REST, GraphQL and gRPC
+ */
+export const errorRegistry = new ErrorRegistry()
+  .register('BAD_REQUEST', { status: 400, graphql: 'BAD_REQUEST', grpc: GRPCStatus.INVALID_ARGUMENT })
+  .register('VALIDATION_FAILED', { status: 400, graphql: 'BAD_USER_INPUT', grpc: GRPCStatus.INVALID_ARGUMENT })
+  .register('UNAUTHORIZED', { status: 401, graphql: 'UNAUTHENTICATED', grpc: GRPCStatus.UNAUTHENTICATED })
+  .register('FORBIDDEN', { status: 403, graphql: 'FORBIDDEN', grpc: GRPCStatus.PERMISSION_DENIED })
+  .register('NOT_FOUND', { status: 404, graphql: 'NOT_FOUND', grpc: GRPCStatus.NOT_FOUND })
+  .register('METHOD_NOT_ALLOWED', { status: 405, graphql: 'METHOD_NOT_ALLOWED', grpc: GRPCStatus.UNIMPLEMENTED })
+  .register('CONFLICT', { status: 409, graphql: 'CONFLICT', grpc: GRPCStatus.ALREADY_EXISTS })
+  .register('PAYLOAD_TOO_LARGE', { status: 413, graphql: 'PAYLOAD_TOO_LARGE', grpc: GRPCStatus.RESOURCE_EXHAUSTED })
+  .register('TOO_MANY_REQUESTS', { status: 429, graphql: 'RATE_LIMITED', grpc: GRPCStatus.RESOURCE_EXHAUSTED })
+  .register('INTERNAL_SERVER_ERROR', { status: 500, graphql: 'INTERNAL_SERVER_ERROR', grpc: GRPCStatus.INTERNAL })
+  .register('NOT_IMPLEMENTED', { status: 501, graphql: 'NOT_IMPLEMENTED', grpc: GRPCStatus.UNIMPLEMENTED })
+  .register('SERVICE_UNAVAILABLE', { status: 503, graphql: 'SERVICE_UNAVAILABLE', grpc: GRPCStatus.UNAVAILABLE })
+  .register('GATEWAY_TIMEOUT', { status: 504, graphql: 'GATEWAY_TIMEOUT', grpc: GRPCStatus.DEADLINE_EXCEEDED });
+
+/**
+ * 400 - malformed request
+ */
+export class BadRequestError<TDetails = unknown> extends HTTPError<TDetails> {
+  code = 'BAD_REQUEST';
+
+  constructor(message = 'Bad request', details?: TDetails) {
+    super(400, message, details);
+    this.name = 'BadRequestError';
+  }
+}
+
+/**
+ * 400 - input failed schema validation
+ */
+export class ValidationFailedError extends HTTPError<{ errors: ValidationError[] }> {
+  code = 'VALIDATION_FAILED';
+
+  constructor(errors: ValidationError[], message = 'Validation failed') {
+    super(400, message, { errors });
+    this.name = 'ValidationFailedError';
+  }
+}
+
+/**
+ * 401 - missing or invalid credentials
+ */
+export class UnauthorizedError<TDetails = unknown> extends HTTPError<TDetails> {
+  code = 'UNAUTHORIZED';
+
+  constructor(message = 'Unauthorized', details?: TDetails) {
+    super(401, message, details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * 403 - authenticated, but not allowed
+ */
+export class ForbiddenError<TDetails = unknown> extends HTTPError<TDetails> {
+  code = 'FORBIDDEN';
+
+  constructor(message = 'Forbidden', details?: TDetails) {
+    super(403, message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * 404 - resource doesn't exist
+ */
+export class NotFoundError<TDetails = unknown> extends HTTPError<TDetails> {
+  code = 'NOT_FOUND';
+
+  constructor(message = 'Not found', details?: TDetails) {
+    super(404, message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 405 - path exists, method doesn't
+ */
+export class MethodNotAllowedError extends HTTPError<{ allow: string[] }> {
+  code = 'METHOD_NOT_ALLOWED';
+
+  constructor(allow: string[], message = 'Method not allowed') {
+    super(405, message, { allow });
+    this.name = 'MethodNotAllowedError';
+  }
+}
+
+/**
+ * 409 - conflicts with the current state (duplicate, stale version)
+ */
+export class ConflictError<TDetails = unknown> extends HTTPError<TDetails> {
+  code = 'CONFLICT';
+
+  constructor(message = 'Conflict', details?: TDetails) {
+    super(409, message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * 413 - body over a size or count limit
+ */
+export class PayloadTooLargeError extends HTTPError<{ limit: number; field?: string }> {
+  code = 'PAYLOAD_TOO_LARGE';
+
+  constructor(message = 'Payload too large', details?: { limit: number; field?: string }) {
+    super(413, message, details);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * 429 - rate limited
+ */
+export class TooManyRequestsError<TDetails = unknown> extends HTTPError<TDetails> {
+  code = 'TOO_MANY_REQUESTS';
+
+  constructor(message = 'Too many requests', details?: TDetails) {
+    super(429, message, details);
+    this.name = 'TooManyRequestsError';
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * In-process requests (app.inject)
+ * Requests go through the same pipeline as the adapters, without a socket
+ */
+
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import type { RawRequestInfo, RawResponseData } from '../adapters/types.js';
+
+/**
+ * app.inject() request
+ */
+export interface InjectOptions {
+  method?: string; // Default: 'GET'
+  url: string; // Path with an optional query string
+  query?: Record<string, string | string[]>; // Appended to the URL
+  headers?: Record<string, string | string[]>;
+  body?: unknown; // Objects are sent as JSON, strings and Buffers as is
+}
+
+/**
+ * app.inject() response
+ */
+export interface InjectResponse {
+  status: number;
+  headers: Record<string, string | string[]>; // Lowercased names
+  body: string; // UTF-8 decoded
+  rawBody: Buffer;
+  json<T = any>(): T;
+}
+
+/**
+ * Build the adapter request info and body stream for an injected request
+ */
+export function createInjectRequest(options: InjectOptions): { info: RawRequestInfo; body: Readable } {
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  let body: Buffer | undefined;
+  if (options.body !== undefined) {
+    if (Buffer.isBuffer(options.body) || typeof options.body === 'string') {
+      body = Buffer.from(options.body);
+      headers['content-type'] ??= 'text/plain; charset=utf-8';
+    } else {
+      body = Buffer.from(JSON.stringify(options.body));
+      headers['content-type'] ??= 'application/json';
+    }
+    headers['content-length'] = String(body.length);
+  }
+
+  let url = options.url;
+  if (options.query) {
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(options.query)) {
+      for (const item of Array.isArray(value) ? value : [value]) search.append(name, item);
+    }
+    url += (url.includes('?') ? '&' : '?') + search.toString();
+  }
+
+  return {
+    info: { method: (options.method ?? 'GET').toUpperCase(), url, headers },
+    body: Readable.from(body ? [body] : []),
+  };
+}
+
+/**
+ * Read a complete response - streams are consumed to the end, files read from disk
+ */
+export async function readInjectResponse(data: RawResponseData): Promise<InjectResponse> {
+  let rawBody: Buffer;
+  if (data.stream) {
+    const chunks: Buffer[] = [];
+    for (let result = await data.stream.next(); !result.done; result = await data.stream.next()) {
+      chunks.push(Buffer.from(result.value));
+    }
+    rawBody = Buffer.concat(chunks);
+  } else if (data.file) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of createReadStream(data.file.path, { start: data.file.start, end: data.file.end })) {
+      chunks.push(chunk as Buffer);
+    }
+    rawBody = Buffer.concat(chunks);
+  } else {
+    rawBody = Buffer.from(data.body);
+  }
+
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(data.headers)) {
+    const lower = name.toLowerCase();
+    const current = headers[lower];
+    headers[lower] = current === undefined ? value : ([] as string[]).concat(current, value);
+  }
+
+  const body = rawBody.toString('utf-8');
+  return {
+    status: data.statusCode,
+    headers,
+    body,
+    rawBody,
+    json: () => JSON.parse(body),
+  };
+}
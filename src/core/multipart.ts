@@ -0,0 +1,246 @@
+/**
+ * Streaming multipart/form-data parser
+ * Pure state machine - the caller feeds chunks and awaits its sinks between them,
+ * so a slow file sink applies backpressure all the way to the socket
+ */
+
+import { HTTPError } from './types.js';
+
+/**
+ * Headers of a single part
+ */
+export interface MultipartPartInfo {
+  name: string;
+  filename?: string; // Set for file parts (may be empty if no file was chosen)
+  contentType: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Parser events, in stream order: part, data*, partEnd
+ */
+export type MultipartEvent =
+  | { type: 'part'; part: MultipartPartInfo }
+  | { type: 'data'; data: Buffer }
+  | { type: 'partEnd' };
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+const MAX_HEADER_SIZE = 16 * 1024;
+
+const enum State {
+  Preamble,
+  AfterBoundary,
+  Headers,
+  Body,
+  Done,
+}
+
+/**
+ * Check whether a request carries a multipart/form-data body
+ */
+export function isMultipart(headers: Record<string, string | string[] | undefined>): boolean {
+  const contentType = headers['content-type'];
+  return typeof contentType === 'string' && contentType.toLowerCase().startsWith('multipart/form-data');
+}
+
+/**
+ * Read the boundary from a Content-Type header
+ */
+export function getBoundary(contentType: string): string | undefined {
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? match[1] || match[2] : undefined;
+}
+
+/**
+ * Parse header parameters (`form-data; name="a"; filename="b.txt"`)
+ * Supports quoted strings with escapes and RFC 5987 `filename*`
+ */
+export function parseHeaderParams(value: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const regex = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(value))) {
+    const key = match[1].toLowerCase();
+    let param = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim();
+
+    if (key.endsWith('*')) {
+      // charset'language'percent-encoded
+      const extended = /^([^']*)'[^']*'(.*)$/.exec(param);
+      if (extended) {
+        try {
+          param = decodeURIComponent(extended[2]);
+        } catch {
+          continue;
+        }
+      }
+      params[key.slice(0, -1)] = param;
+    } else if (!(key in params)) {
+      params[key] = param;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Incremental multipart parser
+ *
+ * @example
+ * const parser = new MultipartParser(getBoundary(contentType)!);
+ * for await (const chunk of req) {
+ *   for (const event of parser.write(chunk)) { ... }
+ * }
+ * parser.end();
+ */
+export class MultipartParser {
+  private delimiter: Buffer;
+  private buffer: Buffer;
+  private state = State.Preamble;
+
+  constructor(boundary: string) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    // The first boundary has no leading CRLF - prepend one so every delimiter looks the same
+    this.buffer = CRLF;
+  }
+
+  /**
+   * True once the closing boundary was seen
+   */
+  get done(): boolean {
+    return this.state === State.Done;
+  }
+
+  /**
+   * Feed a chunk, returning the events it completes
+   */
+  write(chunk: Buffer): MultipartEvent[] {
+    const events: MultipartEvent[] = [];
+    if (this.state === State.Done) return events; // Epilogue is ignored
+
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    for (;;) {
+      switch (this.state) {
+        case State.Preamble: {
+          const index = this.buffer.indexOf(this.delimiter);
+          if (index === -1) {
+            // Keep enough bytes to match a delimiter split across chunks
+            this.buffer = this.buffer.subarray(Math.max(0, this.buffer.length - this.delimiter.length + 1));
+            return events;
+          }
+          this.buffer = this.buffer.subarray(index + this.delimiter.length);
+          this.state = State.AfterBoundary;
+          break;
+        }
+
+        case State.AfterBoundary: {
+          if (this.buffer.length < 2) return events;
+
+          if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+            // "--" closes the body
+            this.state = State.Done;
+            this.buffer = Buffer.alloc(0);
+            return events;
+          }
+
+          // Transport padding (spaces/tabs) may precede the CRLF
+          const lineEnd = this.buffer.indexOf(CRLF);
+          if (lineEnd === -1) {
+            if (this.buffer.length > 1024) throw malformed('Invalid boundary line');
+            return events;
+          }
+          if (this.buffer.subarray(0, lineEnd).toString('latin1').trim() !== '') {
+            throw malformed('Invalid boundary line');
+          }
+          this.buffer = this.buffer.subarray(lineEnd + 2);
+          this.state = State.Headers;
+          break;
+        }
+
+        case State.Headers: {
+          // A part without headers starts directly with CRLF
+          const end = this.buffer[0] === 0x0d && this.buffer[1] === 0x0a ? -2 : this.buffer.indexOf(HEADER_END);
+          if (end === -1) {
+            if (this.buffer.length > MAX_HEADER_SIZE) throw malformed('Part headers too large');
+            return events;
+          }
+
+          const raw = end === -2 ? '' : this.buffer.subarray(0, end).toString('utf-8');
+          this.buffer = this.buffer.subarray(end === -2 ? 2 : end + 4);
+          events.push({ type: 'part', part: parsePartHeaders(raw) });
+          this.state = State.Body;
+          break;
+        }
+
+        case State.Body: {
+          const index = this.buffer.indexOf(this.delimiter);
+          if (index === -1) {
+            // PERFORMANCE: emit everything that cannot be the start of a delimiter
+            const safe = this.buffer.length - this.delimiter.length + 1;
+            if (safe > 0) {
+              events.push({ type: 'data', data: this.buffer.subarray(0, safe) });
+              this.buffer = this.buffer.subarray(safe);
+            }
+            return events;
+          }
+
+          if (index > 0) {
+            events.push({ type: 'data', data: this.buffer.subarray(0, index) });
+          }
+          events.push({ type: 'partEnd' });
+          this.buffer = this.buffer.subarray(index + this.delimiter.length);
+          this.state = State.AfterBoundary;
+          break;
+        }
+
+        default:
+          return events;
+      }
+    }
+  }
+
+  /**
+   * Signal the end of input - throws if the closing boundary is missing
+   */
+  end(): void {
+    if (this.state !== State.Done) {
+      throw malformed('Unexpected end of multipart body');
+    }
+  }
+}
+
+/**
+ * Parse a part's header block
+ */
+function parsePartHeaders(raw: string): MultipartPartInfo {
+  const headers: Record<string, string> = {};
+  for (const line of raw.split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+
+  const disposition = headers['content-disposition'];
+  if (!disposition || !/^form-data\b/i.test(disposition)) {
+    throw malformed('Missing Content-Disposition: form-data');
+  }
+
+  const params = parseHeaderParams(disposition);
+  if (params.name === undefined) {
+    throw malformed('Missing part name');
+  }
+
+  return {
+    name: params.name,
+    filename: params.filename,
+    contentType: headers['content-type'] || (params.filename !== undefined ? 'application/octet-stream' : 'text/plain'),
+    headers,
+  };
+}
+
+function malformed(reason: string): HTTPError {
+  return new HTTPError(400, 'Malformed multipart body', { reason });
+}
@@ -0,0 +1,273 @@
+/**
+ * Content negotiation
+ * ctx.send() picks a serializer from the Accept header out of a registry.
+ * Built in: JSON, NDJSON, CSV, MessagePack and protobuf (for operation routes)
+ */
+
+import type { Context } from './types.js';
+import { HTTPError } from './types.js';
+import type { Operation } from '../protocols/types.js';
+import { stringifyJSON } from './serializer.js';
+import { encodeMsgpack } from '../utils/msgpack.js';
+import { getProtoEncoder } from '../protocols/grpc/proto-encoder.js';
+
+/**
+ * Serialize a response body
+ * Return undefined when the data can't be represented, so the next acceptable type is tried
+ */
+export type ContentSerializer = (
+  data: unknown,
+  options: { ctx: Context; status: number; operation?: Operation }
+) => string | Buffer | undefined;
+
+/**
+ * Accept header entry
+ */
+interface MediaRange {
+  type: string; // '*' for any
+  subtype: string; // '*' for any
+  q: number;
+  specificity: number; // 0 for */*, 1 for type/*, 2 for type/subtype
+}
+
+interface SerializerEntry {
+  type: string;
+  contentType: string; // Sent Content-Type (charset added for text types)
+  serializer: ContentSerializer;
+}
+
+/**
+ * Parse an Accept header (RFC 9110), ignoring malformed ranges
+ */
+export function parseAccept(header: string | undefined): MediaRange[] {
+  if (!header) return [{ type: '*', subtype: '*', q: 1, specificity: 0 }];
+
+  const ranges: MediaRange[] = [];
+  for (const part of header.split(',')) {
+    const [range, ...params] = part.split(';');
+    const slash = range.indexOf('/');
+    if (slash === -1) continue;
+
+    const type = range.slice(0, slash).trim().toLowerCase();
+    const subtype = range.slice(slash + 1).trim().toLowerCase();
+    if (!type || !subtype || (type === '*' && subtype !== '*')) continue;
+
+    let q = 1;
+    for (const param of params) {
+      const [name, value] = param.split('=');
+      if (name.trim().toLowerCase() === 'q') {
+        q = Number(value);
+        if (!(q >= 0 && q <= 1)) q = 0;
+      }
+    }
+
+    ranges.push({ type, subtype, q, specificity: type === '*' ? 0 : subtype === '*' ? 1 : 2 });
+  }
+  return ranges;
+}
+
+/**
+ * Pick a content coding from an Accept-Encoding header
+ * The highest quality wins, ties go to the order of `available` (server preference)
+ */
+export function negotiateEncoding(header: string | undefined, available: readonly string[]): string | undefined {
+  if (!header) return undefined;
+
+  const qualities = new Map<string, number>();
+  for (const part of header.split(',')) {
+    const [name, ...params] = part.split(';');
+    const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+    const value = q ? Number(q.slice(2)) : 1;
+    qualities.set(name.trim().toLowerCase(), value >= 0 && value <= 1 ? value : 0);
+  }
+
+  let best: string | undefined;
+  let bestQ = 0;
+  for (const encoding of available) {
+    const q = qualities.get(encoding) ?? qualities.get('*') ?? 0;
+    if (q > bestQ) {
+      best = encoding;
+      bestQ = q;
+    }
+  }
+  return best;
+}
+
+/**
+ * Quality the client gives a media type - the most specific matching range decides
+ */
+function quality(ranges: MediaRange[], type: string): { q: number; specificity: number } {
+  const slash = type.indexOf('/');
+  const main = type.slice(0, slash);
+  const sub = type.slice(slash + 1);
+
+  let best = { q: 0, specificity: -1 };
+  for (const range of ranges) {
+    const matches =
+      range.type === '*' || (range.type === main && (range.subtype === '*' || range.subtype === sub));
+    if (matches && range.specificity > best.specificity) {
+      best = range;
+    }
+  }
+  return { q: best.q, specificity: best.specificity };
+}
+
+/**
+ * Registry of response serializers
+ * Registration order is the server's preference when the client accepts several types equally
+ */
+export class SerializerRegistry {
+  private entries: SerializerEntry[] = [];
+
+  constructor() {
+    this.register('application/json', jsonSerializer);
+    this.register(['application/x-ndjson', 'application/jsonl'], ndjsonSerializer);
+    this.register('text/csv', csvSerializer, 'text/csv; charset=utf-8; header=present');
+    this.register(['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'], msgpackSerializer);
+    this.register(['application/x-protobuf', 'application/protobuf'], protobufSerializer);
+  }
+
+  /**
+   * Register a serializer for one or more media types (replaces existing ones)
+   */
+  register(types: string | string[], serializer: ContentSerializer, contentType?: string): this {
+    for (const type of Array.isArray(types) ? types : [types]) {
+      const lower = type.toLowerCase();
+      const entry: SerializerEntry = {
+        type: lower,
+        contentType: contentType ?? (lower.startsWith('text/') ? `${lower}; charset=utf-8` : lower),
+        serializer,
+      };
+
+      const index = this.entries.findIndex((existing) => existing.type === lower);
+      if (index === -1) {
+        this.entries.push(entry);
+      } else {
+        this.entries[index] = entry;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Registered media types, in preference order
+   */
+  types(): string[] {
+    return this.entries.map((entry) => entry.type);
+  }
+
+  /**
+   * Serialize data in the best format the client accepts
+   * Throws 406 when no acceptable serializer can represent the data
+   */
+  serialize(
+    ctx: Context,
+    data: unknown,
+    status: number
+  ): { contentType: string; body: string | Buffer } {
+    const ranges = parseAccept(ctx.headers.accept as string | undefined);
+
+    const candidates = this.entries
+      .map((entry, order) => ({ entry, order, ...quality(ranges, entry.type) }))
+      .filter((candidate) => candidate.q > 0)
+      .sort((a, b) => b.q - a.q || b.specificity - a.specificity || a.order - b.order);
+
+    const options = { ctx, status, operation: (ctx as any)._operation as Operation | undefined };
+    let schemaData: unknown;
+    let filtered = false;
+
+    for (const { entry } of candidates) {
+      let value = data;
+      if (entry.serializer !== jsonSerializer && ctx.serializer) {
+        // Other formats get the data the response schema lets through
+        if (!filtered) {
+          const json = ctx.serializer(data, status);
+          schemaData = json === undefined ? data : JSON.parse(json);
+          filtered = true;
+        }
+        value = schemaData;
+      }
+
+      const body = entry.serializer(value, options);
+      if (body !== undefined) {
+        return { contentType: entry.contentType, body };
+      }
+    }
+
+    throw new HTTPError(406, 'Not Acceptable', { available: this.types() });
+  }
+}
+
+/**
+ * JSON - honours the route's compiled response serializer
+ */
+const jsonSerializer: ContentSerializer = (data, { ctx, status }) =>
+  ctx.serializer?.(data, status) ?? stringifyJSON(data);
+
+/**
+ * Newline-delimited JSON - one line per array item
+ */
+const ndjsonSerializer: ContentSerializer = (data) => {
+  const items = Array.isArray(data) ? data : [data];
+  return items.map((item) => `${stringifyJSON(item)}\n`).join('');
+};
+
+/**
+ * CSV (RFC 4180) - one row per array item, columns from the keys of all rows
+ * Nested values are written as JSON
+ */
+const csvSerializer: ContentSerializer = (data) => {
+  const rows = (Array.isArray(data) ? data : [data]).map((row) =>
+    row !== null && typeof row === 'object' && !(row instanceof Date) ? row : { value: row }
+  ) as Record<string, unknown>[];
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+
+  const lines = [columns.map(csvField).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvField(row[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+function csvField(value: unknown): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = stringifyJSON(value);
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const msgpackSerializer: ContentSerializer = (data) => encodeMsgpack(data);
+
+/**
+ * Protobuf - only for operation routes, encoded with the operation's generated response message
+ */
+const protobufSerializer: ContentSerializer = (data, { operation }) => {
+  const encode = operation && getProtoEncoder(operation);
+  return encode ? encode(data) : undefined;
+};
+
+let defaultRegistry: SerializerRegistry | undefined;
+
+/**
+ * Shared registry with the built-in serializers
+ */
+export function defaultSerializers(): SerializerRegistry {
+  return (defaultRegistry ||= new SerializerRegistry());
+}
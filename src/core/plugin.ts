@@ -0,0 +1,104 @@
+/**
+ * Plugins (app.register)
+ * Reusable bundles of routes, middleware, decorators, hooks and operations
+ */
+
+import type { Context, Middleware } from './types.js';
+import type { Server } from './server.js';
+
+/**
+ * A plugin
+ *
+ * `register` receives a scoped app. Middleware and decorators added through it only
+ * apply to the plugin's own routes (and its child plugins) - unless `encapsulate`
+ * is false, then they apply to the scope that registered the plugin, like app.use().
+ * Lifecycle hooks are app-wide.
+ *
+ * @example
+ * const users: Plugin<{ table: string }> = {
+ *   name: 'users',
+ *   dependencies: ['database'],
+ *   register(app, { table }) {
+ *     app.use(authenticate({ secret }));
+ *     app.get('/users', async (ctx) => ctx.json(await ctx.db.list(table)));
+ *   },
+ * };
+ * app.register(users, { table: 'users' });
+ */
+export interface Plugin<TOptions = void> {
+  name: string; // Unique - dependencies refer to it
+  dependencies?: string[]; // Plugins that must load first
+  encapsulate?: boolean; // Default: true
+  register(app: Server, options: TOptions): void | Promise<void>;
+}
+
+/**
+ * A registered plugin waiting for startup
+ */
+export interface PendingPlugin {
+  plugin: Plugin<any>;
+  options: unknown;
+  scope: Server;
+}
+
+/**
+ * Pick the next plugin whose dependencies are loaded - registration order breaks ties
+ */
+export function nextPlugin(pending: PendingPlugin[], loaded: Set<string>): PendingPlugin {
+  const next = pending.find(({ plugin }) => (plugin.dependencies ?? []).every((name) => loaded.has(name)));
+  if (next) return next;
+
+  const registered = new Set(pending.map(({ plugin }) => plugin.name));
+  for (const { plugin } of pending) {
+    const missing = plugin.dependencies?.find((name) => !loaded.has(name) && !registered.has(name));
+    if (missing) {
+      throw new Error(`Plugin "${plugin.name}" depends on "${missing}", which is not registered`);
+    }
+  }
+  throw new Error(`Circular plugin dependencies: ${[...registered].join(', ')}`);
+}
+
+/**
+ * Middleware running a list that is filled later (non-encapsulated plugins load at startup,
+ * after the routes they wrap were compiled)
+ */
+export function middlewareSlot(slot: Middleware[]): Middleware {
+  return (ctx, next) => {
+    if (slot.length === 0) return next();
+
+    let index = 0;
+    const run = async (): Promise<void> => {
+      if (index < slot.length) {
+        await slot[index++](ctx, run);
+      } else {
+        await next();
+      }
+    };
+    return run();
+  };
+}
+
+/**
+ * Middleware adding a plugin's decorators to the contexts of its routes
+ */
+export function decoratorMiddleware(decorators: Record<string, unknown>): Middleware {
+  return async (ctx, next) => {
+    Object.assign(ctx, decorators);
+    await next();
+  };
+}
+
+let contextKeys: Set<string> | undefined;
+
+/**
+ * Check a decorator doesn't shadow a built-in Context property
+ */
+export function checkDecorator(name: string, decorators: Record<string, unknown>, probe: () => Context): void {
+  contextKeys ??= new Set(Object.keys(probe()));
+  if (contextKeys.has(name)) {
+    throw new Error(`Cannot decorate "${name}": it is a built-in Context property`);
+  }
+  if (name in decorators) {
+    throw new Error(`Context is already decorated with "${name}"`);
+  }
+}
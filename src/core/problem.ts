@@ -0,0 +1,49 @@
+/**
+ * RFC 9457 problem details
+ * Default shape of error responses (see Server.handleError)
+ */
+
+import { STATUS_CODES } from 'http';
+import type { Context, ProblemDetails } from './types.js';
+import { errorRegistry } from './errors.js';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+// Members extension details can't override
+const STANDARD_MEMBERS = new Set(['type', 'title', 'status', 'code', 'detail', 'instance', 'traceId']);
+
+/**
+ * Build the problem details for an error
+ *
+ * The status and `code` come from the error registry (see core/errors.ts).
+ * HTTPError details are added as extension members - `{ errors }` from validation
+ * becomes a top-level `errors` array. Details that aren't an object are kept under `details`.
+ * The stack trace is only included outside production.
+ */
+export function createProblem(error: Error, ctx: Context): ProblemDetails {
+  const { status, code, details } = errorRegistry.resolve(error);
+  const problem: ProblemDetails = {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Unknown Error',
+    status,
+    code,
+  };
+
+  if (error.message) problem.detail = error.message;
+  problem.instance = ctx.path;
+  if (ctx.trace?.traceId) problem.traceId = ctx.trace.traceId;
+
+  if (details !== undefined) {
+    if (typeof details === 'object' && details !== null && !Array.isArray(details)) {
+      for (const [name, value] of Object.entries(details)) {
+        if (!STANDARD_MEMBERS.has(name)) problem[name] = value;
+      }
+    } else {
+      problem.details = details;
+    }
+  }
+
+  if (process.env.NODE_ENV !== 'production' && error.stack) problem.stack = error.stack;
+
+  return problem;
+}
@@ -0,0 +1,462 @@
+import type { HTTPMethod } from './types.js';
+
+/**
+ * Built-in typed parameter constraints, usable as `/users/:id<int>`
+ */
+const PARAM_TYPES: Record<string, string> = {
+  int: '\\d+',
+  number: '-?\\d+(?:\\.\\d+)?',
+  uuid: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+  alpha: '[a-zA-Z]+',
+  alnum: '[a-zA-Z0-9]+',
+  slug: '[a-z0-9]+(?:-[a-z0-9]+)*',
+};
+
+/**
+ * Parsed segment of a route pattern
+ */
+export type PatternSegment =
+  | { type: 'static'; value: string }
+  | { type: 'param'; name: string; optional: boolean; constraint?: RegExp }
+  | { type: 'wildcard'; name: string };
+
+/**
+ * Parse a single `:param` segment
+ * Supports `:name`, `:name<type>`, `:name(regex)` and a trailing `?` for optional
+ */
+function parseParamSegment(segment: string, pattern: string): PatternSegment {
+  let i = 1;
+  while (i < segment.length && /[\w$]/.test(segment[i])) i++;
+  const name = segment.slice(1, i);
+
+  if (!name) {
+    throw new Error(`Invalid route pattern "${pattern}": parameter name missing in "${segment}"`);
+  }
+
+  let source: string | undefined;
+
+  if (segment[i] === '<') {
+    const end = segment.indexOf('>', i);
+    if (end === -1) {
+      throw new Error(`Invalid route pattern "${pattern}": unterminated type in "${segment}"`);
+    }
+    const typeName = segment.slice(i + 1, end);
+    source = PARAM_TYPES[typeName];
+    if (!source) {
+      throw new Error(
+        `Invalid route pattern "${pattern}": unknown parameter type "${typeName}". ` +
+        `Available types: ${Object.keys(PARAM_TYPES).join(', ')}`
+      );
+    }
+    i = end + 1;
+  } else if (segment[i] === '(') {
+    // Find matching closing parenthesis (respecting escapes and nesting)
+    let depth = 0;
+    let end = -1;
+    for (let j = i; j < segment.length; j++) {
+      const ch = segment[j];
+      if (ch === '\\') {
+        j++;
+      } else if (ch === '(') {
+        depth++;
+      } else if (ch === ')' && --depth === 0) {
+        end = j;
+        break;
+      }
+    }
+    if (end === -1) {
+      throw new Error(`Invalid route pattern "${pattern}": unterminated constraint in "${segment}"`);
+    }
+    source = segment.slice(i + 1, end);
+    i = end + 1;
+  }
+
+  let optional = false;
+  if (segment[i] === '?') {
+    optional = true;
+    i++;
+  }
+
+  if (i !== segment.length) {
+    throw new Error(`Invalid route pattern "${pattern}": unexpected "${segment.slice(i)}" in "${segment}"`);
+  }
+
+  return {
+    type: 'param',
+    name,
+    optional,
+    constraint: source !== undefined ? new RegExp(`^(?:${source})$`) : undefined,
+  };
+}
+
+/**
+ * Parse a route pattern into segments
+ *
+ * @example
+ * parsePattern('/users/:id(\\d+)/files/*rest')
+ */
+export function parsePattern(pattern: string): PatternSegment[] {
+  const segments: PatternSegment[] = [];
+  const parts = pattern.split('/');
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part === '' && (i === 0 || i === parts.length - 1)) continue;
+
+    const code = part.charCodeAt(0);
+    if (code === 58) { // ':'
+      segments.push(parseParamSegment(part, pattern));
+    } else if (code === 42) { // '*'
+      if (i !== parts.length - 1) {
+        throw new Error(`Invalid route pattern "${pattern}": wildcard must be the last segment`);
+      }
+      segments.push({ type: 'wildcard', name: part.slice(1) || '*' });
+    } else {
+      segments.push({ type: 'static', value: part });
+    }
+  }
+
+  // Optional segments are only allowed at the end of a pattern
+  let seenOptional = false;
+  for (const segment of segments) {
+    const optional = segment.type === 'param' && segment.optional;
+    if (seenOptional && !optional) {
+      throw new Error(`Invalid route pattern "${pattern}": optional segments must be trailing`);
+    }
+    seenOptional = seenOptional || optional;
+  }
+
+  return segments;
+}
+
+/**
+ * Build a concrete path from a route pattern and param values
+ * Values are percent-encoded and checked against param constraints
+ *
+ * @example
+ * buildPath('/users/:id(\\d+)', { id: 42 }) // '/users/42'
+ */
+export function buildPath(pattern: string, params: Record<string, unknown> = {}): string {
+  const parts: string[] = [];
+
+  for (const segment of parsePattern(pattern)) {
+    if (segment.type === 'static') {
+      parts.push(segment.value);
+      continue;
+    }
+
+    const value = params[segment.name];
+
+    if (segment.type === 'wildcard') {
+      const rest = value === undefined || value === null ? '' : String(value);
+      parts.push(rest.split('/').map(encodeURIComponent).join('/'));
+      continue;
+    }
+
+    if (value === undefined || value === null) {
+      // Remaining segments are trailing optionals as well
+      if (segment.optional) break;
+      throw new Error(`Missing param "${segment.name}" for route "${pattern}"`);
+    }
+
+    const str = String(value);
+    if (segment.constraint && !segment.constraint.test(str)) {
+      throw new Error(
+        `Param "${segment.name}" value "${str}" does not satisfy constraint ${segment.constraint.source} of route "${pattern}"`
+      );
+    }
+    parts.push(encodeURIComponent(str));
+  }
+
+  return `/${parts.join('/')}`;
+}
+
+/**
+ * Check if a path contains dynamic segments (params or wildcards)
+ */
+export function isDynamicPattern(path: string): boolean {
+  return path.includes(':') || path.includes('*');
+}
+
+/**
+ * Expand trailing optional segments into concrete variants
+ * `/files/:name?` becomes `/files` and `/files/:name`
+ */
+export function expandOptional(segments: PatternSegment[]): PatternSegment[][] {
+  const firstOptional = segments.findIndex((s) => s.type === 'param' && s.optional);
+  if (firstOptional === -1) {
+    return [segments];
+  }
+
+  const variants: PatternSegment[][] = [];
+  for (let i = firstOptional; i <= segments.length; i++) {
+    variants.push(segments.slice(0, i));
+  }
+  return variants;
+}
+
+/**
+ * Param child of a tree node
+ */
+interface ParamChild<T> {
+  name: string;
+  constraint?: RegExp;
+  node: TreeNode<T>;
+}
+
+/**
+ * Radix tree node
+ * Static text is compressed into prefixes, params and wildcards are separate edges
+ */
+class TreeNode<T> {
+  prefix: string;
+  staticChildren = new Map<number, TreeNode<T>>();
+  paramChildren: ParamChild<T>[] = [];
+  wildcard?: { name: string; handlers: Map<HTTPMethod, T> };
+  handlers?: Map<HTTPMethod, T>;
+
+  constructor(prefix = '') {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Split this node at the given prefix offset
+   */
+  split(at: number): void {
+    const child = new TreeNode<T>(this.prefix.slice(at));
+    child.staticChildren = this.staticChildren;
+    child.paramChildren = this.paramChildren;
+    child.wildcard = this.wildcard;
+    child.handlers = this.handlers;
+
+    this.prefix = this.prefix.slice(0, at);
+    this.staticChildren = new Map([[child.prefix.charCodeAt(0), child]]);
+    this.paramChildren = [];
+    this.wildcard = undefined;
+    this.handlers = undefined;
+  }
+}
+
+/**
+ * Radix tree for dynamic route matching
+ *
+ * PERFORMANCE:
+ * - Static prefixes shared between routes are matched once
+ * - Lookup cost depends on path length, not on the number of routes
+ *
+ * Matching priority at each node: static > constrained param > param > wildcard
+ * The tree backtracks when a more specific branch fails to match.
+ */
+export class RouteTree<T> {
+  private root = new TreeNode<T>();
+
+  /**
+   * Insert a route pattern for a method
+   */
+  insert(method: HTTPMethod, pattern: string, value: T): void {
+    for (const segments of expandOptional(parsePattern(pattern))) {
+      this.insertSegments(segments).set(method, value);
+    }
+  }
+
+  private insertSegments(segments: PatternSegment[]): Map<HTTPMethod, T> {
+    let node = this.root;
+    let pending = '';
+
+    for (const segment of segments) {
+      pending += '/';
+
+      if (segment.type === 'static') {
+        pending += segment.value;
+        continue;
+      }
+
+      node = this.insertStatic(node, pending);
+      pending = '';
+
+      if (segment.type === 'wildcard') {
+        if (node.wildcard && node.wildcard.name !== segment.name) {
+          throw new Error(
+            `Conflicting wildcard names "*${node.wildcard.name}" and "*${segment.name}"`
+          );
+        }
+        node.wildcard = node.wildcard || { name: segment.name, handlers: new Map() };
+        return node.wildcard.handlers;
+      }
+
+      const source = segment.constraint?.source;
+      let child = node.paramChildren.find(
+        (p) => p.name === segment.name && p.constraint?.source === source
+      );
+      if (!child) {
+        child = { name: segment.name, constraint: segment.constraint, node: new TreeNode<T>() };
+        node.paramChildren.push(child);
+        // Constrained params are tried before unconstrained ones
+        node.paramChildren.sort((a, b) => Number(!a.constraint) - Number(!b.constraint));
+      }
+      node = child.node;
+    }
+
+    if (pending === '' && segments.length === 0) {
+      pending = '/';
+    }
+
+    node = this.insertStatic(node, pending);
+    if (!node.handlers) {
+      node.handlers = new Map();
+    }
+    return node.handlers;
+  }
+
+  /**
+   * Walk (and extend) static prefixes, splitting nodes where paths diverge
+   */
+  private insertStatic(node: TreeNode<T>, path: string): TreeNode<T> {
+    let current = node;
+    let i = 0;
+
+    while (i < path.length) {
+      const child = current.staticChildren.get(path.charCodeAt(i));
+      if (!child) {
+        const leaf = new TreeNode<T>(path.slice(i));
+        current.staticChildren.set(path.charCodeAt(i), leaf);
+        return leaf;
+      }
+
+      const prefix = child.prefix;
+      let j = 0;
+      while (j < prefix.length && i + j < path.length && prefix[j] === path[i + j]) j++;
+
+      if (j < prefix.length) {
+        child.split(j);
+      }
+
+      current = child;
+      i += j;
+    }
+
+    return current;
+  }
+
+  /**
+   * Find the value registered for a method and path
+   */
+  find(method: HTTPMethod, path: string): { value: T; params: Record<string, string> } | null {
+    const names: string[] = [];
+    const values: string[] = [];
+    const value = this.match(this.root, path, 0, method, names, values);
+
+    if (value === undefined) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < names.length; i++) {
+      params[names[i]] = decodeParam(values[i]);
+    }
+    return { value, params };
+  }
+
+  /**
+   * Collect every method registered for routes matching a path
+   */
+  collectMethods(path: string, methods: Set<HTTPMethod>): void {
+    this.collect(this.root, path, 0, methods);
+  }
+
+  private collect(node: TreeNode<T>, path: string, pos: number, methods: Set<HTTPMethod>): void {
+    const length = path.length;
+
+    if (pos === length) {
+      node.handlers?.forEach((_, method) => methods.add(method));
+    }
+
+    if (pos < length) {
+      const child = node.staticChildren.get(path.charCodeAt(pos));
+      if (child && path.startsWith(child.prefix, pos)) {
+        this.collect(child, path, pos + child.prefix.length, methods);
+      }
+    }
+
+    if (node.paramChildren.length > 0 && pos < length && path.charCodeAt(pos) !== 47) {
+      let end = path.indexOf('/', pos);
+      if (end === -1) end = length;
+      const segment = path.slice(pos, end);
+
+      for (const param of node.paramChildren) {
+        if (!param.constraint || param.constraint.test(segment)) {
+          this.collect(param.node, path, end, methods);
+        }
+      }
+    }
+
+    node.wildcard?.handlers.forEach((_, method) => methods.add(method));
+  }
+
+  private match(
+    node: TreeNode<T>,
+    path: string,
+    pos: number,
+    method: HTTPMethod,
+    names: string[],
+    values: string[]
+  ): T | undefined {
+    const length = path.length;
+
+    if (pos === length) {
+      const value = node.handlers?.get(method);
+      if (value !== undefined) return value;
+    }
+
+    // 1. Static children
+    if (pos < length) {
+      const child = node.staticChildren.get(path.charCodeAt(pos));
+      if (child && path.startsWith(child.prefix, pos)) {
+        const value = this.match(child, path, pos + child.prefix.length, method, names, values);
+        if (value !== undefined) return value;
+      }
+    }
+
+    // 2. Params (a param consumes one non-empty segment)
+    if (node.paramChildren.length > 0 && pos < length && path.charCodeAt(pos) !== 47) {
+      let end = path.indexOf('/', pos);
+      if (end === -1) end = length;
+      const segment = path.slice(pos, end);
+
+      for (const param of node.paramChildren) {
+        if (param.constraint && !param.constraint.test(segment)) continue;
+
+        names.push(param.name);
+        values.push(segment);
+        const value = this.match(param.node, path, end, method, names, values);
+        if (value !== undefined) return value;
+        names.pop();
+        values.pop();
+      }
+    }
+
+    // 3. Wildcard (consumes the rest of the path)
+    if (node.wildcard) {
+      const value = node.wildcard.handlers.get(method);
+      if (value !== undefined) {
+        names.push(node.wildcard.name);
+        values.push(path.slice(pos));
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Decode percent-encoded param values (leaves malformed input untouched)
+ */
+function decodeParam(value: string): string {
+  if (value.indexOf('%') === -1) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -1,22 +1,49 @@
 import type {
   Route,
   RouterConfig,
+  RouteOptions,
+  RouteArgs,
+  TypedRouteArgs,
+  RouteDefinition,
+  RouteSchema,
   Handler,
   Middleware,
   HTTPMethod,
   Context,
 } from './types.js';
-import { HTTPError } from './types.js';
+import { NotFoundError, MethodNotAllowedError } from './errors.js';
+import { RouteTree, isDynamicPattern, buildPath } from './route-tree.js';
+import { stringifyQuery, type QueryValue } from '../utils/url.js';
+import { validate } from '../middleware/validation.js';
+import { multipart } from '../middleware/multipart.js';
+import { createResponseSerializer } from './serializer.js';
 
 /**
- * Compiled route with pre-parsed pattern
+ * Check if a route schema validates any part of the request
  */
-interface CompiledRoute extends Route {
-  compiled: {
-    parts: string[];
-    isDynamic: boolean;
-    paramIndices: number[];
-  };
+function hasRequestSchema(schema: RouteSchema): boolean {
+  return !!(schema.body || schema.query || schema.params || schema.files);
+}
+
+/**
+ * Canonical ordering of methods in the Allow header
+ */
+const METHOD_ORDER: HTTPMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+/**
+ * Join a prefix and a route path without doubling or dangling slashes
+ */
+function joinPaths(prefix: string | undefined, path: string): string {
+  if (!prefix || prefix === '/') {
+    return path;
+  }
+
+  const base = prefix.charCodeAt(prefix.length - 1) === 47 ? prefix.slice(0, -1) : prefix;
+  if (path === '' || path === '/') {
+    return base;
+  }
+
+  return path.charCodeAt(0) === 47 ? `${base}${path}` : `${base}/${path}`;
 }
 
 /**
@@ -25,8 +52,14 @@ interface CompiledRoute extends Route {
  *
  * PERFORMANCE OPTIMIZATIONS:
  * - Static route map for O(1) exact-match lookups
- * - Pre-compiled route patterns (parsed at registration time)
+ * - Radix tree for dynamic routes (params, wildcards, optional segments)
  * - Separate storage for static vs dynamic routes
+ *
+ * Route patterns:
+ * - `/users/:id` - named param
+ * - `/users/:id(\\d+)` or `/users/:id<int>` - constrained param
+ * - `/files/:name?` - optional trailing segment
+ * - `/assets/*path` - catch-all wildcard
  */
 export class Router {
   private routes: Route[] = [];
@@ -34,41 +67,21 @@ export class Router {
 
   // PERFORMANCE: Static route map for O(1) lookup
   private staticRoutes = new Map<string, Map<HTTPMethod, Route>>();
-  // PERFORMANCE: Dynamic routes only (for fallback)
-  private dynamicRoutes: CompiledRoute[] = [];
+  // PERFORMANCE: Radix tree for dynamic routes
+  private dynamicRoutes = new RouteTree<Route>();
   // PERFORMANCE: Last route cache (hot path optimization)
   private lastRouteKey: string = '';
   private lastRoute: Route | null = null;
   private lastParams: Record<string, string> = {};
+  // Parents this router is mounted into - notified of routes added later
+  private mountListeners: Array<(route: Route) => void> = [];
+  // Named routes for reverse URL generation
+  private namedRoutes = new Map<string, Route>();
 
   constructor(config: RouterConfig = {}) {
     this.config = config;
   }
 
-  /**
-   * Split path into parts (optimized for route compilation)
-   */
-  private splitPathParts(path: string): string[] {
-    const parts: string[] = [];
-    let start = path[0] === '/' ? 1 : 0;
-    for (let i = start; i <= path.length; i++) {
-      if (i === path.length || path[i] === '/') {
-        if (i > start) {
-          parts.push(path.slice(start, i));
-        }
-        start = i + 1;
-      }
-    }
-    return parts;
-  }
-
-  /**
-   * Check if path has dynamic segments
-   */
-  private isDynamicPath(path: string): boolean {
-    return path.includes(':');
-  }
-
   /**
    * Pre-compile middleware chain into single handler (ULTRA-OPTIMIZED)
    */
@@ -102,115 +115,175 @@ export class Router {
   /**
    * Register a route (with performance optimizations)
    */
-  private addRoute(
-    method: HTTPMethod,
-    path: string,
-    ...handlers: (Handler | Middleware)[]
-  ): this {
-    const fullPath = this.config.prefix
-      ? `${this.config.prefix}${path}`
-      : path;
+  private addRoute(method: HTTPMethod, path: string, ...args: RouteArgs): this {
+    const fullPath = joinPaths(this.config.prefix, path);
+
+    // Optional route options come first
+    let options: RouteOptions = {};
+    let handlers = args as (Handler | Middleware)[];
+    if (typeof args[0] === 'object' && args[0] !== null) {
+      options = args[0];
+      handlers = args.slice(1) as (Handler | Middleware)[];
+    }
 
     // Last function is the handler, everything else is middleware
     const handler = handlers[handlers.length - 1] as Handler;
     const middleware = handlers.slice(0, -1) as Middleware[];
 
-    // PERFORMANCE: Combine global + route middleware
+    // PERFORMANCE: Combine global + route middleware (+ schema validation last)
     const allMiddleware = [
       ...(this.config.middleware || []),
+      ...(options.middleware || []),
       ...middleware,
     ];
 
+    if (options.schema && hasRequestSchema(options.schema)) {
+      // Parse uploads with default limits unless a multipart() middleware already did
+      if (options.schema.files) {
+        allMiddleware.push(multipart());
+      }
+      allMiddleware.push(validate(options.schema));
+    }
+
     // PERFORMANCE: Pre-compile the entire middleware chain
-    const compiledHandler = this.compileMiddlewareChain(allMiddleware, handler);
+    let compiledHandler = this.compileMiddlewareChain(allMiddleware, handler);
+
+    // Response schema: compile its serializer once, install it per request
+    if (options.schema?.response) {
+      const serializer = createResponseSerializer(options.schema.response);
+      const chain = compiledHandler;
+      compiledHandler = (ctx: Context) => {
+        ctx.serializer = serializer;
+        return chain(ctx);
+      };
+    }
 
-    const route: Route = {
+    this.indexRoute({
       method,
       path: fullPath,
+      name: options.name,
       handler: compiledHandler, // Use pre-compiled handler
       middleware: [], // Empty - already compiled into handler
-    };
+      schema: options.schema,
+      meta: options.meta,
+    });
+
+    return this;
+  }
+
+  /**
+   * Add a route to the lookup structures and propagate it to parent routers
+   */
+  private indexRoute(route: Route): void {
+    if (route.name) {
+      const existing = this.namedRoutes.get(route.name);
+      // The same name may cover several methods of one path (e.g. all())
+      if (existing && existing.path !== route.path) {
+        throw new Error(
+          `Duplicate route name "${route.name}" (${existing.path} and ${route.path})`
+        );
+      }
+      this.namedRoutes.set(route.name, route);
+    }
 
-    // Keep backwards compatibility
     this.routes.push(route);
 
     // PERFORMANCE: Separate static and dynamic routes
-    const isDynamic = this.isDynamicPath(fullPath);
-
-    if (!isDynamic) {
+    if (!isDynamicPattern(route.path)) {
       // Static route - add to O(1) lookup map
-      if (!this.staticRoutes.has(fullPath)) {
-        this.staticRoutes.set(fullPath, new Map());
+      if (!this.staticRoutes.has(route.path)) {
+        this.staticRoutes.set(route.path, new Map());
       }
-      this.staticRoutes.get(fullPath)!.set(method, route);
+      this.staticRoutes.get(route.path)!.set(route.method, route);
     } else {
-      // Dynamic route - pre-compile pattern
-      const parts = this.splitPathParts(fullPath);
-      const paramIndices: number[] = [];
+      // Dynamic route - insert pattern into radix tree
+      this.dynamicRoutes.insert(route.method, route.path, route);
+    }
 
-      for (let i = 0; i < parts.length; i++) {
-        if (parts[i].charCodeAt(0) === 58) { // ':' character
-          paramIndices.push(i);
-        }
-      }
+    // Invalidate hot path cache (a new route may take priority)
+    this.lastRouteKey = '';
+    this.lastRoute = null;
 
-      this.dynamicRoutes.push({
-        ...route,
-        compiled: {
-          parts,
-          isDynamic: true,
-          paramIndices,
-        },
-      });
+    for (const listener of this.mountListeners) {
+      listener(route);
     }
+  }
 
-    return this;
+  /**
+   * Register a route from a declarative definition
+   * Schemas are validated automatically and kept on the route (with meta) for tooling
+   */
+  route<TSchema extends RouteSchema = RouteSchema>(definition: RouteDefinition<TSchema>): this {
+    const { method, path, handler, ...options } = definition;
+    return this.addRoute(method, path, options, handler as Handler);
   }
 
   /**
    * HTTP method shortcuts
+   * The handler's context includes what the middleware before it adds (Middleware<TAdds>).
+   * Argument lists built at runtime can be passed as RouteArgs.
    */
-  get(path: string, ...handlers: (Handler | Middleware)[]): this {
-    return this.addRoute('GET', path, ...handlers);
+  get<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  get(path: string, ...args: RouteArgs): this;
+  get(path: string, ...args: RouteArgs): this {
+    return this.addRoute('GET', path, ...args);
   }
 
-  post(path: string, ...handlers: (Handler | Middleware)[]): this {
-    return this.addRoute('POST', path, ...handlers);
+  post<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  post(path: string, ...args: RouteArgs): this;
+  post(path: string, ...args: RouteArgs): this {
+    return this.addRoute('POST', path, ...args);
   }
 
-  put(path: string, ...handlers: (Handler | Middleware)[]): this {
-    return this.addRoute('PUT', path, ...handlers);
+  put<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  put(path: string, ...args: RouteArgs): this;
+  put(path: string, ...args: RouteArgs): this {
+    return this.addRoute('PUT', path, ...args);
   }
 
-  patch(path: string, ...handlers: (Handler | Middleware)[]): this {
-    return this.addRoute('PATCH', path, ...handlers);
+  patch<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  patch(path: string, ...args: RouteArgs): this;
+  patch(path: string, ...args: RouteArgs): this {
+    return this.addRoute('PATCH', path, ...args);
   }
 
-  delete(path: string, ...handlers: (Handler | Middleware)[]): this {
-    return this.addRoute('DELETE', path, ...handlers);
+  delete<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  delete(path: string, ...args: RouteArgs): this;
+  delete(path: string, ...args: RouteArgs): this {
+    return this.addRoute('DELETE', path, ...args);
   }
 
-  options(path: string, ...handlers: (Handler | Middleware)[]): this {
-    return this.addRoute('OPTIONS', path, ...handlers);
+  options<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  options(path: string, ...args: RouteArgs): this;
+  options(path: string, ...args: RouteArgs): this {
+    return this.addRoute('OPTIONS', path, ...args);
   }
 
-  head(path: string, ...handlers: (Handler | Middleware)[]): this {
-    return this.addRoute('HEAD', path, ...handlers);
+  head<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  head(path: string, ...args: RouteArgs): this;
+  head(path: string, ...args: RouteArgs): this {
+    return this.addRoute('HEAD', path, ...args);
   }
 
   /**
    * Register all HTTP methods for a path
    */
-  all(path: string, ...handlers: (Handler | Middleware)[]): this {
+  all<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<{}, TLeading>): this;
+  all(path: string, ...args: RouteArgs): this;
+  all(path: string, ...args: RouteArgs): this {
     const methods: HTTPMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
     methods.forEach((method) => {
-      this.addRoute(method, path, ...handlers);
+      this.addRoute(method, path, ...args);
     });
     return this;
   }
 
   /**
    * Mount another router with prefix
+   *
+   * The child keeps its own middleware stack. Middleware registered on this
+   * router before the mount wraps every child route, including routes added
+   * to the child after it was mounted.
    */
   use(prefix: string, router: Router): this;
   use(middleware: Middleware): this;
@@ -222,17 +295,25 @@ export class Router {
       }
       this.config.middleware.push(prefixOrMiddleware);
     } else if (router) {
-      // Nested router
-      const prefix = this.config.prefix
-        ? `${this.config.prefix}${prefixOrMiddleware}`
-        : prefixOrMiddleware;
+      if (router === this) {
+        throw new Error('Cannot mount a router into itself');
+      }
 
-      router.routes.forEach((route) => {
-        this.routes.push({
+      // Nested router - re-index child routes under the prefix
+      const prefix = joinPaths(this.config.prefix, prefixOrMiddleware);
+      const middleware = [...(this.config.middleware || [])];
+
+      const mount = (route: Route) => {
+        this.indexRoute({
           ...route,
-          path: `${prefix}${route.path}`,
+          path: joinPaths(prefix, route.path),
+          // Parent middleware wraps the child's compiled chain
+          handler: this.compileMiddlewareChain(middleware, route.handler),
         });
-      });
+      };
+
+      router.routes.forEach(mount);
+      router.mountListeners.push(mount);
     }
 
     return this;
@@ -264,58 +345,87 @@ export class Router {
       }
     }
 
-    // PERFORMANCE: Only search dynamic routes
-    const pathParts = this.splitPathParts(path);
-    const pathLength = pathParts.length;
-
-    for (const compiledRoute of this.dynamicRoutes) {
-      if (compiledRoute.method !== method) {
-        continue;
-      }
-
-      const { parts } = compiledRoute.compiled;
-
-      // Quick length check
-      if (parts.length !== pathLength) {
-        continue;
-      }
-
-      // Match parts and extract params
-      const params: Record<string, string> = {};
-      let matches = true;
+    // PERFORMANCE: Only search dynamic routes - radix tree lookup
+    const match = this.dynamicRoutes.find(method, path);
+    if (match) {
+      // Cache dynamic route too
+      this.lastRouteKey = routeKey;
+      this.lastRoute = match.value;
+      this.lastParams = match.params;
+      return { route: match.value, params: match.params };
+    }
 
-      for (let i = 0; i < parts.length; i++) {
-        const part = parts[i];
+    // Tolerate a single trailing slash (`/users/1/` matches `/users/:id`)
+    if (path.length > 1 && path.charCodeAt(path.length - 1) === 47) {
+      return this.findRoute(method, path.slice(0, -1));
+    }
 
-        if (part.charCodeAt(0) === 58) { // ':' - dynamic segment
-          const paramName = part.slice(1);
-          params[paramName] = pathParts[i];
-        } else if (part !== pathParts[i]) {
-          matches = false;
-          break;
-        }
-      }
+    return null;
+  }
 
-      if (matches) {
-        // Cache dynamic route too
-        this.lastRouteKey = routeKey;
-        this.lastRoute = compiledRoute;
-        this.lastParams = params;
-        return { route: compiledRoute, params };
+  /**
+   * Get the methods a path can be requested with (for 405 and OPTIONS responses)
+   * Includes implicit HEAD (when GET exists) and OPTIONS
+   * Returns an empty array if no route matches the path at all
+   */
+  allowedMethods(path: string): HTTPMethod[] {
+    const methods = new Set<HTTPMethod>();
+    this.staticRoutes.get(path)?.forEach((_, method) => methods.add(method));
+    this.dynamicRoutes.collectMethods(path, methods);
+
+    if (methods.size === 0) {
+      if (path.length > 1 && path.charCodeAt(path.length - 1) === 47) {
+        return this.allowedMethods(path.slice(0, -1));
       }
+      return [];
     }
 
-    return null;
+    if (methods.has('GET')) methods.add('HEAD');
+    methods.add('OPTIONS');
+
+    return METHOD_ORDER.filter((method) => methods.has(method));
   }
 
   /**
    * Execute route handler (PERFORMANCE OPTIMIZED - middleware pre-compiled)
+   *
+   * - HEAD requests fall back to the GET handler (the server strips the body)
+   * - OPTIONS requests without an explicit route answer 204 with an Allow header
+   * - Known paths requested with an unregistered method answer 405
+   * - Unknown paths run the `notFound` handler when configured, or answer 404
    */
   async handle(ctx: Context): Promise<void> {
-    const match = this.findRoute(ctx.method, ctx.path);
+    let match = this.findRoute(ctx.method, ctx.path);
+
+    if (!match && ctx.method === 'HEAD') {
+      match = this.findRoute('GET', ctx.path);
+    }
 
     if (!match) {
-      throw new HTTPError(404, `Route not found: ${ctx.method} ${ctx.path}`);
+      const allowed = this.allowedMethods(ctx.path);
+
+      if (allowed.length === 0) {
+        if (this.config.notFound) {
+          // Router middleware (CORS, logging) runs for unmatched requests too
+          await this.compileMiddlewareChain(this.config.middleware || [], this.config.notFound)(ctx);
+          return;
+        }
+        throw new NotFoundError(`Route not found: ${ctx.method} ${ctx.path}`);
+      }
+
+      ctx.setHeader('Allow', allowed.join(', '));
+
+      if (ctx.method === 'OPTIONS') {
+        // Run router middleware (e.g. CORS) around the implicit response
+        const respond = this.compileMiddlewareChain(this.config.middleware || [], (ctx) => {
+          ctx.status(204);
+          ctx.res.end();
+        });
+        await respond(ctx);
+        return;
+      }
+
+      throw new MethodNotAllowedError(allowed, `Method ${ctx.method} not allowed for ${ctx.path}`);
     }
 
     const { route, params } = match;
@@ -328,6 +438,37 @@ export class Router {
     await route.handler(ctx);
   }
 
+  /**
+   * Build the URL of a named route
+   * Names keep working through group and mount prefixes
+   *
+   * @example
+   * router.get('/users/:id', { name: 'user.show' }, handler);
+   * router.url('user.show', { id: 42 }, { query: { tab: 'posts' } }); // '/users/42?tab=posts'
+   */
+  url(
+    name: string,
+    params: Record<string, string | number> = {},
+    options: { query?: Record<string, QueryValue> } = {}
+  ): string {
+    const route = this.namedRoutes.get(name);
+    if (!route) {
+      throw new Error(`Unknown route name "${name}"`);
+    }
+
+    const path = buildPath(route.path, params);
+    const query = options.query ? stringifyQuery(options.query) : '';
+
+    return query ? `${path}?${query}` : path;
+  }
+
+  /**
+   * Get a snapshot of the router's middleware (applied to routes registered now)
+   */
+  getMiddleware(): Middleware[] {
+    return [...(this.config.middleware || [])];
+  }
+
   /**
    * Get all registered routes
    */
@@ -339,17 +480,12 @@ export class Router {
    * Group routes with shared prefix and middleware
    */
   group(prefix: string, fn: (router: Router) => void): this {
-    const groupRouter = new Router({
-      prefix: this.config.prefix
-        ? `${this.config.prefix}${prefix}`
-        : prefix,
-      middleware: this.config.middleware,
-    });
+    const groupRouter = new Router();
 
+    // Mounted before fn() runs - routes propagate as they are added
+    this.use(prefix, groupRouter);
     fn(groupRouter);
 
-    this.routes.push(...groupRouter.routes);
-
     return this;
   }
 }
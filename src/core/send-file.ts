@@ -0,0 +1,254 @@
+/**
+ * File responses
+ * Conditional requests (ETag / Last-Modified), byte ranges and precompressed
+ * .br/.gz siblings. Adapters send the file body themselves (see FileBody).
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, type Stats } from 'fs';
+import { stat } from 'fs/promises';
+import { isAbsolute, resolve, sep } from 'path';
+import type { Context } from './types.js';
+import { HTTPError } from './types.js';
+import { ForbiddenError, NotFoundError } from './errors.js';
+import type { FileBody } from '../adapters/types.js';
+import { getContentType } from '../utils/mime.js';
+import { negotiateEncoding } from './negotiation.js';
+
+/**
+ * ctx.sendFile() options
+ */
+export interface SendFileOptions {
+  root?: string; // Resolve `path` inside this directory (never outside it)
+  maxAge?: number; // Cache-Control max-age in seconds (default: 0)
+  immutable?: boolean; // Cache-Control immutable - for fingerprinted assets
+  etag?: 'weak' | 'strong' | false; // weak: size + mtime, strong: content hash (default: 'weak')
+  lastModified?: boolean; // Send Last-Modified (default: true)
+  precompressed?: boolean; // Serve .br/.gz siblings when the client accepts them (default: true)
+  acceptRanges?: boolean; // Answer Range requests with 206 (default: true)
+  dotfiles?: 'ignore' | 'allow' | 'deny'; // Files under `root` starting with a dot: 404, serve or 403 (default: 'ignore')
+}
+
+/**
+ * Precompressed variants, in order of preference
+ */
+const ENCODINGS = [
+  { encoding: 'br', extension: '.br' },
+  { encoding: 'gzip', extension: '.gz' },
+] as const;
+
+/**
+ * Resolve a request path inside a root directory
+ * Throws 400 for malformed paths and 403 for paths escaping the root.
+ * Returns undefined for dotfiles when they are ignored.
+ */
+export function resolveInside(
+  root: string,
+  path: string,
+  dotfiles: SendFileOptions['dotfiles'] = 'ignore'
+): string | undefined {
+  if (path.includes('\0')) {
+    throw new HTTPError(400, 'Invalid path');
+  }
+
+  const segments = path.split(/[/\\]+/);
+  if (segments.includes('..')) {
+    throw new ForbiddenError('Forbidden');
+  }
+
+  if (dotfiles !== 'allow' && segments.some((segment) => segment.startsWith('.'))) {
+    if (dotfiles === 'deny') throw new ForbiddenError('Forbidden');
+    return undefined;
+  }
+
+  const base = resolve(root);
+  const full = resolve(base, `.${sep}${path}`);
+  if (full !== base && !full.startsWith(base + sep)) {
+    throw new ForbiddenError('Forbidden');
+  }
+  return full;
+}
+
+/**
+ * Stat a regular file - undefined if it doesn't exist or is not a file
+ */
+export async function statFile(path: string): Promise<Stats | undefined> {
+  try {
+    const stats = await stat(path);
+    return stats.isFile() ? stats : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// PERFORMANCE: strong ETags are hashed once per file version
+const MAX_HASHES = 1000;
+const hashes = new Map<string, string>();
+
+async function strongETag(path: string, stats: Stats): Promise<string> {
+  const key = `${path}:${stats.size}:${stats.mtimeMs}`;
+  let etag = hashes.get(key);
+  if (!etag) {
+    const hash = createHash('sha1');
+    for await (const chunk of createReadStream(path)) {
+      hash.update(chunk as Buffer);
+    }
+    etag = `"${hash.digest('base64url')}"`;
+
+    if (hashes.size >= MAX_HASHES) {
+      hashes.delete(hashes.keys().next().value!);
+    }
+    hashes.set(key, etag);
+  }
+  return etag;
+}
+
+function weakETag(stats: Stats): string {
+  return `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+/**
+ * Compare If-None-Match against an ETag (weak comparison)
+ */
+export function matchesETag(header: string, etag: string): boolean {
+  if (header.trim() === '*') return true;
+  const opaque = etag.replace(/^W\//, '');
+  return header.split(',').some((tag) => tag.trim().replace(/^W\//, '') === opaque);
+}
+
+/**
+ * Parse a single byte range - undefined means "send the whole file"
+ * (no Range, multiple ranges, or a failed If-Range)
+ */
+function parseRange(
+  header: string,
+  size: number
+): { start: number; end: number } | 'unsatisfiable' | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    if (match[2] && Number(match[2]) < start) return undefined;
+  }
+
+  return start >= size ? 'unsatisfiable' : { start, end };
+}
+
+/**
+ * Send a file with caching headers, conditional 304s and 206 ranges
+ *
+ * @param writeBody - Hands the file body to the response (context specific)
+ */
+export async function sendFile(
+  ctx: Context,
+  path: string,
+  options: SendFileOptions,
+  writeBody: (file: FileBody) => void
+): Promise<void> {
+  let filePath: string | undefined;
+  if (options.root !== undefined) {
+    filePath = resolveInside(options.root, path, options.dotfiles);
+  } else if (isAbsolute(path)) {
+    filePath = path;
+  } else {
+    throw new TypeError('sendFile() needs an absolute path or options.root');
+  }
+
+  const original = filePath && (await statFile(filePath));
+  if (!filePath || !original) {
+    throw new NotFoundError('Not Found');
+  }
+
+  // Pick a precompressed sibling the client accepts
+  let bodyPath = filePath;
+  let stats = original;
+  let contentEncoding: string | undefined;
+  if (options.precompressed ?? true) {
+    ctx.appendHeader('Vary', 'Accept-Encoding');
+    const acceptEncoding = (ctx.headers['accept-encoding'] as string | undefined) || '';
+
+    for (const { encoding, extension } of ENCODINGS) {
+      if (negotiateEncoding(acceptEncoding, [encoding]) !== encoding) continue;
+
+      const variant = await statFile(filePath + extension);
+      if (variant) {
+        bodyPath = filePath + extension;
+        stats = variant;
+        contentEncoding = encoding;
+        break;
+      }
+    }
+  }
+
+  const etagMode = options.etag ?? 'weak';
+  const etag =
+    etagMode === 'strong' ? await strongETag(bodyPath, stats) : etagMode === 'weak' ? weakETag(stats) : undefined;
+  const lastModified = (options.lastModified ?? true) ? original.mtime.toUTCString() : undefined;
+
+  ctx.setHeader('Cache-Control', `public, max-age=${options.maxAge ?? 0}${options.immutable ? ', immutable' : ''}`);
+  if (etag) ctx.setHeader('ETag', etag);
+  if (lastModified) ctx.setHeader('Last-Modified', lastModified);
+
+  // Conditional GET - If-None-Match takes precedence over If-Modified-Since
+  const ifNoneMatch = ctx.headers['if-none-match'] as string | undefined;
+  const ifModifiedSince = ctx.headers['if-modified-since'] as string | undefined;
+  const notModified = ifNoneMatch
+    ? etag !== undefined && matchesETag(ifNoneMatch, etag)
+    : ifModifiedSince !== undefined &&
+      lastModified !== undefined &&
+      Math.floor(original.mtimeMs / 1000) * 1000 <= Date.parse(ifModifiedSince);
+
+  if (notModified && (ctx.method === 'GET' || ctx.method === 'HEAD')) {
+    ctx.status(304);
+    ctx.res.end();
+    return;
+  }
+
+  ctx.setHeader('Content-Type', getContentType(filePath));
+
+  let start = 0;
+  let end = stats.size - 1;
+  let status = 200;
+
+  if (options.acceptRanges ?? true) {
+    ctx.setHeader('Accept-Ranges', 'bytes');
+
+    const rangeHeader = ctx.headers.range as string | undefined;
+    const ifRange = ctx.headers['if-range'] as string | undefined;
+    // If-Range: only honour the range if the file is unchanged (strong validators only)
+    const rangeValid =
+      !ifRange ||
+      (ifRange.startsWith('"') ? ifRange === etag : lastModified !== undefined && ifRange === lastModified);
+
+    const range = rangeHeader && rangeValid ? parseRange(rangeHeader, stats.size) : undefined;
+    if (range === 'unsatisfiable') {
+      ctx.setHeader('Content-Range', `bytes */${stats.size}`);
+      throw new HTTPError(416, 'Range Not Satisfiable');
+    }
+    if (range) {
+      ({ start, end } = range);
+      status = 206;
+      ctx.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+    }
+  }
+
+  ctx.status(status);
+  ctx.setHeader('Content-Length', String(end - start + 1));
+  if (contentEncoding) ctx.setHeader('Content-Encoding', contentEncoding);
+
+  if (stats.size === 0) {
+    ctx.res.end('');
+    return;
+  }
+  writeBody({ path: bodyPath, start, end });
+}
@@ -0,0 +1,371 @@
+/**
+ * Response serialization
+ * Compiles Zod response schemas into specialised JSON stringifiers
+ *
+ * - Development: responses are strictly validated, unknown fields fail loudly
+ * - Production: the compiled stringifier only emits declared fields
+ */
+
+import type { ZodSchema } from 'zod';
+import type { ResponseSerializer, ValidationError } from './types.js';
+import { HTTPError } from './types.js';
+import { toValidationErrors } from '../middleware/validation.js';
+
+/**
+ * Compiled stringifier for a single schema
+ */
+export type Stringifier = (value: unknown) => string;
+
+/**
+ * Default JSON stringification (no schema)
+ */
+export function stringifyJSON(value: unknown): string {
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Options for response serializers
+ */
+export interface ResponseSerializerOptions {
+  strict?: boolean; // Validate before serializing (default: NODE_ENV !== 'production')
+}
+
+/**
+ * Create a response serializer from a route's response schema
+ * A single schema covers 2xx responses, a status map covers the listed statuses.
+ * Returns undefined for statuses without a schema (e.g. error responses).
+ *
+ * @example
+ * const serialize = createResponseSerializer(z.object({ id: z.string() }));
+ * serialize({ id: '1', passwordHash: '...' }, 200); // '{"id":"1"}' in production
+ */
+export function createResponseSerializer(
+  response: ZodSchema | Record<number, ZodSchema>,
+  options: ResponseSerializerOptions = {}
+): ResponseSerializer {
+  const strict = options.strict ?? process.env.NODE_ENV !== 'production';
+
+  const compile = (schema: ZodSchema) => {
+    const stringify = compileStringifier(schema);
+    if (!strict) return stringify;
+
+    return (value: unknown) => {
+      assertResponse(schema, value);
+      return stringify(value);
+    };
+  };
+
+  if ((response as any)._def) {
+    const serialize = compile(response as ZodSchema);
+    return (data, status) => (status >= 200 && status < 300 ? serialize(data) : undefined);
+  }
+
+  const byStatus = new Map<number, Stringifier>();
+  for (const [status, schema] of Object.entries(response as Record<number, ZodSchema>)) {
+    byStatus.set(Number(status), compile(schema));
+  }
+  return (data, status) => byStatus.get(status)?.(data);
+}
+
+/**
+ * Strictly validate a response value
+ * Reports schema mismatches as well as fields the schema does not declare
+ */
+export function validateResponse(schema: ZodSchema, value: unknown): ValidationError[] {
+  const result = schema.safeParse(value);
+  const errors = result.success ? [] : toValidationErrors(result.error, 'response');
+
+  collectUnknownKeys((schema as any)._def, value, ['response'], errors);
+  return errors;
+}
+
+/**
+ * Throw a 500 HTTPError if a response does not match its schema
+ */
+export function assertResponse(schema: ZodSchema, value: unknown): void {
+  const errors = validateResponse(schema, value);
+  if (errors.length > 0) {
+    throw new HTTPError(500, 'Response validation failed', { errors });
+  }
+}
+
+/**
+ * Unwrap schema wrappers that don't change the serialized shape
+ */
+function unwrap(def: any): any {
+  for (;;) {
+    switch (def.typeName) {
+      case 'ZodOptional':
+      case 'ZodDefault':
+      case 'ZodCatch':
+      case 'ZodReadonly':
+        def = def.innerType._def;
+        break;
+      case 'ZodBranded':
+      case 'ZodPromise':
+        def = def.type._def;
+        break;
+      case 'ZodEffects':
+        def = def.schema._def;
+        break;
+      case 'ZodPipeline':
+        def = def.in._def;
+        break;
+      case 'ZodLazy':
+        def = def.getter()._def;
+        break;
+      default:
+        return def;
+    }
+  }
+}
+
+/**
+ * Check if an object schema keeps keys it does not declare
+ */
+function keepsUnknownKeys(def: any): boolean {
+  return def.unknownKeys === 'passthrough' || (def.catchall && def.catchall._def.typeName !== 'ZodNever');
+}
+
+/**
+ * Find the union option a value belongs to
+ */
+function matchOption(options: ZodSchema[], value: unknown): ZodSchema | undefined {
+  return options.find((option) => option.safeParse(value).success);
+}
+
+function collectUnknownKeys(
+  rawDef: any,
+  value: unknown,
+  path: Array<string | number>,
+  errors: ValidationError[]
+): void {
+  if (value === null || typeof value !== 'object') return;
+  const def = unwrap(rawDef);
+
+  switch (def.typeName) {
+    case 'ZodNullable':
+      collectUnknownKeys(def.innerType._def, value, path, errors);
+      return;
+
+    case 'ZodObject': {
+      const shape = def.shape();
+      for (const key of Object.keys(value)) {
+        if (key in shape) {
+          collectUnknownKeys(shape[key]._def, (value as any)[key], [...path, key], errors);
+        } else if (!keepsUnknownKeys(def) && (value as any)[key] !== undefined) {
+          errors.push({
+            field: [...path, key].join('.'),
+            message: `Unrecognized key "${key}" is not declared in the response schema`,
+            code: 'unrecognized_keys',
+          });
+        }
+      }
+      return;
+    }
+
+    case 'ZodArray':
+      if (Array.isArray(value)) {
+        value.forEach((item, i) => collectUnknownKeys(def.type._def, item, [...path, i], errors));
+      }
+      return;
+
+    case 'ZodTuple':
+      if (Array.isArray(value)) {
+        value.forEach((item, i) => {
+          const itemSchema = def.items[i] ?? def.rest;
+          if (itemSchema) collectUnknownKeys(itemSchema._def, item, [...path, i], errors);
+        });
+      }
+      return;
+
+    case 'ZodRecord':
+      for (const [key, item] of Object.entries(value)) {
+        collectUnknownKeys(def.valueType._def, item, [...path, key], errors);
+      }
+      return;
+
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion': {
+      const option = matchOption([...def.options], value);
+      if (option) collectUnknownKeys((option as any)._def, value, path, errors);
+      return;
+    }
+
+    case 'ZodIntersection':
+      collectUnknownKeys(mergeIntersection(def) ?? { typeName: 'ZodAny' }, value, path, errors);
+      return;
+  }
+}
+
+/**
+ * Merge an intersection of two objects into a single object definition
+ */
+function mergeIntersection(def: any): any | undefined {
+  const left = unwrap(def.left._def);
+  const right = unwrap(def.right._def);
+  const leftDef = left.typeName === 'ZodIntersection' ? mergeIntersection(left) : left;
+  const rightDef = right.typeName === 'ZodIntersection' ? mergeIntersection(right) : right;
+
+  if (leftDef?.typeName !== 'ZodObject' || rightDef?.typeName !== 'ZodObject') {
+    return undefined;
+  }
+
+  const shape = { ...leftDef.shape(), ...rightDef.shape() };
+  return {
+    typeName: 'ZodObject',
+    shape: () => shape,
+    unknownKeys: keepsUnknownKeys(leftDef) || keepsUnknownKeys(rightDef) ? 'passthrough' : 'strip',
+  };
+}
+
+/**
+ * Compile a Zod schema into a stringifier (PERFORMANCE)
+ * Object keys are pre-quoted and unknown properties are dropped.
+ */
+export function compileStringifier(schema: ZodSchema): Stringifier {
+  return compileDef((schema as any)._def);
+}
+
+function compileDef(rawDef: any): Stringifier {
+  // Lazy schemas may be recursive - compile on first use
+  if (rawDef.typeName === 'ZodLazy') {
+    let compiled: Stringifier | undefined;
+    return (value) => (compiled ||= compileDef(rawDef.getter()._def))(value);
+  }
+
+  const def = unwrap(rawDef);
+
+  switch (def.typeName) {
+    case 'ZodString':
+      return (value) => (typeof value === 'string' ? JSON.stringify(value) : stringifyJSON(value));
+
+    case 'ZodNumber':
+      return (value) =>
+        typeof value === 'number' ? (Number.isFinite(value) ? String(value) : 'null') : stringifyJSON(value);
+
+    case 'ZodBoolean':
+      return (value) => (value === true ? 'true' : value === false ? 'false' : stringifyJSON(value));
+
+    case 'ZodBigInt':
+      return (value) => (typeof value === 'bigint' ? value.toString() : stringifyJSON(value));
+
+    case 'ZodNullable': {
+      const inner = compileDef(def.innerType._def);
+      return (value) => (value === null || value === undefined ? 'null' : inner(value));
+    }
+
+    case 'ZodObject':
+      return compileObject(def);
+
+    case 'ZodArray': {
+      const item = compileDef(def.type._def);
+      return (value) => {
+        if (!Array.isArray(value)) return stringifyJSON(value);
+        let result = '[';
+        for (let i = 0; i < value.length; i++) {
+          if (i > 0) result += ',';
+          result += value[i] === undefined ? 'null' : item(value[i]);
+        }
+        return result + ']';
+      };
+    }
+
+    case 'ZodTuple': {
+      const items: Stringifier[] = def.items.map((item: ZodSchema) => compileDef((item as any)._def));
+      const rest = def.rest ? compileDef(def.rest._def) : undefined;
+      return (value) => {
+        if (!Array.isArray(value)) return stringifyJSON(value);
+        const parts = value.map((item, i) => {
+          const stringify = items[i] ?? rest;
+          if (item === undefined) return 'null';
+          return stringify ? stringify(item) : stringifyJSON(item);
+        });
+        return `[${parts.join(',')}]`;
+      };
+    }
+
+    case 'ZodRecord': {
+      const item = compileDef(def.valueType._def);
+      return (value) => {
+        if (value === null || typeof value !== 'object') return stringifyJSON(value);
+        const parts: string[] = [];
+        for (const [key, itemValue] of Object.entries(value)) {
+          if (itemValue === undefined) continue;
+          parts.push(`${JSON.stringify(key)}:${item(itemValue)}`);
+        }
+        return `{${parts.join(',')}}`;
+      };
+    }
+
+    case 'ZodDiscriminatedUnion': {
+      const byValue = new Map<unknown, Stringifier>();
+      for (const [discriminatorValue, option] of def.optionsMap) {
+        byValue.set(discriminatorValue, compileDef(option._def));
+      }
+      return (value) => {
+        const stringify = value && typeof value === 'object'
+          ? byValue.get((value as any)[def.discriminator])
+          : undefined;
+        return stringify ? stringify(value) : stringifyJSON(value);
+      };
+    }
+
+    case 'ZodUnion': {
+      const options: ZodSchema[] = def.options;
+      const compiled = options.map((option) => compileDef((option as any)._def));
+      return (value) => {
+        // PERFORMANCE: primitives need no key filtering
+        if (value === null || typeof value !== 'object') return stringifyJSON(value);
+        const index = options.findIndex((option) => option.safeParse(value).success);
+        return index === -1 ? stringifyJSON(value) : compiled[index](value);
+      };
+    }
+
+    case 'ZodIntersection': {
+      const merged = mergeIntersection(def);
+      return merged ? compileObject(merged) : stringifyJSON;
+    }
+
+    default:
+      // Literals, enums, dates, any/unknown - native stringify is already exact
+      return stringifyJSON;
+  }
+}
+
+function compileObject(def: any): Stringifier {
+  const shape = def.shape();
+  const fields = Object.keys(shape).map((key) => ({
+    key,
+    prefix: `${JSON.stringify(key)}:`,
+    stringify: compileDef(shape[key]._def),
+  }));
+  const passthrough = keepsUnknownKeys(def);
+  const known = new Set(Object.keys(shape));
+
+  return (value) => {
+    if (value === null || typeof value !== 'object') return stringifyJSON(value);
+    const obj = value as Record<string, unknown>;
+
+    let result = '{';
+    let first = true;
+    for (let i = 0; i < fields.length; i++) {
+      const field = fields[i];
+      const fieldValue = obj[field.key];
+      if (fieldValue === undefined) continue;
+      result += first ? field.prefix : `,${field.prefix}`;
+      result += field.stringify(fieldValue);
+      first = false;
+    }
+
+    if (passthrough) {
+      for (const key of Object.keys(obj)) {
+        if (known.has(key) || obj[key] === undefined) continue;
+        result += `${first ? '' : ','}${JSON.stringify(key)}:${stringifyJSON(obj[key])}`;
+        first = false;
+      }
+    }
+
+    return result + '}';
+  };
+}
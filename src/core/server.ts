@@ -1,15 +1,52 @@
 import { createServer, Server as HTTPServer } from 'http';
-import type { ServerConfig, Context } from './types.js';
+import type { Readable } from 'stream';
+import type {
+  ServerConfig,
+  Context,
+  RouteArgs,
+  TypedRouteArgs,
+  RouteDefinition,
+  RouteSchema,
+  RouteOptions,
+  Middleware,
+  ListenHook,
+  ShutdownHook,
+  RequestStartHook,
+  RequestEndHook,
+} from './types.js';
 import { Router } from './router.js';
-import { createContext, createAdapterContext, parseBody } from './context.js';
-import { HTTPError } from './types.js';
+import { createContext, createAdapterContext, type ContextOptions, type ResponseBuffer } from './context.js';
+import { BodyParserRegistry, type BodyParser, type BodyParserOptions } from './body-parser.js';
+import { SerializerRegistry, type ContentSerializer } from './negotiation.js';
 import { ProtocolManager, type ProtocolManagerConfig } from '../protocols/manager.js';
-import { initializeTracing, shutdownTracing } from '../observability/tracer.js';
-import { initializeLogger } from '../observability/logger.js';
-import { initializeMetrics } from '../observability/metrics.js';
-import { traceMiddleware } from '../observability/middleware.js';
-import { initializeProfiling, profilingMiddleware } from '../observability/profiler/index.js';
+import type { Operation } from '../protocols/types.js';
+import { shutdownTracing } from '../observability/tracer.js';
+import { observabilityPlugin } from '../observability/plugin.js';
 import { createAdapter, type ServerAdapter } from '../adapters/index.js';
+import type { RawRequestInfo, RawResponseData, WebSocketSession, CloseOptions } from '../adapters/types.js';
+import { RouteTree } from './route-tree.js';
+import { isMultipart } from './multipart.js';
+import { createProblem, PROBLEM_CONTENT_TYPE } from './problem.js';
+import {
+  nextPlugin,
+  middlewareSlot,
+  decoratorMiddleware,
+  checkDecorator,
+  type Plugin,
+  type PendingPlugin,
+} from './plugin.js';
+import { ForbiddenError } from './errors.js';
+import { Container, disposeRequestScope } from './container.js';
+import { createInjectRequest, readInjectResponse, type InjectOptions, type InjectResponse } from './inject.js';
+import {
+  createWebSocketSession,
+  runUpgradeMiddleware,
+  type WebSocketHandlers,
+  type WebSocketRoute,
+} from './websocket.js';
+import { generateOpenAPI, renderDocsPage, type OpenAPIDocument } from '../openapi/index.js';
+import { serveStatic, type StaticOptions } from '../middleware/static.js';
+import { toValidationErrors, validationError } from '../middleware/validation.js';
 
 /**
  * RamAPI Server - The core HTTP server
@@ -18,13 +55,40 @@ import { createAdapter, type ServerAdapter } from '../adapters/index.js';
  * Phase 3.3: Multiple HTTP adapters (Node.js http, uWebSockets.js)
  * Phase 3.4: Smart adapter selection - uWebSockets by default with intelligent fallback
  */
-export class Server {
+export class Server<TExtra extends object = {}> {
   private router: Router;
   private config: ServerConfig;
   private httpServer?: HTTPServer;
   private protocolManager?: ProtocolManager;
+  private wsRoutes = new RouteTree<WebSocketRoute>(); // WebSocket routes (matched on upgrade)
+  private bodyParsers: BodyParserRegistry;
+  private serializers = new SerializerRegistry();
+  private contextOptions: ContextOptions;
   private adapter?: ServerAdapter; // Phase 3.3: Server adapter
   private useAdapter: boolean; // Phase 3.3: Flag to use adapter pattern
+  private hooks = {
+    listen: [] as ListenHook[],
+    shutdown: [] as ShutdownHook[],
+    requestStart: [] as RequestStartHook[],
+    requestEnd: [] as RequestEndHook[],
+  };
+  private closing?: Promise<void>; // Set once close() is called - later calls share it
+  private signalHandlers = new Map<NodeJS.Signals, () => void>();
+
+  /**
+   * Dependencies for ctx.resolve() - shared by plugins, REST, GraphQL and gRPC
+   */
+  readonly container = new Container();
+
+  // Plugins - scopes are created with Object.create(parent) and share everything but these
+  private root: Server = this;
+  private decorators: Record<string, unknown> = {}; // Added to the contexts of this scope's routes
+  private slot?: Middleware[]; // Non-encapsulated plugins: middleware for the parent scope
+  private inherited: Middleware[] = []; // Parent scopes' middleware wrapping this scope's router
+  private plugins: PendingPlugin[] = []; // Waiting for startup
+  private pluginNames = new Set<string>();
+  private loading?: Promise<void>;
+  private pluginsLoaded = false;
 
   constructor(config: ServerConfig & { protocols?: ProtocolManagerConfig } = {}) {
     this.config = {
@@ -32,27 +96,17 @@ export class Server {
       host: '0.0.0.0',
       ...config,
     };
-    this.router = new Router();
+    this.router = new Router({ notFound: this.config.onNotFound });
+    this.bodyParsers = new BodyParserRegistry(this.config.bodyParser);
+    this.contextOptions = { cookies: this.config.cookies, serializers: this.serializers, container: this.container };
 
     // Phase 3.4: Smart adapter selection - ALWAYS use adapters by default
     this.useAdapter = true;
 
-    // Initialize observability (Phase 3.0)
+    // Initialize observability (Phase 3.0) - registered first, so tracing wraps every route
     // PERFORMANCE: Only enable if explicitly set to true
     if (config.observability?.tracing?.enabled === true) {
-      initializeTracing(config.observability);
-      initializeLogger(config.observability?.logging);
-      initializeMetrics(config.observability?.metrics);
-
-      // Auto-inject trace middleware as first middleware
-      this.router.use(traceMiddleware());
-
-      // Initialize profiling (Phase 3.1)
-      if (config.observability?.profiling?.enabled === true) {
-        initializeProfiling(config.observability.profiling);
-        // Profiling middleware runs after tracing
-        this.router.use(profilingMiddleware());
-      }
+      this.register(observabilityPlugin, config.observability);
     }
 
     // Apply global middleware
@@ -62,67 +116,361 @@ export class Server {
 
     // Initialize protocol manager if protocols are configured
     if (config.protocols) {
-      this.protocolManager = new ProtocolManager(config.protocols);
+      this.protocolManager = new ProtocolManager(config.protocols, this.container);
+    }
+
+    // Serve OpenAPI document and docs page if configured
+    if (config.openapi) {
+      this.registerOpenAPIRoutes();
     }
   }
 
+  /**
+   * Register OpenAPI document and docs page routes
+   * The document is generated per request, so routes added later are included
+   */
+  private registerOpenAPIRoutes(): void {
+    const { path = '/openapi.json', docsPath = '/docs', info } = this.config.openapi!;
+    const hidden = { meta: { hidden: true } };
+
+    this.router.get(path, hidden, async (ctx: Context) => {
+      ctx.json(this.openapi());
+    });
+
+    if (docsPath) {
+      this.router.get(docsPath, hidden, async (ctx: Context) => {
+        ctx.setHeader('Content-Type', 'text/html; charset=utf-8');
+        ctx.res.end(renderDocsPage(path, info?.title));
+      });
+    }
+  }
+
+  /**
+   * Generate the OpenAPI 3.1 document for all registered routes
+   */
+  openapi(): OpenAPIDocument {
+    return generateOpenAPI(this.router.getRoutes(), this.config.openapi);
+  }
+
   /**
    * Expose router methods
+   * Handlers see the context properties added by app.decorate() and app.use(),
+   * and by the middleware before them (see Middleware<TAdds>)
    */
-  get(...args: Parameters<Router['get']>): this {
-    this.router.get(...args);
+  route<TSchema extends RouteSchema = RouteSchema>(definition: RouteDefinition<TSchema, TExtra>): this {
+    this.router.route(definition as RouteDefinition<TSchema>);
     return this;
   }
 
-  post(...args: Parameters<Router['post']>): this {
-    this.router.post(...args);
+  get<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  get(path: string, ...args: RouteArgs): this;
+  get(path: string, ...args: RouteArgs): this {
+    this.router.get(path, ...args);
     return this;
   }
 
-  put(...args: Parameters<Router['put']>): this {
-    this.router.put(...args);
+  post<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  post(path: string, ...args: RouteArgs): this;
+  post(path: string, ...args: RouteArgs): this {
+    this.router.post(path, ...args);
     return this;
   }
 
-  patch(...args: Parameters<Router['patch']>): this {
-    this.router.patch(...args);
+  put<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  put(path: string, ...args: RouteArgs): this;
+  put(path: string, ...args: RouteArgs): this {
+    this.router.put(path, ...args);
     return this;
   }
 
-  delete(...args: Parameters<Router['delete']>): this {
-    this.router.delete(...args);
+  patch<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  patch(path: string, ...args: RouteArgs): this;
+  patch(path: string, ...args: RouteArgs): this {
+    this.router.patch(path, ...args);
     return this;
   }
 
-  options(...args: Parameters<Router['options']>): this {
-    this.router.options(...args);
+  delete<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  delete(path: string, ...args: RouteArgs): this;
+  delete(path: string, ...args: RouteArgs): this {
+    this.router.delete(path, ...args);
     return this;
   }
 
-  head(...args: Parameters<Router['head']>): this {
-    this.router.head(...args);
+  options<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  options(path: string, ...args: RouteArgs): this;
+  options(path: string, ...args: RouteArgs): this {
+    this.router.options(path, ...args);
     return this;
   }
 
-  all(...args: Parameters<Router['all']>): this {
-    this.router.all(...args);
+  head<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  head(path: string, ...args: RouteArgs): this;
+  head(path: string, ...args: RouteArgs): this {
+    this.router.head(path, ...args);
+    return this;
+  }
+
+  all<TLeading extends (RouteOptions | Middleware<any>)[]>(path: string, ...args: TypedRouteArgs<TExtra, TLeading>): this;
+  all(path: string, ...args: RouteArgs): this;
+  all(path: string, ...args: RouteArgs): this {
+    this.router.all(path, ...args);
+    return this;
+  }
+
+  /**
+   * Serve a directory of static files under a URL prefix
+   *
+   * @example
+   * app.static('/admin', './admin/dist', { fallback: 'index.html' }); // SPA with client-side routing
+   */
+  static(prefix: string, root: string, options: StaticOptions = {}): this {
+    const mount = prefix.replace(/\/+$/, '');
+    const handler = serveStatic(root, { ...options, prefix: mount });
+    const hidden = { meta: { hidden: true } };
+
+    if (mount) {
+      this.router.get(mount, hidden, handler);
+    }
+    this.router.get(`${mount}/*`, hidden, handler);
+    return this;
+  }
+
+  /**
+   * Register a protocol-agnostic operation
+   * Exposed over GraphQL/gRPC when configured, and as a REST route when `rest` is set.
+   * The output schema becomes the REST route's response schema, and the response format
+   * follows the Accept header (see ctx.send()), including protobuf with the generated message.
+   *
+   * REST input: query + params for GET/DELETE, params + body otherwise
+   */
+  operation<TInput, TOutput>(operation: Operation<TInput, TOutput>): this {
+    this.protocolManager?.registerOperation(operation as Operation);
+
+    if (operation.rest) {
+      const { method, path } = operation.rest;
+      const readsBody = method !== 'GET' && method !== 'DELETE';
+
+      this.router.route({
+        method,
+        path,
+        name: operation.name,
+        schema: operation.output ? { response: operation.output } : undefined,
+        meta: operation.description ? { description: operation.description } : undefined,
+        handler: async (ctx: Context) => {
+          let input: unknown = readsBody
+            ? { ...(ctx.params as object), ...(ctx.body as object) }
+            : { ...(ctx.query as object), ...(ctx.params as object) };
+
+          if (operation.input) {
+            const result = operation.input.safeParse(input);
+            if (!result.success) {
+              throw validationError(toValidationErrors(result.error, 'input'));
+            }
+            input = result.data;
+          }
+
+          const output = await operation.handler(input as TInput, ctx);
+          (ctx as any)._operation = operation; // Lets ctx.send() encode protobuf with the operation's message
+          ctx.send(output, method === 'POST' ? 201 : 200);
+        },
+      });
+    }
+
+    return this;
+  }
+
+  /**
+   * Register a WebSocket route
+   * Global middleware registered so far and `handlers.middleware` run on the upgrade request
+   *
+   * @example
+   * app.ws('/chat/:room', {
+   *   middleware: [authenticate(jwt)],
+   *   open: (ws) => ws.subscribe(ws.ctx.params.room),
+   *   message: (ws, message) => ws.publish(ws.ctx.params.room, message),
+   * });
+   */
+  ws<TSend = unknown>(path: string, handlers: WebSocketHandlers<TSend>): this {
+    this.wsRoutes.insert('GET', path, {
+      path,
+      handlers,
+      middleware: [...this.inherited, ...this.router.getMiddleware(), ...(handlers.middleware || [])],
+    });
+    return this;
+  }
+
+  /**
+   * Register a body parser for one or more content types
+   *
+   * @example
+   * app.addBodyParser('application/msgpack', (body) => decode(body), { limit: '5mb' });
+   */
+  addBodyParser(types: string | string[], parser: BodyParser, options?: BodyParserOptions): this {
+    this.bodyParsers.register(types, parser, options);
     return this;
   }
 
-  use(prefixOrMiddleware: any, router?: any): this {
+  /**
+   * Register a response serializer for ctx.send() (replaces built-in ones for the same types)
+   *
+   * @example
+   * app.addSerializer('application/xml', (data) => toXML(data));
+   */
+  addSerializer(types: string | string[], serializer: ContentSerializer, contentType?: string): this {
+    this.serializers.register(types, serializer, contentType);
+    return this;
+  }
+
+  /**
+   * Run a hook once the server is listening
+   */
+  onListen(hook: ListenHook): this {
+    this.hooks.listen.push(hook);
+    return this;
+  }
+
+  /**
+   * Run a hook during close(), after in-flight requests have drained - close database pools here
+   */
+  onShutdown(hook: ShutdownHook): this {
+    this.hooks.shutdown.push(hook);
+    return this;
+  }
+
+  /**
+   * Run a hook before routing - errors are handled like middleware errors
+   */
+  onRequestStart(hook: RequestStartHook): this {
+    this.hooks.requestStart.push(hook);
+    return this;
+  }
+
+  /**
+   * Run a hook after the response is complete (for streams, once they end)
+   */
+  onRequestEnd(hook: RequestEndHook): this {
+    this.hooks.requestEnd.push(hook);
+    return this;
+  }
+
+  /**
+   * Read and parse the request body into ctx.body, keeping the bytes on ctx.rawBody
+   */
+  private async parseBody(ctx: Context, stream: Readable): Promise<void> {
+    const { body, rawBody } = await this.bodyParsers.parse(stream, ctx.headers);
+    ctx.body = body;
+    ctx.rawBody = rawBody;
+  }
+
+  /**
+   * Send a message to every WebSocket subscribed to a topic
+   */
+  publish(topic: string, message: string | Uint8Array): void {
+    this.adapter?.publish?.(topic, message, typeof message !== 'string');
+  }
+
+  /**
+   * Add middleware, or mount a router under a prefix
+   * Routes registered on the returned app see what the middleware adds (Middleware<TAdds>)
+   */
+  use<TAdds extends object = {}>(middleware: Middleware<TAdds>): Server<TExtra & TAdds>;
+  use(prefix: string, router: Router): this;
+  use(prefixOrMiddleware: any, router?: any): any {
     if (typeof prefixOrMiddleware === 'string' && router) {
       this.router.use(prefixOrMiddleware, router);
     } else if (typeof prefixOrMiddleware === 'function') {
-      this.router.use(prefixOrMiddleware);
+      if (this.slot) {
+        this.slot.push(prefixOrMiddleware);
+      } else {
+        this.router.use(prefixOrMiddleware);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Register a plugin
+   * Plugins load at startup (listen(), inject() or ready()), after their dependencies.
+   * Each gets a scoped app, mounted where register() is called: its middleware
+   * and decorators stay inside it unless the plugin sets `encapsulate: false`.
+   *
+   * @example
+   * app.register(usersPlugin, { table: 'users' });
+   */
+  register<TOptions>(plugin: Plugin<TOptions>, options?: TOptions): this {
+    const root = this.root;
+    if (root.pluginsLoaded) {
+      throw new Error(`Cannot register plugin "${plugin.name}" after the server started`);
+    }
+    if (root.pluginNames.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already registered`);
     }
+
+    const scope: Server = Object.create(this);
+    if (plugin.encapsulate === false) {
+      // Wraps the routes this scope registers from here on, like app.use()
+      scope.slot = [];
+      this.router.use(middlewareSlot(scope.slot));
+    } else {
+      scope.router = new Router();
+      scope.decorators = {};
+      scope.slot = undefined;
+      scope.inherited = [...this.inherited, ...this.router.getMiddleware()];
+      scope.router.use(decoratorMiddleware(scope.decorators));
+      this.router.use('/', scope.router);
+    }
+
+    root.pluginNames.add(plugin.name);
+    root.plugins.push({ plugin, options, scope });
     return this;
   }
 
+  /**
+   * Load registered plugins, dependencies first
+   * Called by listen() and inject() - call it yourself to catch plugin errors early
+   */
+  ready(): Promise<void> {
+    const root = this.root;
+    return (root.loading ??= root.loadPlugins());
+  }
+
+  private async loadPlugins(): Promise<void> {
+    const loaded = new Set<string>();
+    // Plugins may register child plugins - they join the queue
+    while (this.plugins.length > 0) {
+      const next = nextPlugin(this.plugins, loaded);
+      this.plugins.splice(this.plugins.indexOf(next), 1);
+      await next.plugin.register(next.scope, next.options);
+      loaded.add(next.plugin.name);
+    }
+    this.pluginsLoaded = true;
+  }
+
+  /**
+   * Add a property to every context of this scope (the whole app, or a plugin's routes)
+   * Routes registered on the returned app see it in their context type - augment
+   * ContextDecorators to type it elsewhere.
+   *
+   * @example
+   * const app = createApp().decorate('db', pool);
+   * app.get('/users', async (ctx) => ctx.json(await ctx.db.query('SELECT * FROM users')));
+   */
+  decorate<K extends string, V>(name: K, value: V): Server<TExtra & { [P in K]: V }> {
+    checkDecorator(name, this.decorators, () => createAdapterContext({ method: 'GET', url: '/', headers: {} }, {}).ctx);
+    this.decorators[name] = value;
+    return this as Server<any>;
+  }
+
   group(...args: Parameters<Router['group']>): this {
     this.router.group(...args);
     return this;
   }
 
+  url(...args: Parameters<Router['url']>): string {
+    return this.router.url(...args);
+  }
+
   /**
    * Get the underlying router
    */
@@ -134,13 +482,23 @@ export class Server {
    * Handle incoming HTTP request (performance optimized)
    */
   private async handleRequest(ctx: Context): Promise<void> {
+    // PERFORMANCE: only timed when someone listens
+    const start = this.hooks.requestEnd.length > 0 ? performance.now() : 0;
+    let failure: Error | undefined;
+
     try {
+      Object.assign(ctx, this.decorators);
+
+      for (const hook of this.hooks.requestStart) {
+        await hook(ctx);
+      }
+
       // Parse body for POST/PUT/PATCH requests (optimized check)
       // Skip if already parsed (adapter mode)
       const method = ctx.method;
       if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
-        if (!ctx.body && !this.useAdapter) {
-          ctx.body = await parseBody(ctx.req);
+        if (!ctx.body && !this.useAdapter && !isMultipart(ctx.headers)) {
+          await this.parseBody(ctx, ctx.req);
         }
       }
 
@@ -161,16 +519,47 @@ export class Server {
         ctx.res.end();
       }
     } catch (error) {
+      failure = error as Error;
       await this.handleError(error, ctx);
+    } finally {
+      if (this.hooks.requestEnd.length > 0 || (ctx as any)._scope) {
+        this.requestEnded(ctx, start, failure);
+      }
     }
   }
 
+  /**
+   * Run onRequestEnd hooks and dispose the request scope
+   * Streamed responses outlive the handler, so wait for them
+   */
+  private requestEnded(ctx: Context, start: number, error?: Error): void {
+    const response = (ctx as any)._response as ResponseBuffer | undefined;
+    const finished = response?.stream ? response.stream.finished.catch(() => {}) : Promise.resolve();
+
+    void finished.then(async () => {
+      const info = { statusCode: response?.statusCode ?? ctx.res.statusCode, duration: performance.now() - start, error };
+      for (const hook of this.hooks.requestEnd) {
+        try {
+          await hook(ctx, info);
+        } catch (hookError) {
+          console.error('❌ onRequestEnd hook failed:', hookError);
+        }
+      }
+      await disposeRequestScope(ctx);
+    });
+  }
+
   /**
    * Handle errors with custom error handler or default
    */
   private async handleError(error: unknown, ctx: Context): Promise<void> {
     const err = error as Error;
 
+    // A streaming response already started - nothing can be sent, drop the connection
+    if (ctx.res.headersSent && !ctx.res.writableEnded) {
+      ctx.res.destroy(err);
+    }
+
     // Use custom error handler if provided
     if (this.config.onError) {
       try {
@@ -181,25 +570,20 @@ export class Server {
       }
     }
 
-    // Default error handling
-    const statusCode = err instanceof HTTPError ? err.statusCode : 500;
-    const message = err.message || 'Internal Server Error';
-
-    if (!ctx.res.headersSent) {
-      ctx.json(
-        {
-          error: true,
-          message,
-          ...(err instanceof HTTPError && err.details
-            ? { details: err.details }
-            : {}),
-          ...(process.env.NODE_ENV !== 'production'
-            ? { stack: err.stack }
-            : {}),
-        },
-        statusCode
-      );
+    if (ctx.res.headersSent) return;
+
+    // Default error response - RFC 9457 problem details, or the configured format
+    const problem = createProblem(err, ctx);
+    if (this.config.errorFormatter) {
+      ctx.json(this.config.errorFormatter(problem, err, ctx), problem.status);
+      return;
     }
+
+    const body = JSON.stringify(problem);
+    ctx.status(problem.status);
+    ctx.setHeader('Content-Type', PROBLEM_CONTENT_TYPE);
+    ctx.setHeader('Content-Length', String(Buffer.byteLength(body)));
+    ctx.res.end(body);
   }
 
   /**
@@ -237,20 +621,25 @@ export class Server {
     const serverPort = actualPort || this.config.port || 3000;
     const serverHost = actualHost || this.config.host || '0.0.0.0';
 
+    await this.ready();
+
     // Phase 3.3: Use adapter pattern if configured
+    this.closing = undefined;
+
     if (this.useAdapter) {
       await this.listenWithAdapter(serverPort, serverHost);
+      await this.started(serverPort, serverHost);
       if (callback) callback();
       return;
     }
 
     // Legacy mode: Direct Node.js http server
     this.httpServer = createServer(async (req, res) => {
-      const ctx = createContext(req, res);
+      const ctx = createContext(req, res, this.contextOptions);
       await this.handleRequest(ctx);
     });
 
-    return new Promise((resolve) => {
+    await new Promise<void>((resolve) => {
       this.httpServer!.listen(serverPort, serverHost, async () => {
         console.log(`🚀 RamAPI server running at http://${serverHost}:${serverPort}`);
 
@@ -262,6 +651,37 @@ export class Server {
         resolve();
       });
     });
+    await this.started(serverPort, serverHost);
+  }
+
+  /**
+   * Install signal handlers and run onListen hooks
+   */
+  private async started(port: number, host: string): Promise<void> {
+    const { signals } = this.config.shutdown ?? {};
+    if (signals) {
+      for (const signal of signals === true ? (['SIGTERM', 'SIGINT'] as NodeJS.Signals[]) : signals) {
+        const handler = () => {
+          // A second signal while draining exits right away
+          if (this.closing) process.exit(1);
+
+          console.log(`🛑 Received ${signal}, shutting down gracefully`);
+          this.close().then(
+            () => process.exit(0),
+            (error) => {
+              console.error('❌ Graceful shutdown failed:', error);
+              process.exit(1);
+            }
+          );
+        };
+        this.signalHandlers.set(signal, handler);
+        process.on(signal, handler);
+      }
+    }
+
+    for (const hook of this.hooks.listen) {
+      await hook({ port, host });
+    }
   }
 
   /**
@@ -273,44 +693,13 @@ export class Server {
     this.adapter = this.selectAdapter(this.config);
 
     // Register request handler with adapter
-    this.adapter.onRequest(async (requestInfo, rawRequest) => {
-      try {
-        // Create adapter-agnostic context
-        const { ctx, responseBuffer } = createAdapterContext(requestInfo, rawRequest);
-
-        // Parse body for POST/PUT/PATCH requests
-        const method = ctx.method;
-        if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
-          ctx.body = await this.adapter!.parseBody(rawRequest);
-        }
+    this.adapter.onRequest((requestInfo, rawRequest) => this.dispatch(requestInfo, rawRequest));
 
-        // Handle request through RamAPI
-        await this.handleRequest(ctx);
-
-        // Return response data to adapter
-        return {
-          statusCode: responseBuffer.statusCode,
-          headers: responseBuffer.headers,
-          body: responseBuffer.body || '',
-        };
-      } catch (error) {
-        // Handle errors and return error response
-        const err = error as Error;
-        const statusCode = err instanceof HTTPError ? err.statusCode : 500;
-        const message = err.message || 'Internal Server Error';
-
-        return {
-          statusCode,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            error: true,
-            message,
-            ...(err instanceof HTTPError && err.details ? { details: err.details } : {}),
-            ...(process.env.NODE_ENV !== 'production' ? { stack: err.stack } : {}),
-          }),
-        };
-      }
-    });
+    // Register WebSocket upgrade handler
+    this.adapter.onUpgrade?.(
+      (requestInfo, rawRequest) => this.handleUpgrade(requestInfo, rawRequest),
+      this.config.websocket
+    );
 
     // Start adapter listening
     await this.adapter.listen(port, host);
@@ -322,21 +711,154 @@ export class Server {
   }
 
   /**
-   * Stop the HTTP server
-   * Phase 3.3: Now supports both adapter and non-adapter modes
+   * Run an adapter request through the app and collect the response
+   *
+   * @param body - Request body, when it doesn't come from the adapter (app.inject())
    */
-  async close(): Promise<void> {
-    // Stop gRPC server first
-    if (this.protocolManager) {
-      await this.protocolManager.stopGRPC();
+  private async dispatch(requestInfo: RawRequestInfo, rawRequest: any, body?: Readable): Promise<RawResponseData> {
+    // Create adapter-agnostic context
+    const { ctx, responseBuffer } = createAdapterContext(requestInfo, rawRequest, this.contextOptions);
+    // Lets middleware run internal requests through the app (cache revalidation)
+    (ctx as any)._dispatch = (info: RawRequestInfo) => this.dispatch(info, {});
+    const method = ctx.method;
+
+    try {
+      // Parse body for POST/PUT/PATCH requests
+      // Multipart bodies stay unread - the multipart middleware streams them
+      if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
+        const bodyStream = body ?? this.adapter?.getBodyStream?.(rawRequest);
+        if (!bodyStream) {
+          // Custom adapters without a body stream parse bodies themselves
+          ctx.body = await this.adapter?.parseBody(rawRequest);
+        } else if (isMultipart(ctx.headers)) {
+          (ctx as any)._bodyStream = bodyStream;
+        } else {
+          await this.parseBody(ctx, bodyStream);
+        }
+      }
+
+      // Handle request through RamAPI
+      // Streaming responses are handed to the adapter as soon as they start
+      await new Promise<void>((resolve, reject) => {
+        responseBuffer.onStream = resolve;
+        this.handleRequest(ctx).then(resolve, reject);
+      });
+    } catch (error) {
+      // Body parsing failed (400, 413, 415) - answer through the same error pipeline
+      await this.handleError(error, ctx);
+    }
+
+    // Return response data to adapter (HEAD responses keep headers, drop the body)
+    return {
+      statusCode: responseBuffer.statusCode,
+      headers: responseBuffer.headers,
+      body: method === 'HEAD' ? '' : responseBuffer.body || '',
+      stream: responseBuffer.stream,
+      file: responseBuffer.file,
+    };
+  }
+
+  /**
+   * Run a request through the app without opening a socket
+   * Goes through the same pipeline as adapter requests - hooks, GraphQL, middleware,
+   * routes and error handling - and works before listen().
+   * Streamed and file responses are read to the end.
+   *
+   * @example
+   * const res = await app.inject({ method: 'POST', url: '/users', body: { name: 'Ada' } });
+   * expect(res.status).toBe(201);
+   * expect(res.json().name).toBe('Ada');
+   */
+  async inject(options: InjectOptions): Promise<InjectResponse> {
+    await this.ready();
+    const { info, body } = createInjectRequest(options);
+    return readInjectResponse(await this.dispatch(info, {}, body));
+  }
+
+  /**
+   * Handle a WebSocket upgrade request
+   * Runs the route's middleware chain - the upgrade is accepted only if it reaches the end
+   */
+  private async handleUpgrade(
+    requestInfo: RawRequestInfo,
+    rawRequest: any
+  ): Promise<WebSocketSession | RawResponseData | null> {
+    const qIdx = requestInfo.url.indexOf('?');
+    const path = qIdx === -1 ? requestInfo.url : requestInfo.url.slice(0, qIdx);
+    const match = this.wsRoutes.find('GET', path);
+    if (!match) {
+      return null;
+    }
+
+    const { ctx, responseBuffer } = createAdapterContext(requestInfo, rawRequest, this.contextOptions);
+    ctx.params = match.params;
+    Object.assign(ctx, this.decorators);
+
+    let accepted = false;
+    try {
+      accepted = await runUpgradeMiddleware(match.value.middleware, ctx);
+    } catch (error) {
+      await this.handleError(error, ctx);
+    }
+
+    if (accepted && !responseBuffer.sent) {
+      return createWebSocketSession(ctx, match.value.handlers); // Disposes the request scope on close
+    }
+
+    void disposeRequestScope(ctx);
+
+    // Middleware stopped the chain without responding
+    if (!responseBuffer.sent) {
+      await this.handleError(new ForbiddenError('WebSocket upgrade rejected'), ctx);
+    }
+
+    return {
+      statusCode: responseBuffer.statusCode,
+      headers: responseBuffer.headers,
+      body: responseBuffer.body || '',
+    };
+  }
+
+  /**
+   * Gracefully stop the server
+   * Stops accepting connections, waits up to `timeout` ms for in-flight requests,
+   * streams and WebSockets, closes keep-alive connections, runs onShutdown hooks
+   * and flushes pending traces. Calling it again returns the same promise.
+   */
+  close(options: CloseOptions = {}): Promise<void> {
+    return (this.closing ??= this.shutdown(options.timeout ?? this.config.shutdown?.timeout ?? 10000));
+  }
+
+  private async shutdown(timeout: number): Promise<void> {
+    for (const [signal, handler] of this.signalHandlers) {
+      process.off(signal, handler);
     }
+    this.signalHandlers.clear();
+
+    // HTTP and gRPC drain side by side
+    await Promise.all([this.closeHTTP(timeout), this.protocolManager?.stopGRPC(timeout)]);
 
-    // Shutdown observability (Phase 3.0)
+    for (const hook of this.hooks.shutdown) {
+      try {
+        await hook();
+      } catch (error) {
+        console.error('❌ onShutdown hook failed:', error);
+      }
+    }
+
+    await this.container.dispose();
+
+    // Shutdown observability (Phase 3.0) - exports buffered spans
     await shutdownTracing();
+  }
 
+  /**
+   * Stop the HTTP server, draining in-flight requests
+   */
+  private async closeHTTP(timeout: number): Promise<void> {
     // Phase 3.3: Close adapter if using adapter pattern
     if (this.adapter) {
-      await this.adapter.close();
+      await this.adapter.close({ timeout });
       this.adapter = undefined;
       return;
     }
@@ -346,8 +868,11 @@ export class Server {
       return;
     }
 
-    return new Promise((resolve, reject) => {
-      this.httpServer!.close((err) => {
+    const server = this.httpServer;
+    const timer = setTimeout(() => server.closeAllConnections(), timeout);
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => {
+        clearTimeout(timer);
         if (err) {
           reject(err);
         } else {
@@ -355,7 +880,9 @@ export class Server {
           resolve();
         }
       });
+      server.closeIdleConnections();
     });
+    this.httpServer = undefined;
   }
 
   /**
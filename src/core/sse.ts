@@ -0,0 +1,137 @@
+/**
+ * Server-Sent Events
+ * Built on the streaming writer, so it works on every adapter that streams
+ */
+
+import type { Context } from './types.js';
+
+/**
+ * SSE event
+ */
+export interface SSEEvent {
+  data: unknown; // Strings are sent as-is, everything else as JSON
+  event?: string;
+  id?: string | number;
+  retry?: number; // Reconnection delay in ms
+}
+
+/**
+ * Options for ctx.sse()
+ */
+export interface SSEOptions {
+  heartbeat?: number | false; // Comment interval in ms (default: 15000)
+  retry?: number; // Initial reconnection delay sent to the client
+  status?: number;
+}
+
+/**
+ * Event sink returned by ctx.sse()
+ */
+export interface SSEStream {
+  /**
+   * Last-Event-ID sent by a reconnecting client
+   */
+  readonly lastEventId?: string;
+
+  /**
+   * True once the client disconnected or close() was called
+   */
+  readonly closed: boolean;
+
+  /**
+   * Send an event - resolves to false if the client has gone away
+   */
+  send(event: SSEEvent): Promise<boolean>;
+
+  /**
+   * Send a comment line (ignored by clients, keeps proxies from timing out)
+   */
+  comment(text?: string): Promise<boolean>;
+
+  /**
+   * Run cleanup when the stream closes (client disconnect or close())
+   */
+  onClose(listener: () => void): void;
+
+  /**
+   * End the stream
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Strip line breaks from single-line fields
+ */
+function singleLine(value: string | number): string {
+  return String(value).replace(/[\r\n]/g, '');
+}
+
+/**
+ * Format an event in the text/event-stream wire format
+ */
+export function formatSSEEvent(event: SSEEvent): string {
+  let result = '';
+
+  if (event.id !== undefined) result += `id: ${singleLine(event.id)}\n`;
+  if (event.event) result += `event: ${singleLine(event.event)}\n`;
+  if (event.retry !== undefined) result += `retry: ${Math.floor(event.retry)}\n`;
+
+  const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data) ?? '';
+  for (const line of data.split(/\r\n|\r|\n/)) {
+    result += `data: ${line}\n`;
+  }
+
+  return result + '\n';
+}
+
+/**
+ * Open an SSE stream on a context
+ *
+ * @example
+ * app.get('/events', (ctx) => {
+ *   const sse = ctx.sse();
+ *   const unsubscribe = bus.on('update', (data) => sse.send({ event: 'update', data }));
+ *   sse.onClose(unsubscribe);
+ * });
+ */
+export function createSSEStream(ctx: Context, options: SSEOptions = {}): SSEStream {
+  const lastEventIdHeader = ctx.headers['last-event-id'];
+  const lastEventId = Array.isArray(lastEventIdHeader) ? lastEventIdHeader[0] : lastEventIdHeader;
+
+  ctx.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  ctx.setHeader('Cache-Control', 'no-cache, no-transform');
+  ctx.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+
+  const writer = ctx.writer(options.status);
+
+  // First bytes open the stream on the client right away
+  writer.write(options.retry !== undefined ? `retry: ${Math.floor(options.retry)}\n\n` : ':\n\n');
+
+  const interval = options.heartbeat ?? 15000;
+  if (interval) {
+    const timer = setInterval(() => {
+      writer.write(': heartbeat\n\n');
+    }, interval);
+    timer.unref?.();
+    writer.onClose(() => clearInterval(timer));
+  }
+
+  return {
+    lastEventId,
+    get closed() {
+      return writer.closed;
+    },
+    send(event: SSEEvent) {
+      return writer.write(formatSSEEvent(event));
+    },
+    comment(text = '') {
+      return writer.write(`: ${singleLine(text)}\n\n`);
+    },
+    onClose(listener: () => void) {
+      writer.onClose(listener);
+    },
+    close() {
+      return writer.end();
+    },
+  };
+}
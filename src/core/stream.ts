@@ -0,0 +1,329 @@
+/**
+ * Streaming responses
+ *
+ * Adapters pull chunks from a ResponseStream one at a time and only ask for
+ * the next chunk once the socket has drained, so backpressure reaches the
+ * source (Node Readable, async iterable or a ResponseWriter).
+ */
+
+import type { ServerResponse } from 'http';
+
+/**
+ * Chunk written to a streaming response
+ */
+export type StreamChunk = string | Uint8Array;
+
+/**
+ * Anything ctx.stream() accepts - Node Readables are async iterables
+ */
+export type StreamSource = AsyncIterable<StreamChunk> | Iterable<StreamChunk>;
+
+/**
+ * Chunked writer returned by ctx.writer()
+ */
+export interface ResponseWriter {
+  /**
+   * Queue a chunk. Resolves once the queue is below its high water mark,
+   * with false if the client has gone away.
+   */
+  write(chunk: StreamChunk): Promise<boolean>;
+
+  /**
+   * Finish the response. Resolves once every chunk has been handed to the adapter.
+   */
+  end(chunk?: StreamChunk): Promise<void>;
+
+  /**
+   * True once the response has finished or the client disconnected
+   */
+  readonly closed: boolean;
+
+  /**
+   * Run cleanup when the response finishes or the client disconnects
+   */
+  onClose(listener: () => void): void;
+}
+
+const DONE: IteratorReturnResult<undefined> = { done: true, value: undefined };
+
+function byteLength(chunk: StreamChunk): number {
+  return typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.byteLength;
+}
+
+/**
+ * In-memory chunk queue backing ctx.writer()
+ * The handler pushes, the adapter pulls
+ */
+export class ChunkQueue implements ResponseWriter, AsyncIterableIterator<StreamChunk> {
+  closed = false;
+
+  private chunks: StreamChunk[] = [];
+  private size = 0;
+  private ended = false;
+  private error?: Error;
+  private pending?: { resolve: (result: IteratorResult<StreamChunk>) => void; reject: (error: Error) => void };
+  private drainWaiters: Array<() => void> = [];
+  private closeListeners: Array<() => void> = [];
+
+  constructor(private highWaterMark = 16 * 1024) {}
+
+  write(chunk: StreamChunk): Promise<boolean> {
+    if (this.closed || this.ended) return Promise.resolve(false);
+    if (byteLength(chunk) === 0) return Promise.resolve(true);
+
+    // Consumer is already waiting - hand the chunk over directly
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = undefined;
+      resolve({ done: false, value: chunk });
+      return Promise.resolve(true);
+    }
+
+    this.chunks.push(chunk);
+    this.size += byteLength(chunk);
+
+    if (this.size < this.highWaterMark) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      this.drainWaiters.push(() => resolve(!this.closed));
+    });
+  }
+
+  end(chunk?: StreamChunk): Promise<void> {
+    if (chunk !== undefined) this.write(chunk);
+    if (this.closed) return Promise.resolve();
+
+    this.ended = true;
+    if (this.chunks.length === 0) {
+      this.flushPending();
+    }
+
+    return new Promise((resolve) => this.onClose(resolve));
+  }
+
+  onClose(listener: () => void): void {
+    if (this.closed) {
+      listener();
+    } else {
+      this.closeListeners.push(listener);
+    }
+  }
+
+  /**
+   * Abort the response (e.g. the handler failed after streaming started)
+   */
+  destroy(error?: Error): void {
+    if (this.closed) return;
+    if (error && this.pending) {
+      const { reject } = this.pending;
+      this.pending = undefined;
+      reject(error);
+    } else {
+      this.error = error;
+    }
+    this.close();
+  }
+
+  next(): Promise<IteratorResult<StreamChunk>> {
+    if (this.error) {
+      const error = this.error;
+      this.error = undefined;
+      return Promise.reject(error);
+    }
+
+    if (this.chunks.length > 0) {
+      const value = this.chunks.shift()!;
+      this.size -= byteLength(value);
+      if (this.size < this.highWaterMark) this.drain();
+      return Promise.resolve({ done: false, value });
+    }
+
+    if (this.ended || this.closed) {
+      this.close();
+      return Promise.resolve(DONE);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<StreamChunk>> {
+    this.close();
+    return Promise.resolve(DONE);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<StreamChunk> {
+    return this;
+  }
+
+  private flushPending(): void {
+    if (this.pending && this.chunks.length === 0) {
+      const { resolve } = this.pending;
+      this.pending = undefined;
+      this.close();
+      resolve(DONE);
+    }
+  }
+
+  private drain(): void {
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    waiters.forEach((waiter) => waiter());
+  }
+
+  private close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.chunks = [];
+    this.size = 0;
+    this.drain();
+
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = undefined;
+      resolve(DONE);
+    }
+
+    const listeners = this.closeListeners;
+    this.closeListeners = [];
+    listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Response body stream handed to adapters
+ * Tracks completion so ctx.stream() can resolve once the body is sent
+ */
+export class ResponseStream implements AsyncIterableIterator<StreamChunk> {
+  settled = false; // Fully sent, aborted or failed
+  readonly finished: Promise<void>;
+
+  private iterator: AsyncIterator<StreamChunk> | Iterator<StreamChunk>;
+  private abortError?: Error;
+  private resolveFinished!: () => void;
+  private rejectFinished!: (error: Error) => void;
+
+  constructor(private source: StreamSource) {
+    this.iterator = Symbol.asyncIterator in source
+      ? (source as AsyncIterable<StreamChunk>)[Symbol.asyncIterator]()
+      : (source as Iterable<StreamChunk>)[Symbol.iterator]();
+
+    this.finished = new Promise((resolve, reject) => {
+      this.resolveFinished = resolve;
+      this.rejectFinished = reject;
+    });
+    // Handlers may not await ctx.stream() - avoid unhandled rejections
+    this.finished.catch(() => {});
+  }
+
+  async next(): Promise<IteratorResult<StreamChunk>> {
+    if (this.settled) return DONE;
+    if (this.abortError) {
+      this.finish(this.abortError);
+      throw this.abortError;
+    }
+
+    try {
+      const result = await this.iterator.next();
+      if (result.done) this.finish();
+      return result;
+    } catch (error) {
+      this.finish(error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop reading - called by adapters when the client disconnects (or for HEAD)
+   */
+  async return(): Promise<IteratorResult<StreamChunk>> {
+    if (!this.settled) {
+      this.finish();
+      const source = this.source as any;
+      if (typeof source.destroy === 'function') {
+        source.destroy();
+      } else {
+        void Promise.resolve(this.iterator.return?.()).catch(() => {});
+      }
+    }
+    return DONE;
+  }
+
+  /**
+   * Abort from the producer side - the adapter drops the connection
+   */
+  destroy(error: Error): void {
+    const source = this.source as any;
+    if (typeof source.destroy === 'function') {
+      source.destroy(error);
+    } else {
+      this.abortError = error;
+      void Promise.resolve(this.iterator.return?.()).catch(() => {});
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<StreamChunk> {
+    return this;
+  }
+
+  private finish(error?: Error): void {
+    if (this.settled) return;
+    this.settled = true;
+    if (error) {
+      this.rejectFinished(error);
+    } else {
+      this.resolveFinished();
+    }
+  }
+}
+
+/**
+ * Write a stream to a Node.js ServerResponse with backpressure
+ * Used by the node-http adapter and the legacy context
+ */
+export async function pipeToNodeResponse(
+  res: ServerResponse,
+  stream: AsyncIterator<StreamChunk>,
+  method?: string
+): Promise<void> {
+  if (method === 'HEAD') {
+    await stream.return?.();
+    res.end();
+    return;
+  }
+
+  let closed = false;
+  let wake: (() => void) | undefined;
+  const onClose = () => {
+    closed = true;
+    wake?.();
+    void stream.return?.();
+  };
+  res.on('close', onClose);
+
+  try {
+    // Send headers right away - clients see the response start immediately
+    res.flushHeaders();
+
+    for (;;) {
+      const { value, done } = await stream.next();
+      if (done || closed) break;
+
+      if (!res.write(value)) {
+        // PERFORMANCE: wait for the socket to drain before pulling more
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          res.once('drain', resolve);
+        });
+        res.off('drain', wake!);
+        wake = undefined;
+      }
+    }
+
+    if (!closed) res.end();
+  } catch (error) {
+    res.destroy(error as Error);
+  } finally {
+    res.off('close', onClose);
+  }
+}
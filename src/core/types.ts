@@ -2,18 +2,49 @@ import type { IncomingMessage, ServerResponse } from 'http';
 import type { ZodSchema, z } from 'zod';
 import type { TraceContext, ObservabilityConfig } from '../observability/types.js';
 import type { Span } from '@opentelemetry/api';
-import type { AdapterConfig } from '../adapters/types.js';
+import type { AdapterConfig, WebSocketOptions } from '../adapters/types.js';
+import type { OpenAPIConfig } from '../openapi/types.js';
+import type { StreamSource, ResponseWriter } from './stream.js';
+import type { SSEOptions, SSEStream } from './sse.js';
+import type { SendFileOptions } from './send-file.js';
+import type { BodyParserConfig } from './body-parser.js';
+import type { CookieConfig, CookieJar } from './cookies.js';
+import type { Session } from '../auth/session.js';
+import type { Token } from './container.js';
 
 /**
  * HTTP Methods supported by RamAPI
  */
 export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS' | 'HEAD';
 
+/**
+ * Typed ctx.state keys - augment to declare state shared app-wide
+ * Values are optional: nothing guarantees a middleware setting them ran.
+ * Middleware declaring what it adds (Middleware<TAdds>) types its own routes instead.
+ *
+ * @example
+ * declare module 'ramapi' {
+ *   interface ContextState { requestId: string }
+ * }
+ */
+export interface ContextState {}
+
+/**
+ * Typed context decorators - augment for properties added with app.decorate()
+ * that are used away from the app's type (plugins, shared handlers)
+ *
+ * @example
+ * declare module 'ramapi' {
+ *   interface ContextDecorators { db: Pool }
+ * }
+ */
+export interface ContextDecorators {}
+
 /**
  * Context object passed to handlers and middleware
  * Contains request data, response helpers, and shared state
  */
-export interface Context<TBody = unknown, TQuery = unknown, TParams = unknown> {
+export interface Context<TBody = unknown, TQuery = unknown, TParams = unknown> extends ContextDecorators {
   // Request properties
   req: IncomingMessage;
   res: ServerResponse;
@@ -23,16 +54,42 @@ export interface Context<TBody = unknown, TQuery = unknown, TParams = unknown> {
   query: TQuery;
   params: TParams;
   body: TBody;
+  rawBody?: Buffer; // Unparsed body bytes (not set for multipart uploads)
   headers: Record<string, string | string[] | undefined>;
 
   // Response helpers
   json: (data: unknown, status?: number) => void;
   text: (data: string, status?: number) => void;
+  send: (data: unknown, status?: number) => void; // Format picked from the Accept header (406 if none fits)
   status: (code: number) => Context<TBody, TQuery, TParams>;
-  setHeader: (key: string, value: string) => Context<TBody, TQuery, TParams>;
+  setHeader: (key: string, value: string | string[]) => Context<TBody, TQuery, TParams>;
+  appendHeader: (key: string, value: string | string[]) => Context<TBody, TQuery, TParams>; // Keeps earlier values
+
+  // Request cookies and Set-Cookie helpers
+  cookies: CookieJar;
+
+  // Streaming responses - resolves once the body is fully sent (or the client left)
+  stream: (source: StreamSource, status?: number) => Promise<void>;
+  writer: (status?: number) => ResponseWriter;
+  sse: (options?: SSEOptions) => SSEStream;
+
+  // Send a file (ETag/Last-Modified, 304, Range, precompressed siblings) - 404 if missing
+  sendFile: (path: string, options?: SendFileOptions) => Promise<void>;
+
+  // Uploaded files (populated by the multipart middleware)
+  files?: UploadedFiles;
+
+  // Cookie session (populated by the session middleware)
+  session?: Session;
 
   // Shared state for middleware communication
-  state: Record<string, unknown>;
+  state: Partial<ContextState> & Record<string, unknown>;
+
+  // Resolve a dependency from app.container - scoped ones are shared for the request
+  resolve: <T>(token: Token<T>) => T;
+
+  // Compiled response serializer (set by routes with a response schema)
+  serializer?: ResponseSerializer;
 
   // User/auth context (populated by auth middleware)
   user?: unknown;
@@ -47,22 +104,90 @@ export interface Context<TBody = unknown, TQuery = unknown, TParams = unknown> {
   setAttributes?: (attributes: Record<string, any>) => void;
 }
 
+/**
+ * File received in a multipart/form-data request
+ */
+export interface UploadedFile {
+  fieldName: string;
+  filename: string; // Client-supplied name, without any directory part
+  mimeType: string; // As declared by the client - not sniffed
+  size: number;
+  path?: string; // Disk storage
+  buffer?: Buffer; // Memory storage
+  metadata?: Record<string, unknown>; // Custom storage (e.g. object storage key)
+}
+
+/**
+ * Uploaded files by field name - repeated fields become arrays
+ */
+export type UploadedFiles = Record<string, UploadedFile | UploadedFile[]>;
+
+/**
+ * Serializes a JSON response body for a status code
+ * Returns undefined when the status has no response schema
+ */
+export type ResponseSerializer = (data: unknown, status: number) => string | undefined;
+
 /**
  * Handler function for routes
  * Can be async and receives typed context
  */
-export type Handler<TBody = unknown, TQuery = unknown, TParams = unknown> = (
-  ctx: Context<TBody, TQuery, TParams>
+export type Handler<TBody = unknown, TQuery = unknown, TParams = unknown, TExtra extends object = {}> = (
+  ctx: Context<TBody, TQuery, TParams> & TExtra
 ) => void | Promise<void>;
 
+declare const contextAdditions: unique symbol;
+
 /**
  * Middleware function
  * Can modify context and control flow with next()
+ *
+ * TAdds declares the context properties it sets - route handlers after it see them.
+ * Type-only: it's never set at runtime.
+ *
+ * @example
+ * function tenant(): Middleware<{ tenant: Tenant; state: { tenantId: string } }> {
+ *   return async (ctx, next) => { ... };
+ * }
+ * app.get('/invoices', tenant(), async (ctx) => ctx.json(await list(ctx.tenant.id)));
  */
-export type Middleware = (
+export type Middleware<TAdds extends object = {}> = ((
   ctx: Context,
   next: () => Promise<void>
-) => void | Promise<void>;
+) => void | Promise<void>) & { readonly [contextAdditions]?: TAdds };
+
+/**
+ * Context properties added by a list of middleware
+ */
+export type ContextAdditions<TMiddleware extends unknown[]> = TMiddleware extends [infer First, ...infer Rest]
+  ? (First extends Middleware<infer TAdds> ? TAdds : {}) & ContextAdditions<Rest>
+  : {};
+
+/**
+ * Request validation and response schemas for a route
+ * Response schemas are strictly validated in development and compiled into
+ * a serializer that drops undeclared fields in production
+ */
+export interface RouteSchema {
+  body?: ZodSchema;
+  query?: ZodSchema;
+  params?: ZodSchema;
+  files?: ZodSchema; // Validates ctx.files - multipart bodies are parsed automatically
+  response?: ZodSchema | Record<number, ZodSchema>; // Single schema = 2xx, or per status code
+}
+
+/**
+ * Route metadata for documentation and tooling
+ */
+export interface RouteMeta {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  auth?: boolean;
+  deprecated?: boolean;
+  hidden?: boolean; // Excluded from the OpenAPI document
+  errors?: number[]; // HTTPError status codes the route may answer with
+}
 
 /**
  * Route definition with validation schemas
@@ -70,26 +195,84 @@ export type Middleware = (
 export interface Route {
   method: HTTPMethod;
   path: string;
+  name?: string;
   handler: Handler;
   middleware?: Middleware[];
-  schema?: {
-    body?: ZodSchema;
-    query?: ZodSchema;
-    params?: ZodSchema;
-  };
-  meta?: {
-    description?: string;
-    tags?: string[];
-    auth?: boolean;
-  };
+  schema?: RouteSchema;
+  meta?: RouteMeta;
 }
 
+/**
+ * Per-route options, passed before the handlers
+ *
+ * @example
+ * router.get('/users/:id', { name: 'user.show', schema: { params } }, handler);
+ */
+export interface RouteOptions {
+  name?: string; // Route name for reverse URL generation (router.url())
+  schema?: RouteSchema; // Validated automatically before the handler runs
+  meta?: RouteMeta;
+  middleware?: Middleware[]; // Runs before inline middleware
+}
+
+/**
+ * Infer a type from an optional Zod schema, with a fallback
+ */
+type InferOr<T, TFallback> = T extends ZodSchema ? z.infer<T> : TFallback;
+
+/**
+ * Declarative route definition for router.route()
+ * Handler context types are inferred from the schemas
+ *
+ * @example
+ * router.route({
+ *   method: 'POST',
+ *   path: '/users',
+ *   schema: { body: z.object({ name: z.string() }) },
+ *   meta: { tags: ['users'] },
+ *   handler: async (ctx) => ctx.json({ name: ctx.body.name }, 201),
+ * });
+ */
+export interface RouteDefinition<TSchema extends RouteSchema = RouteSchema, TExtra extends object = {}>
+  extends RouteOptions {
+  method: HTTPMethod;
+  path: string;
+  schema?: TSchema;
+  handler: Handler<
+    InferOr<TSchema['body'], unknown>,
+    InferOr<TSchema['query'], unknown>,
+    InferOr<TSchema['params'], unknown>,
+    TExtra
+  >;
+}
+
+/**
+ * Arguments accepted by route registration methods (get, post, ...)
+ * Optional route options followed by middleware, the last function being the handler
+ */
+export type RouteArgs =
+  | [options: RouteOptions, ...handlers: (Handler | Middleware)[]]
+  | (Handler | Middleware)[];
+
+/**
+ * RouteArgs with the handler's context typed by the app (TExtra) and the middleware before it
+ * One tuple (options are part of TLeading) - TypeScript infers it from the call arguments
+ *
+ * @example
+ * app.get('/me', authenticate(jwt), async (ctx) => ctx.json({ id: ctx.user.sub }));
+ */
+export type TypedRouteArgs<TExtra extends object, TLeading extends (RouteOptions | Middleware<any>)[]> = [
+  ...leading: TLeading,
+  handler: Handler<unknown, unknown, unknown, TExtra & ContextAdditions<TLeading>>,
+];
+
 /**
  * Router configuration
  */
 export interface RouterConfig {
   prefix?: string;
   middleware?: Middleware[];
+  notFound?: Handler; // Runs behind the router middleware when no route matches the path
 }
 
 /**
@@ -101,9 +284,23 @@ export interface ServerConfig {
   cors?: boolean | CorsConfig;
   middleware?: Middleware[];
   onError?: ErrorHandler;
-  onNotFound?: Handler;
+  onNotFound?: Handler; // Requests no route matches (default: 404 problem details)
+  errorFormatter?: ErrorFormatter; // Error response body (default: RFC 9457 problem details)
   observability?: ObservabilityConfig; // Phase 3.0
   adapter?: AdapterConfig; // Phase 3.2 - Server adapter selection
+  openapi?: OpenAPIConfig;
+  websocket?: WebSocketOptions; // Limits for WebSocket routes (app.ws)
+  bodyParser?: BodyParserConfig; // Size limits and built-in parsers
+  cookies?: CookieConfig; // Keys for signed/encrypted cookies and attribute defaults
+  shutdown?: ShutdownConfig; // Graceful shutdown (app.close())
+}
+
+/**
+ * Graceful shutdown configuration
+ */
+export interface ShutdownConfig {
+  timeout?: number; // Ms to drain in-flight requests, streams and WebSockets (default: 10000)
+  signals?: boolean | NodeJS.Signals[]; // Close on these signals, then exit - true means SIGTERM and SIGINT (default: false)
 }
 
 /**
@@ -126,6 +323,38 @@ export type ErrorHandler = (
   ctx: Context
 ) => void | Promise<void>;
 
+/**
+ * RFC 9457 problem details - the default error response body
+ * HTTPError details become extension members (e.g. `errors` for validation failures)
+ */
+export interface ProblemDetails {
+  type: string; // 'about:blank' - the title is the status text
+  title: string;
+  status: number;
+  code: string; // Machine-readable error code (e.g. NOT_FOUND, VALIDATION_FAILED)
+  detail?: string; // The error message
+  instance?: string; // Request path
+  traceId?: string; // When tracing is enabled
+  errors?: ValidationError[];
+  [extension: string]: unknown;
+}
+
+/**
+ * Error response formatter - its return value is sent as application/json
+ */
+export type ErrorFormatter = (problem: ProblemDetails, error: Error, ctx: Context) => unknown;
+
+/**
+ * Lifecycle hooks (app.onListen(), app.onShutdown(), app.onRequestStart(), app.onRequestEnd())
+ */
+export type ListenHook = (address: { port: number; host: string }) => void | Promise<void>;
+export type ShutdownHook = () => void | Promise<void>;
+export type RequestStartHook = (ctx: Context) => void | Promise<void>;
+export type RequestEndHook = (
+  ctx: Context,
+  info: { statusCode: number; duration: number; error?: Error } // duration in ms
+) => void | Promise<void>;
+
 /**
  * Validation error details
  */
@@ -138,11 +367,13 @@ export interface ValidationError {
 /**
  * HTTP Error with status code
  */
-export class HTTPError extends Error {
+export class HTTPError<TDetails = unknown> extends Error {
+  code?: string; // Machine-readable code - subclasses set one, otherwise it follows the status (see core/errors.ts)
+
   constructor(
     public statusCode: number,
     message: string,
-    public details?: unknown
+    public details?: TDetails
   ) {
     super(message);
     this.name = 'HTTPError';
@@ -0,0 +1,200 @@
+/**
+ * WebSocket routes
+ * Same API on every adapter - node-http (RFC 6455 on 'upgrade') and uWebSockets.js (native)
+ */
+
+import type { Context, Middleware } from './types.js';
+import type { RawWebSocket, WebSocketSession } from '../adapters/types.js';
+import { disposeRequestScope } from './container.js';
+
+/**
+ * Context of an upgrade request - route params are always strings
+ */
+export type WebSocketContext = Context<unknown, unknown, Record<string, string>>;
+
+/**
+ * WebSocket connection passed to route handlers
+ * TSend types the messages sent with json() and publishJSON()
+ */
+export interface WebSocket<TSend = unknown> {
+  /**
+   * Context of the upgrade request - params, query, headers, user and
+   * state set by middleware stay available for the connection's lifetime
+   */
+  readonly ctx: WebSocketContext;
+  readonly remoteAddress: string;
+
+  /**
+   * Bytes waiting to be written (backpressure)
+   */
+  readonly bufferedAmount: number;
+
+  /**
+   * Send a raw message (strings as text frames, bytes as binary frames)
+   * Returns false if the message was buffered or dropped
+   */
+  send(message: string | Uint8Array): boolean;
+
+  /**
+   * Send a typed message as JSON
+   */
+  json(message: TSend): boolean;
+
+  subscribe(topic: string): void;
+  unsubscribe(topic: string): void;
+  isSubscribed(topic: string): boolean;
+
+  /**
+   * Send to every other subscriber of a topic
+   */
+  publish(topic: string, message: string | Uint8Array): void;
+  publishJSON(topic: string, message: TSend): void;
+
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * WebSocket route definition
+ *
+ * @example
+ * app.ws<ChatMessage>('/rooms/:room', {
+ *   middleware: [authenticate(jwt)],
+ *   open: (ws) => ws.subscribe(ws.ctx.params.room),
+ *   message: (ws, message) => ws.publishJSON(ws.ctx.params.room, JSON.parse(message as string)),
+ * });
+ */
+export interface WebSocketHandlers<TSend = unknown> {
+  /**
+   * Middleware run on the upgrade request (after global middleware)
+   * Throwing or responding rejects the upgrade
+   */
+  middleware?: Middleware[];
+  open?: (ws: WebSocket<TSend>) => void | Promise<void>;
+  /**
+   * Text frames arrive as strings, binary frames as Buffers
+   */
+  message?: (ws: WebSocket<TSend>, message: string | Buffer, isBinary: boolean) => void | Promise<void>;
+  /**
+   * Socket drained after backpressure - safe to send more
+   */
+  drain?: (ws: WebSocket<TSend>) => void | Promise<void>;
+  close?: (ws: WebSocket<TSend>, code: number, reason: string) => void | Promise<void>;
+}
+
+/**
+ * Registered WebSocket route
+ */
+export interface WebSocketRoute {
+  path: string;
+  handlers: WebSocketHandlers<any>;
+  middleware: Middleware[]; // Global + route middleware, run on upgrade
+}
+
+/**
+ * Run middleware for an upgrade request
+ * Resolves to true if the whole chain called next()
+ */
+export async function runUpgradeMiddleware(middleware: Middleware[], ctx: Context): Promise<boolean> {
+  let accepted = false;
+  let index = 0;
+
+  const next = async (): Promise<void> => {
+    if (index < middleware.length) {
+      await middleware[index++](ctx, next);
+    } else {
+      accepted = true;
+    }
+  };
+  await next();
+
+  return accepted;
+}
+
+/**
+ * Connection wrapper handed to route handlers
+ */
+class WebSocketConnection<TSend> implements WebSocket<TSend> {
+  constructor(private raw: RawWebSocket, readonly ctx: WebSocketContext) {}
+
+  get remoteAddress(): string {
+    return this.raw.remoteAddress;
+  }
+
+  get bufferedAmount(): number {
+    return this.raw.getBufferedAmount();
+  }
+
+  send(message: string | Uint8Array): boolean {
+    return this.raw.send(message, typeof message !== 'string');
+  }
+
+  json(message: TSend): boolean {
+    return this.raw.send(JSON.stringify(message), false);
+  }
+
+  subscribe(topic: string): void {
+    this.raw.subscribe(topic);
+  }
+
+  unsubscribe(topic: string): void {
+    this.raw.unsubscribe(topic);
+  }
+
+  isSubscribed(topic: string): boolean {
+    return this.raw.isSubscribed(topic);
+  }
+
+  publish(topic: string, message: string | Uint8Array): void {
+    this.raw.publish(topic, message, typeof message !== 'string');
+  }
+
+  publishJSON(topic: string, message: TSend): void {
+    this.raw.publish(topic, JSON.stringify(message), false);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.raw.close(code, reason);
+  }
+}
+
+/**
+ * Create the adapter session for an accepted upgrade
+ * Handler errors are logged and close the connection with 1011
+ * The request scope (ctx.resolve()) lives until the connection closes
+ */
+export function createWebSocketSession(ctx: Context, handlers: WebSocketHandlers<any>): WebSocketSession {
+  let connection: WebSocketConnection<unknown>;
+
+  const run = (fn: (() => void | Promise<void>) | undefined) => {
+    if (!fn) return;
+    Promise.resolve()
+      .then(fn)
+      .catch((error) => {
+        console.error('Error in WebSocket handler:', error);
+        connection.close(1011, 'Internal error');
+      });
+  };
+
+  return {
+    open(raw) {
+      connection = new WebSocketConnection(raw, ctx as WebSocketContext);
+      run(handlers.open && (() => handlers.open!(connection)));
+    },
+    message(_raw, data, isBinary) {
+      const message = isBinary ? data : data.toString('utf-8');
+      run(handlers.message && (() => handlers.message!(connection, message, isBinary)));
+    },
+    drain() {
+      run(handlers.drain && (() => handlers.drain!(connection)));
+    },
+    close(_raw, code, reason) {
+      run(async () => {
+        try {
+          await handlers.close?.(connection, code, reason);
+        } finally {
+          await disposeRequestScope(ctx);
+        }
+      });
+    },
+  };
+}
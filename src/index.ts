@@ -8,31 +8,136 @@
 export { Server, createApp } from './core/server.js';
 export { Router } from './core/router.js';
 export { HTTPError } from './core/types.js';
+export { createProblem } from './core/problem.js';
+export {
+  ErrorRegistry,
+  errorRegistry,
+  BadRequestError,
+  ValidationFailedError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  MethodNotAllowedError,
+  ConflictError,
+  PayloadTooLargeError,
+  TooManyRequestsError,
+} from './core/errors.js';
+export type { ErrorCodeMapping, ResolvedError } from './core/errors.js';
 
 // Type exports
 export type {
   Context,
   Handler,
   Middleware,
+  ContextAdditions,
+  ContextState,
+  ContextDecorators,
   Route,
+  RouteOptions,
+  RouteArgs,
+  TypedRouteArgs,
+  RouteDefinition,
+  RouteSchema,
+  RouteMeta,
   HTTPMethod,
   ServerConfig,
   RouterConfig,
   CorsConfig,
   ErrorHandler,
+  ErrorFormatter,
+  ProblemDetails,
+  ShutdownConfig,
+  ListenHook,
+  ShutdownHook,
+  RequestStartHook,
+  RequestEndHook,
   ValidationError,
   InferSchema,
+  UploadedFile,
+  UploadedFiles,
 } from './core/types.js';
 
+export type {
+  StreamChunk,
+  StreamSource,
+  ResponseWriter,
+} from './core/stream.js';
+
+export { serializeCookie, parseCookieHeader } from './core/cookies.js';
+
+export type {
+  CookieOptions,
+  CookieGetOptions,
+  CookieConfig,
+  CookieJar,
+} from './core/cookies.js';
+
+export type {
+  BodyParser,
+  BodyParserOptions,
+  BodyParserConfig,
+} from './core/body-parser.js';
+
+export { SerializerRegistry, parseAccept, negotiateEncoding } from './core/negotiation.js';
+export type { ContentSerializer } from './core/negotiation.js';
+export { encodeMsgpack } from './utils/msgpack.js';
+
+export type {
+  WebSocket,
+  WebSocketContext,
+  WebSocketHandlers,
+} from './core/websocket.js';
+
+export type {
+  SSEEvent,
+  SSEOptions,
+  SSEStream,
+} from './core/sse.js';
+
+export type { InjectOptions, InjectResponse } from './core/inject.js';
+
+export type { Plugin } from './core/plugin.js';
+
+export { Container, RequestScope, InjectionToken } from './core/container.js';
+export type { Token, Lifetime, Provider, Resolver } from './core/container.js';
+
 // Middleware exports
 export {
   validate,
+  validationError,
+  toValidationErrors,
   createHandler,
   cors,
   logger,
   rateLimit,
+  multipart,
+  parseMultipart,
+  diskStorage,
+  memoryStorage,
+  uploadedFileSchema,
+  serveStatic,
+  compress,
+  cache,
+  MemoryCacheStore,
+} from './middleware/index.js';
+
+export type {
+  MultipartOptions,
+  MultipartLimits,
+  MultipartFileInfo,
+  FileStorage,
+  StoredFile,
+  StaticOptions,
+  CompressOptions,
+  CompressEncoding,
+  CacheOptions,
+  CacheStore,
+  CachedResponse,
+  CacheMiddleware,
 } from './middleware/index.js';
 
+export type { SendFileOptions } from './core/send-file.js';
+
 // Auth exports
 export {
   JWTService,
@@ -40,11 +145,19 @@ export {
   optionalAuthenticate,
   PasswordService,
   passwordService,
+  session,
+  Session,
+  MemoryStore,
+  FileStore,
 } from './auth/index.js';
 
 export type {
   JWTConfig,
   JWTPayload,
+  SessionData,
+  SessionRecord,
+  SessionStore,
+  SessionOptions,
 } from './auth/index.js';
 
 // Protocol exports
@@ -65,6 +178,23 @@ export type {
   GRPCOperation,
 } from './protocols/index.js';
 
+// OpenAPI exports
+export {
+  generateOpenAPI,
+  zodToJsonSchema,
+  renderDocsPage,
+} from './openapi/index.js';
+
+export type {
+  JSONSchema,
+  OpenAPIConfig,
+  OpenAPIInfo,
+  OpenAPIServer,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIParameter,
+} from './openapi/index.js';
+
 // Adapter exports (Phase 3.2 & 3.3)
 export {
   createAdapter,
@@ -80,6 +210,12 @@ export type {
   RequestHandler,
   RawRequestInfo,
   RawResponseData,
+  FileBody,
   AdapterConfig,
   AdapterFactory,
+  RawWebSocket,
+  WebSocketSession,
+  UpgradeHandler,
+  WebSocketOptions,
+  CloseOptions,
 } from './adapters/index.js';
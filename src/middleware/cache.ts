@@ -0,0 +1,311 @@
+import { createHash } from 'crypto';
+import type { Context, Middleware } from '../core/types.js';
+import type { ResponseBuffer } from '../core/context.js';
+import type { RawRequestInfo, RawResponseData } from '../adapters/types.js';
+import { parseBytes } from '../core/body-parser.js';
+import { matchesETag } from '../core/send-file.js';
+import { trackCache } from '../observability/flow/dependencies.js';
+import { getHeader, deleteHeader, type HeaderMap } from '../utils/headers.js';
+
+/**
+ * Response stored in the server-side cache
+ */
+export interface CachedResponse {
+  statusCode: number;
+  headers: HeaderMap;
+  body: Buffer;
+  tags: string[];
+  storedAt: number; // Epoch ms
+  freshUntil: number; // Epoch ms - served as a HIT until then
+  staleUntil: number; // Epoch ms - served as STALE (and refreshed) until then
+}
+
+/**
+ * Response cache store interface
+ * Implement it for Redis, Memcached, etc.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CachedResponse | undefined>; // Entries past staleUntil read as undefined
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  invalidateTags(tags: string[]): Promise<number>; // Returns the number of entries removed
+}
+
+/**
+ * cache() middleware options
+ */
+export interface CacheOptions {
+  etag?: 'weak' | 'strong' | false; // ETag for buffered responses without one, from a content hash (default: 'weak')
+  ttl?: number; // Seconds responses are served from the server-side cache (default: 0 - ETags only)
+  staleWhileRevalidate?: number; // Seconds a stale response is still served while it is refreshed (default: 0)
+  store?: CacheStore; // Default: MemoryCacheStore
+  key?: (ctx: Context) => string; // Cache key before Vary headers (default: path + sorted query)
+  tags?: string[] | ((ctx: Context) => string[]); // Tags for invalidation, resolved after the handler ran
+}
+
+/**
+ * cache() middleware, with its store for invalidation
+ */
+export type CacheMiddleware = Middleware & {
+  store: CacheStore;
+  invalidate(tags: string | string[]): Promise<number>;
+};
+
+/**
+ * In-memory LRU response cache
+ * For a single process only - bounded by entry count and total body size
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CachedResponse>(); // Least recently used first
+  private tagIndex = new Map<string, Set<string>>();
+  private size = 0;
+  private maxEntries: number;
+  private maxSize: number;
+
+  constructor(options: { maxEntries?: number; maxSize?: number | string } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxSize = parseBytes(options.maxSize ?? '50mb');
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.staleUntil <= Date.now()) {
+      this.remove(key);
+      return undefined;
+    }
+
+    // PERFORMANCE: Map keeps insertion order - re-inserting marks the entry as recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.remove(key);
+    if (entry.body.length > this.maxSize) return;
+
+    this.entries.set(key, entry);
+    this.size += entry.body.length;
+    for (const tag of entry.tags) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) this.tagIndex.set(tag, (keys = new Set()));
+      keys.add(key);
+    }
+
+    while (this.entries.size > this.maxEntries || this.size > this.maxSize) {
+      this.remove(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of this.tagIndex.get(tag) ?? []) {
+        if (this.remove(key)) removed++;
+      }
+    }
+    return removed;
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.entries.delete(key);
+    this.size -= entry.body.length;
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
+    }
+    return true;
+  }
+}
+
+/**
+ * Default cache key - GET and HEAD share entries, query parameter order is ignored
+ */
+function defaultKey(ctx: Context): string {
+  const qIdx = ctx.url.indexOf('?');
+  const query = qIdx === -1 ? '' : ctx.url.slice(qIdx + 1).split('&').sort().join('&');
+  return query ? `${ctx.path}?${query}` : ctx.path;
+}
+
+/**
+ * Names listed in a Vary header, lowercased and sorted
+ */
+function varyNames(vary: string | undefined): string[] {
+  if (!vary) return [];
+  return [...new Set(vary.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean))].sort();
+}
+
+// Vary header names last seen per key - bounded, an unknown key just misses once
+const MAX_VARY_KEYS = 10000;
+
+// Request headers of background revalidations (see revalidate below)
+const revalidations = new WeakSet<object>();
+
+/**
+ * HTTP caching middleware
+ * Generates ETags for buffered responses and answers conditional GETs with 304.
+ *
+ * With `ttl`, responses are also cached server-side, keyed by path, query and the
+ * request headers the response Varies on. Stale entries are served for
+ * `staleWhileRevalidate` seconds while a background request refreshes them.
+ * Only 200 responses with buffered bodies are stored - never ones setting cookies,
+ * marked `Cache-Control: no-store` or `private`.
+ *
+ * @example
+ * const responses = cache({ ttl: 60, staleWhileRevalidate: 300, tags: ['products'] });
+ * app.get('/products', responses, listProducts);
+ * app.post('/products', async (ctx) => { ...; await responses.invalidate('products'); });
+ */
+export function cache(options: CacheOptions = {}): CacheMiddleware {
+  const etagMode = options.etag ?? 'weak';
+  const ttl = (options.ttl ?? 0) * 1000;
+  const staleWindow = (options.staleWhileRevalidate ?? 0) * 1000;
+  const store = options.store ?? new MemoryCacheStore();
+  const keyOf = options.key ?? defaultKey;
+
+  const varyIndex = new Map<string, string[]>();
+  const revalidating = new Set<string>(); // Keys with a refresh in flight
+
+  const variantKey = (base: string, headers: Context['headers'], names = varyIndex.get(base) ?? []): string => {
+    let key = base;
+    for (const name of names) {
+      const value = headers[name];
+      key += `\n${name}: ${Array.isArray(value) ? value.join(', ') : (value ?? '')}`;
+    }
+    return key;
+  };
+
+  const storable = (response: ResponseBuffer): boolean => {
+    if (response.statusCode !== 200 || response.body === undefined) return false;
+    if (getHeader(response.headers, 'Set-Cookie') !== undefined) return false;
+    if (/(?:^|,)\s*(?:no-store|private)\b/i.test(getHeader(response.headers, 'Cache-Control') ?? '')) return false;
+    return getHeader(response.headers, 'Vary')?.trim() !== '*';
+  };
+
+  /**
+   * Refresh a stale entry with an internal request through the app
+   * Its cache() sees the marked headers and stores the new response
+   */
+  const revalidate = (ctx: Context, key: string) => {
+    const dispatch = (ctx as any)._dispatch as ((info: RawRequestInfo) => Promise<RawResponseData>) | undefined;
+    if (!dispatch || revalidating.has(key)) return;
+
+    const headers = { ...ctx.headers } as HeaderMap;
+    delete headers['if-none-match'];
+    delete headers['if-modified-since'];
+    revalidations.add(headers);
+    revalidating.add(key);
+
+    dispatch({ method: 'GET', url: ctx.url, headers })
+      .catch((error) => console.error('❌ Cache revalidation failed:', error))
+      .finally(() => revalidating.delete(key));
+  };
+
+  /**
+   * Add an ETag (from a content hash) unless the handler set one
+   */
+  const ensureETag = (ctx: Context, response: ResponseBuffer): string | undefined => {
+    let etag = getHeader(response.headers, 'ETag');
+    if (!etag && etagMode && response.body !== undefined) {
+      const hash = createHash('sha1').update(response.body).digest('base64url');
+      etag = etagMode === 'weak' ? `W/"${hash}"` : `"${hash}"`;
+      ctx.setHeader('ETag', etag);
+    }
+    return etag;
+  };
+
+  /**
+   * Turn the response into a 304 if the client already has it
+   */
+  const conditional = (ctx: Context, response: ResponseBuffer) => {
+    if (response.statusCode !== 200 || response.body === undefined) return;
+
+    const etag = ensureETag(ctx, response);
+    const ifNoneMatch = ctx.headers['if-none-match'] as string | undefined;
+    if (etag && ifNoneMatch && matchesETag(ifNoneMatch, etag)) {
+      response.statusCode = 304;
+      response.body = undefined;
+      deleteHeader(response.headers, 'Content-Length');
+    }
+  };
+
+  const middleware: Middleware = async (ctx, next) => {
+    const response = (ctx as any)._response as ResponseBuffer | undefined;
+    if ((ctx.method !== 'GET' && ctx.method !== 'HEAD') || !response) return next();
+
+    if (!ttl) {
+      await next();
+      conditional(ctx, response);
+      return;
+    }
+
+    const base = keyOf(ctx);
+    const key = variantKey(base, ctx.headers);
+
+    // Background revalidations skip the lookup - they exist to replace the entry
+    if (!revalidations.has(ctx.headers)) {
+      const entry = await trackCache(ctx, 'get', key, () => store.get(key));
+      if (entry) {
+        const now = Date.now();
+        const stale = now >= entry.freshUntil;
+        if (stale) revalidate(ctx, key);
+
+        for (const [name, value] of Object.entries(entry.headers)) {
+          ctx.setHeader(name, value);
+        }
+        ctx.setHeader('Age', String(Math.floor((now - entry.storedAt) / 1000)));
+        ctx.setHeader('X-Cache', stale ? 'STALE' : 'HIT');
+        ctx.status(entry.statusCode);
+        ctx.res.end(entry.body);
+        conditional(ctx, response);
+        return;
+      }
+    }
+
+    await next();
+    if (response.sent && response.body !== undefined) {
+      ctx.setHeader('X-Cache', 'MISS');
+    }
+
+    if (storable(response)) {
+      ensureETag(ctx, response);
+
+      const names = varyNames(getHeader(response.headers, 'Vary'));
+      if (varyIndex.size >= MAX_VARY_KEYS && !varyIndex.has(base)) {
+        varyIndex.delete(varyIndex.keys().next().value!);
+      }
+      varyIndex.set(base, names);
+
+      const now = Date.now();
+      const headers = { ...response.headers };
+      deleteHeader(headers, 'X-Cache');
+      const entry: CachedResponse = {
+        statusCode: response.statusCode,
+        headers,
+        body: Buffer.from(response.body!),
+        tags: typeof options.tags === 'function' ? options.tags(ctx) : (options.tags ?? []),
+        storedAt: now,
+        freshUntil: now + ttl,
+        staleUntil: now + ttl + staleWindow,
+      };
+      const storeKey = variantKey(base, ctx.headers, names);
+      await trackCache(ctx, 'set', storeKey, () => store.set(storeKey, entry), { ttl: (ttl + staleWindow) / 1000 });
+    }
+
+    conditional(ctx, response);
+  };
+
+  return Object.assign(middleware, {
+    store,
+    invalidate: (tags: string | string[]) => store.invalidateTags(Array.isArray(tags) ? tags : [tags]),
+  });
+}
@@ -0,0 +1,186 @@
+import { createReadStream } from 'fs';
+import { once } from 'events';
+import { promisify } from 'util';
+import {
+  constants,
+  brotliCompress,
+  deflate,
+  gzip,
+  createBrotliCompress,
+  createDeflate,
+  createGzip,
+  type BrotliCompress,
+  type Deflate,
+  type Gzip,
+} from 'zlib';
+import type { Middleware } from '../core/types.js';
+import type { ResponseBuffer } from '../core/context.js';
+import { parseBytes } from '../core/body-parser.js';
+import { negotiateEncoding } from '../core/negotiation.js';
+import { ResponseStream, type StreamSource } from '../core/stream.js';
+import { isTextType } from '../utils/mime.js';
+import { getHeader, deleteHeader } from '../utils/headers.js';
+
+export type CompressEncoding = 'br' | 'gzip' | 'deflate';
+
+/**
+ * Response compression options
+ */
+export interface CompressOptions {
+  threshold?: number | string; // Smaller bodies are sent as is (default: '1kb')
+  encodings?: CompressEncoding[]; // Offered encodings, in order of preference (default: ['br', 'gzip', 'deflate'])
+  filter?: (contentType: string) => boolean; // Compressible types (default: text types, JSON and XML - not event streams)
+  level?: number; // gzip/deflate level, 1-9 (default: 6)
+  brotliQuality?: number; // Brotli quality, 0-11 (default: 4 - higher levels are too slow per request)
+}
+
+type Compressor = BrotliCompress | Gzip | Deflate;
+
+const gzipAsync = promisify(gzip);
+const deflateAsync = promisify(deflate);
+const brotliAsync = promisify(brotliCompress);
+
+// Text formats isTextType() doesn't cover
+const STREAMING_TYPES = new Set(['application/x-ndjson', 'application/jsonl']);
+
+function defaultFilter(contentType: string): boolean {
+  return contentType !== 'text/event-stream' && (isTextType(contentType) || STREAMING_TYPES.has(contentType));
+}
+
+/**
+ * Compression middleware
+ * Negotiates br/gzip/deflate from Accept-Encoding and compresses buffered
+ * bodies, streams and files before the adapter writes them.
+ *
+ * Streamed chunks are flushed one by one, so clients still see them as they are produced.
+ * Responses with `Cache-Control: no-transform`, a Content-Encoding or a Content-Range are left alone.
+ *
+ * @example
+ * app.use(compress({ threshold: '2kb' }));
+ */
+export function compress(options: CompressOptions = {}): Middleware {
+  const threshold = parseBytes(options.threshold ?? '1kb');
+  const encodings = options.encodings ?? ['br', 'gzip', 'deflate'];
+  const filter = options.filter ?? defaultFilter;
+  const level = options.level ?? 6;
+  const brotliQuality = options.brotliQuality ?? 4;
+
+  const compressBuffer = (body: Buffer | string, encoding: CompressEncoding): Promise<Buffer> => {
+    if (encoding === 'br') {
+      return brotliAsync(body, {
+        params: {
+          [constants.BROTLI_PARAM_QUALITY]: brotliQuality,
+          [constants.BROTLI_PARAM_SIZE_HINT]: Buffer.byteLength(body),
+        },
+      });
+    }
+    return encoding === 'gzip' ? gzipAsync(body, { level }) : deflateAsync(body, { level });
+  };
+
+  const createCompressor = (encoding: CompressEncoding): Compressor => {
+    if (encoding === 'br') {
+      return createBrotliCompress({ params: { [constants.BROTLI_PARAM_QUALITY]: brotliQuality } });
+    }
+    return encoding === 'gzip' ? createGzip({ level }) : createDeflate({ level });
+  };
+
+  /**
+   * Compress a stream chunk by chunk, flushing after each one
+   */
+  async function* compressStream(source: StreamSource, encoding: CompressEncoding): AsyncGenerator<Buffer> {
+    const compressor = createCompressor(encoding);
+    const flushMode = encoding === 'br' ? constants.BROTLI_OPERATION_FLUSH : constants.Z_SYNC_FLUSH;
+    const output: Buffer[] = [];
+    let failure: Error | undefined;
+    compressor.on('data', (chunk: Buffer) => output.push(chunk));
+    compressor.on('error', (error) => (failure = error));
+
+    try {
+      for await (const chunk of source) {
+        compressor.write(chunk);
+        await new Promise<void>((resolve) => compressor.flush(flushMode, () => resolve()));
+        if (failure) throw failure;
+        if (output.length > 0) yield Buffer.concat(output.splice(0));
+      }
+
+      const ended = once(compressor, 'end');
+      compressor.end();
+      await ended;
+      if (output.length > 0) yield Buffer.concat(output.splice(0));
+    } finally {
+      compressor.destroy();
+    }
+  }
+
+  return async (ctx, next) => {
+    const response = (ctx as any)._response as ResponseBuffer | undefined;
+    if (!response) return next(); // Legacy contexts write straight to the socket
+
+    const acceptEncoding = ctx.headers['accept-encoding'] as string | undefined;
+
+    /**
+     * Pick an encoding for the response as it stands, setting Vary for compressible types
+     * `size` is the body size when known
+     */
+    const select = (size?: number): CompressEncoding | undefined => {
+      const headers = response.headers;
+      const contentType = getHeader(headers, 'Content-Type')?.split(';')[0].trim().toLowerCase();
+      if (!contentType || !filter(contentType)) return undefined;
+      if (/(?:^|,)\s*no-transform\s*(?:,|$)/i.test(getHeader(headers, 'Cache-Control') ?? '')) return undefined;
+      if (getHeader(headers, 'Content-Encoding') || getHeader(headers, 'Content-Range')) return undefined;
+      if (response.statusCode === 204 || response.statusCode === 304) return undefined;
+
+      if (!getHeader(headers, 'Vary')?.toLowerCase().includes('accept-encoding')) {
+        ctx.appendHeader('Vary', 'Accept-Encoding');
+      }
+      if (size !== undefined && size < threshold) return undefined;
+
+      return negotiateEncoding(acceptEncoding, encodings) as CompressEncoding | undefined;
+    };
+
+    const markEncoded = (encoding: CompressEncoding) => {
+      ctx.setHeader('Content-Encoding', encoding);
+      // The compressed bytes differ from the identity representation
+      const etag = getHeader(response.headers, 'ETag');
+      if (etag && !etag.startsWith('W/')) ctx.setHeader('ETag', `W/${etag}`);
+    };
+
+    // Streams are handed to the adapter as soon as they start - compress on the way through
+    const stream = ctx.stream;
+    ctx.stream = (source, status) => {
+      if (response.sent) return Promise.resolve();
+      if (status) ctx.status(status);
+
+      const declared = getHeader(response.headers, 'Content-Length');
+      const encoding = select(declared === undefined ? undefined : Number(declared));
+      if (!encoding) return stream(source, status);
+
+      deleteHeader(response.headers, 'Content-Length');
+      markEncoded(encoding);
+      return stream(compressStream(source, encoding), status);
+    };
+
+    await next();
+
+    if (response.body !== undefined && response.body !== '') {
+      const encoding = select(Buffer.byteLength(response.body));
+      if (!encoding) return;
+
+      const body = await compressBuffer(response.body, encoding);
+      response.body = body;
+      ctx.setHeader('Content-Length', String(body.length));
+      markEncoded(encoding);
+    } else if (response.file && response.statusCode === 200) {
+      // Files without a precompressed sibling - ranges don't apply to the compressed bytes
+      const { path, start, end } = response.file;
+      const encoding = select(end - start + 1);
+      if (!encoding) return;
+
+      response.file = undefined;
+      response.stream = new ResponseStream(compressStream(createReadStream(path, { start, end }), encoding));
+      deleteHeader(response.headers, 'Content-Length');
+      deleteHeader(response.headers, 'Accept-Ranges');
+      markEncoded(encoding);
+    }
+  };
+}
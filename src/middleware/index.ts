@@ -1,7 +1,27 @@
 /**
  * Built-in middleware exports
  */
-export { validate, createHandler } from './validation.js';
+export { validate, validationError, toValidationErrors, createHandler } from './validation.js';
 export { cors } from './cors.js';
 export { logger } from './logger.js';
 export { rateLimit } from './rate-limit.js';
+export {
+  multipart,
+  parseMultipart,
+  diskStorage,
+  memoryStorage,
+  uploadedFileSchema,
+} from './multipart.js';
+export type {
+  MultipartOptions,
+  MultipartLimits,
+  MultipartFileInfo,
+  FileStorage,
+  StoredFile,
+} from './multipart.js';
+export { serveStatic } from './static.js';
+export type { StaticOptions } from './static.js';
+export { compress } from './compress.js';
+export type { CompressOptions, CompressEncoding } from './compress.js';
+export { cache, MemoryCacheStore } from './cache.js';
+export type { CacheOptions, CacheStore, CachedResponse, CacheMiddleware } from './cache.js';
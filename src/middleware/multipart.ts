@@ -0,0 +1,334 @@
+import { createWriteStream } from 'fs';
+import { unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, extname } from 'path';
+import { randomUUID } from 'crypto';
+import { once } from 'events';
+import { PassThrough, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { z } from 'zod';
+import type { Middleware, UploadedFile, UploadedFiles } from '../core/types.js';
+import { HTTPError } from '../core/types.js';
+import { PayloadTooLargeError } from '../core/errors.js';
+import { MultipartParser, getBoundary, isMultipart } from '../core/multipart.js';
+
+/**
+ * Multipart size and count limits
+ */
+export interface MultipartLimits {
+  fileSize?: number; // Max bytes per file (default: 10 MB)
+  files?: number; // Max number of files (default: 10)
+  fieldSize?: number; // Max bytes per field value (default: 1 MB)
+  fields?: number; // Max number of fields (default: 100)
+  totalSize?: number; // Max bytes for the whole body (default: 50 MB)
+}
+
+/**
+ * File metadata handed to a storage before its content arrives
+ */
+export interface MultipartFileInfo {
+  fieldName: string;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * Where a stored file ended up
+ */
+export type StoredFile = Pick<UploadedFile, 'path' | 'buffer' | 'metadata'>;
+
+/**
+ * File sink
+ * save() consumes the stream - reading slowly slows down the upload
+ */
+export interface FileStorage {
+  save(file: MultipartFileInfo, stream: Readable): Promise<StoredFile>;
+  remove?(file: UploadedFile): Promise<void>; // Called when the request fails after the file was stored
+}
+
+/**
+ * Multipart middleware options
+ */
+export interface MultipartOptions {
+  limits?: MultipartLimits;
+  dest?: string; // Keep files in this directory (default: temp dir, removed after the request)
+  storage?: FileStorage; // Custom sink (e.g. object storage) - overrides dest
+}
+
+/**
+ * Zod schema for uploaded file metadata
+ *
+ * @example
+ * const avatar = uploadedFileSchema.extend({
+ *   mimeType: z.enum(['image/png', 'image/jpeg']),
+ *   size: z.number().max(2 * 1024 * 1024),
+ * });
+ */
+export const uploadedFileSchema = z.object({
+  fieldName: z.string(),
+  filename: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  path: z.string().optional(),
+  buffer: z.instanceof(Buffer).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Store files on disk under random names
+ */
+export function diskStorage(options: { dir?: string } = {}): FileStorage {
+  const dir = options.dir || tmpdir();
+
+  return {
+    async save(file, stream) {
+      // Client names are untrusted - only a short alphanumeric extension is kept
+      const ext = extname(file.filename);
+      const path = join(dir, randomUUID() + (/^\.[a-z0-9]{1,16}$/i.test(ext) ? ext : ''));
+
+      try {
+        await pipeline(stream, createWriteStream(path));
+      } catch (error) {
+        await unlink(path).catch(() => {});
+        throw error;
+      }
+      return { path };
+    },
+    async remove(file) {
+      if (file.path) await unlink(file.path).catch(() => {});
+    },
+  };
+}
+
+/**
+ * Keep files in memory (small uploads only - bounded by limits.fileSize)
+ */
+export function memoryStorage(): FileStorage {
+  return {
+    async save(_file, stream) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return { buffer: Buffer.concat(chunks) };
+    },
+  };
+}
+
+/**
+ * Add a value under a key - repeated keys become arrays
+ */
+function append<T>(record: Record<string, T | T[]>, key: string, value: T): void {
+  const existing = record[key];
+  if (existing === undefined) {
+    record[key] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    record[key] = [existing, value];
+  }
+}
+
+/**
+ * Streams one file part into its storage
+ */
+class FileUpload {
+  size = 0;
+  private stream = new PassThrough();
+  private saving: Promise<StoredFile>;
+  private settled = false;
+
+  constructor(private info: MultipartFileInfo, storage: FileStorage) {
+    this.saving = storage.save(info, this.stream);
+    this.saving.then(
+      () => (this.settled = true),
+      () => (this.settled = true)
+    );
+  }
+
+  async write(data: Buffer): Promise<void> {
+    this.size += data.length;
+    if (this.settled) {
+      await this.saving; // Surface sink errors, drop data the sink no longer wants
+      return;
+    }
+
+    // Backpressure: wait for the sink before reading more of the request
+    if (!this.stream.write(data)) {
+      await Promise.race([once(this.stream, 'drain'), this.saving]);
+    }
+  }
+
+  async end(): Promise<UploadedFile> {
+    this.stream.end();
+    const stored = await this.saving;
+    return { ...this.info, size: this.size, ...stored };
+  }
+
+  async abort(error: Error): Promise<void> {
+    this.stream.destroy(error);
+    await this.saving.catch(() => {});
+  }
+}
+
+/**
+ * Iterate a request body without destroying it when iteration stops early,
+ * so the rest can be drained and an error response still sent
+ */
+function iterate(source: Readable): AsyncIterable<Buffer> {
+  return typeof source.iterator === 'function' ? source.iterator({ destroyOnReturn: false }) : source;
+}
+
+/**
+ * Parse a multipart body from a stream
+ */
+export async function parseMultipart(
+  source: Readable,
+  contentType: string,
+  options: MultipartOptions = {}
+): Promise<{ fields: Record<string, string | string[]>; files: UploadedFiles; uploaded: UploadedFile[] }> {
+  const boundary = getBoundary(contentType);
+  if (!boundary) {
+    throw new HTTPError(400, 'Malformed multipart body', { reason: 'Missing boundary' });
+  }
+
+  const limits = {
+    fileSize: 10 * 1024 * 1024,
+    files: 10,
+    fieldSize: 1024 * 1024,
+    fields: 100,
+    totalSize: 50 * 1024 * 1024,
+    ...options.limits,
+  };
+  const storage = options.storage || diskStorage({ dir: options.dest });
+
+  const parser = new MultipartParser(boundary);
+  const fields: Record<string, string | string[]> = {};
+  const files: UploadedFiles = {};
+  const uploaded: UploadedFile[] = [];
+
+  let total = 0;
+  let fieldCount = 0;
+  let fileCount = 0;
+  let field: { name: string; chunks: Buffer[]; size: number } | undefined;
+  let file: FileUpload | undefined;
+  let fileField = '';
+
+  try {
+    for await (const chunk of iterate(source)) {
+      total += chunk.length;
+      if (total > limits.totalSize) {
+        throw new PayloadTooLargeError('Request body too large', { limit: limits.totalSize });
+      }
+
+      for (const event of parser.write(chunk)) {
+        if (event.type === 'part') {
+          const { part } = event;
+          if (part.filename === undefined) {
+            if (++fieldCount > limits.fields) {
+              throw new PayloadTooLargeError('Too many fields', { limit: limits.fields });
+            }
+            field = { name: part.name, chunks: [], size: 0 };
+          } else if (part.filename !== '') {
+            // An empty filename is a file input with no file chosen - its part is skipped
+            if (++fileCount > limits.files) {
+              throw new PayloadTooLargeError('Too many files', { limit: limits.files });
+            }
+            fileField = part.name;
+            file = new FileUpload(
+              {
+                fieldName: part.name,
+                filename: part.filename.split(/[\\/]/).pop() || '',
+                mimeType: part.contentType,
+              },
+              storage
+            );
+          }
+        } else if (event.type === 'data') {
+          if (field) {
+            field.size += event.data.length;
+            if (field.size > limits.fieldSize) {
+              throw new PayloadTooLargeError('Field too large', { field: field.name, limit: limits.fieldSize });
+            }
+            field.chunks.push(event.data);
+          } else if (file) {
+            if (file.size + event.data.length > limits.fileSize) {
+              throw new PayloadTooLargeError('File too large', { field: fileField, limit: limits.fileSize });
+            }
+            await file.write(event.data);
+          }
+        } else {
+          if (field) {
+            append(fields, field.name, Buffer.concat(field.chunks).toString('utf-8'));
+            field = undefined;
+          } else if (file) {
+            const current = file;
+            file = undefined;
+            const result = await current.end();
+            uploaded.push(result);
+            append(files, result.fieldName, result);
+          }
+        }
+      }
+    }
+
+    parser.end();
+  } catch (error) {
+    await file?.abort(error as Error);
+    if (storage.remove) {
+      await Promise.all(uploaded.map((upload) => storage.remove!(upload)));
+    }
+    // Discard the rest of the body so the error response can still be sent
+    source.resume();
+    throw error;
+  }
+
+  return { fields, files, uploaded };
+}
+
+/**
+ * Parse multipart/form-data bodies
+ * Fields go to ctx.body, files to ctx.files. Without `dest` or `storage`,
+ * files are written to the temp dir and removed once the request completes.
+ *
+ * @example
+ * app.post('/users/:id/avatar', multipart({ limits: { fileSize: 2 * 1024 * 1024 } }), async (ctx) => {
+ *   const avatar = ctx.files!.avatar as UploadedFile;
+ *   await rename(avatar.path!, `./uploads/${ctx.params.id}.png`);
+ * });
+ */
+export function multipart(options: MultipartOptions = {}): Middleware {
+  const cleanup = !options.storage && !options.dest;
+  const storage = options.storage || diskStorage({ dir: options.dest });
+
+  return async (ctx, next) => {
+    // Not multipart, or already parsed earlier in the chain
+    if (ctx.files || !isMultipart(ctx.headers)) {
+      await next();
+      return;
+    }
+
+    const totalSize = options.limits?.totalSize ?? 50 * 1024 * 1024;
+    if (Number(ctx.headers['content-length']) > totalSize) {
+      throw new PayloadTooLargeError('Request body too large', { limit: totalSize });
+    }
+
+    // Adapters expose the unread body - the legacy server passes IncomingMessage directly
+    const source: Readable = (ctx as any)._bodyStream || ctx.req;
+    const { fields, files, uploaded } = await parseMultipart(source, ctx.headers['content-type'] as string, {
+      ...options,
+      storage,
+    });
+
+    ctx.body = fields;
+    ctx.files = files;
+
+    try {
+      await next();
+    } finally {
+      if (cleanup) {
+        await Promise.all(uploaded.map((upload) => storage.remove!(upload)));
+      }
+    }
+  };
+}
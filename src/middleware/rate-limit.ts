@@ -1,5 +1,5 @@
 import type { Middleware } from '../core/types.js';
-import { HTTPError } from '../core/types.js';
+import { TooManyRequestsError } from '../core/errors.js';
 
 /**
  * Rate limit configuration
@@ -103,7 +103,7 @@ export function rateLimit(config: RateLimitConfig = {}): Middleware {
 
     if (!result.allowed) {
       ctx.setHeader('Retry-After', Math.ceil((result.resetTime - Date.now()) / 1000).toString());
-      throw new HTTPError(429, fullConfig.message);
+      throw new TooManyRequestsError(fullConfig.message);
     }
 
     await next();
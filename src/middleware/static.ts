@@ -0,0 +1,85 @@
+import { stat } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import type { Context } from '../core/types.js';
+import { HTTPError } from '../core/types.js';
+import { NotFoundError } from '../core/errors.js';
+import { resolveInside, statFile, type SendFileOptions } from '../core/send-file.js';
+
+/**
+ * Static file serving options
+ */
+export interface StaticOptions extends Omit<SendFileOptions, 'root'> {
+  prefix?: string; // URL path the directory is mounted at (default: '/')
+  index?: string[] | false; // Files served for directory requests (default: ['index.html'])
+  redirect?: boolean; // Redirect directories to their trailing-slash URL (default: true)
+  fallback?: string; // File served for missing extensionless paths - client-side routing in SPAs
+}
+
+/**
+ * Static file middleware
+ * Works as a route handler (404 for missing files) or as middleware (missing files call next())
+ *
+ * Paths are decoded and resolved inside `root` - `..` segments get a 403,
+ * dotfiles are hidden unless `dotfiles: 'allow'`.
+ *
+ * @example
+ * app.get('/assets/*', serveStatic('./public', { prefix: '/assets', maxAge: 31536000, immutable: true }));
+ */
+export function serveStatic(
+  root: string,
+  options: StaticOptions = {}
+): (ctx: Context, next?: () => Promise<void>) => Promise<void> {
+  const { prefix = '', index = ['index.html'], redirect = true, fallback, ...fileOptions } = options;
+  const sendOptions: SendFileOptions = { ...fileOptions, root: resolve(root) };
+  const mount = prefix.replace(/\/+$/, '');
+
+  return async (ctx, next) => {
+    const notFound = async () => {
+      if (next) return next();
+      throw new NotFoundError('Not Found');
+    };
+
+    if (ctx.method !== 'GET' && ctx.method !== 'HEAD') return notFound();
+    if (mount && ctx.path !== mount && !ctx.path.startsWith(`${mount}/`)) return notFound();
+
+    let relative: string;
+    try {
+      relative = decodeURIComponent(ctx.path.slice(mount.length));
+    } catch {
+      throw new HTTPError(400, 'Invalid path');
+    }
+
+    const target = resolveInside(sendOptions.root!, relative, options.dotfiles);
+    const stats = target ? await stat(target).catch(() => undefined) : undefined;
+
+    if (stats?.isFile()) {
+      return ctx.sendFile(relative, sendOptions);
+    }
+
+    if (stats?.isDirectory() && index) {
+      if (!relative.endsWith('/')) {
+        if (redirect) {
+          // Relative asset URLs in index.html resolve against the directory
+          // Leading slashes are collapsed so the Location can't point to another host
+          const qIdx = ctx.url.indexOf('?');
+          ctx.setHeader('Location', `/${ctx.path.replace(/^\/+/, '')}/${qIdx === -1 ? '' : ctx.url.slice(qIdx)}`);
+          ctx.status(301);
+          ctx.res.end();
+          return;
+        }
+      } else {
+        for (const file of index) {
+          if (await statFile(join(target!, file))) {
+            return ctx.sendFile(relative + file, sendOptions);
+          }
+        }
+      }
+    }
+
+    if (fallback && !extname(relative)) {
+      return ctx.sendFile(fallback, sendOptions);
+    }
+
+    return notFound();
+  };
+}
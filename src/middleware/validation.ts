@@ -1,19 +1,36 @@
-import type { ZodSchema } from 'zod';
-import type { Middleware, ValidationError } from '../core/types.js';
-import { HTTPError } from '../core/types.js';
+import type { ZodError } from 'zod';
+import type { Middleware, ValidationError, RouteSchema } from '../core/types.js';
+import { ValidationFailedError } from '../core/errors.js';
 
 /**
  * Validation middleware factory
  * Validates request body, query params, and route params using Zod schemas
  */
-export interface ValidationSchema {
-  body?: ZodSchema;
-  query?: ZodSchema;
-  params?: ZodSchema;
+export type ValidationSchema = RouteSchema;
+
+/**
+ * Convert Zod issues to validation errors, fields prefixed with the part of the request
+ */
+export function toValidationErrors(error: ZodError, prefix: string): ValidationError[] {
+  return error.errors.map((err) => ({
+    field: [prefix, ...err.path].join('.'),
+    message: err.message,
+    code: err.code,
+  }));
+}
+
+/**
+ * 400 error for invalid input - its errors become the `errors` member of the problem details
+ */
+export function validationError(errors: ValidationError[]): ValidationFailedError {
+  return new ValidationFailedError(errors);
 }
 
 /**
  * Create validation middleware from Zod schemas
+ *
+ * Routes declared with a `schema` option are validated automatically,
+ * so this is only needed for custom middleware chains.
  */
 export function validate(schema: ValidationSchema): Middleware {
   return async (ctx, next) => {
@@ -23,13 +40,7 @@ export function validate(schema: ValidationSchema): Middleware {
     if (schema.body) {
       const result = schema.body.safeParse(ctx.body);
       if (!result.success) {
-        result.error.errors.forEach((err) => {
-          errors.push({
-            field: `body.${err.path.join('.')}`,
-            message: err.message,
-            code: err.code,
-          });
-        });
+        errors.push(...toValidationErrors(result.error, 'body'));
       } else {
         // Replace with validated/transformed data
         ctx.body = result.data;
@@ -40,13 +51,7 @@ export function validate(schema: ValidationSchema): Middleware {
     if (schema.query) {
       const result = schema.query.safeParse(ctx.query);
       if (!result.success) {
-        result.error.errors.forEach((err) => {
-          errors.push({
-            field: `query.${err.path.join('.')}`,
-            message: err.message,
-            code: err.code,
-          });
-        });
+        errors.push(...toValidationErrors(result.error, 'query'));
       } else {
         ctx.query = result.data;
       }
@@ -56,21 +61,25 @@ export function validate(schema: ValidationSchema): Middleware {
     if (schema.params) {
       const result = schema.params.safeParse(ctx.params);
       if (!result.success) {
-        result.error.errors.forEach((err) => {
-          errors.push({
-            field: `params.${err.path.join('.')}`,
-            message: err.message,
-            code: err.code,
-          });
-        });
+        errors.push(...toValidationErrors(result.error, 'params'));
       } else {
         ctx.params = result.data;
       }
     }
 
+    // Validate uploaded files
+    if (schema.files) {
+      const result = schema.files.safeParse(ctx.files || {});
+      if (!result.success) {
+        errors.push(...toValidationErrors(result.error, 'files'));
+      } else {
+        ctx.files = result.data;
+      }
+    }
+
     // If validation failed, throw error
     if (errors.length > 0) {
-      throw new HTTPError(400, 'Validation failed', { errors });
+      throw validationError(errors);
     }
 
     await next();
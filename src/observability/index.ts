@@ -11,6 +11,7 @@ export * from './tracer.js';
 export * from './middleware.js';
 export * from './logger.js';
 export * from './metrics.js';
+export * from './plugin.js';
 
 // Propagators
 export * from './propagators/rest.js';
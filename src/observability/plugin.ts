@@ -0,0 +1,33 @@
+/**
+ * Observability plugin
+ * Sets up tracing, logging, metrics and profiling, and wraps every route with their middleware
+ */
+
+import type { Plugin } from '../core/plugin.js';
+import type { ObservabilityConfig } from './types.js';
+import { initializeTracing } from './tracer.js';
+import { initializeLogger } from './logger.js';
+import { initializeMetrics } from './metrics.js';
+import { traceMiddleware } from './middleware.js';
+import { initializeProfiling, profilingMiddleware } from './profiler/index.js';
+
+/**
+ * Registered by the server when `observability.tracing.enabled` is true
+ * Not encapsulated - tracing wraps the routes of the whole app
+ */
+export const observabilityPlugin: Plugin<ObservabilityConfig> = {
+  name: 'observability',
+  encapsulate: false,
+  register(app, config) {
+    initializeTracing(config);
+    initializeLogger(config.logging);
+    initializeMetrics(config.metrics);
+    app.use(traceMiddleware());
+
+    // Profiling middleware runs after tracing
+    if (config.profiling?.enabled === true) {
+      initializeProfiling(config.profiling);
+      app.use(profilingMiddleware());
+    }
+  },
+};
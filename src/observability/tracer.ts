@@ -120,6 +120,8 @@ export function getTracingConfig(): TracingConfig | undefined {
  */
 export async function shutdownTracing(): Promise<void> {
   if (provider) {
+    // Export spans still buffered by the batch processor
+    await provider.forceFlush();
     await provider.shutdown();
     provider = undefined;
     console.log('🛑 Tracing shut down');
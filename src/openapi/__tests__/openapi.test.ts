@@ -0,0 +1,166 @@
+/**
+ * OpenAPI generation tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { Router } from '../../core/router.js';
+import { Server } from '../../core/server.js';
+import { generateOpenAPI } from '../generator.js';
+import { zodToJsonSchema } from '../schema.js';
+import type { Handler } from '../../core/types.js';
+
+const noop: Handler = () => {};
+
+describe('zodToJsonSchema', () => {
+  it('should convert objects with required and optional properties', () => {
+    const schema = zodToJsonSchema(
+      z.object({
+        name: z.string().min(1).max(50),
+        email: z.string().email(),
+        age: z.number().int().min(0).optional(),
+        role: z.enum(['admin', 'user']).default('user'),
+      })
+    );
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 50 },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 0 },
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+      },
+      required: ['name', 'email'],
+    });
+  });
+
+  it('should convert nullable, unions, arrays and literals', () => {
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+    });
+    expect(zodToJsonSchema(z.union([z.literal('a'), z.number()]))).toEqual({
+      anyOf: [{ const: 'a' }, { type: 'number' }],
+    });
+    expect(zodToJsonSchema(z.array(z.boolean()).min(1))).toEqual({
+      type: 'array',
+      items: { type: 'boolean' },
+      minItems: 1,
+    });
+  });
+
+  it('should keep descriptions and disallow extra keys on strict objects', () => {
+    const schema = zodToJsonSchema(z.object({ id: z.string().describe('User id') }).strict());
+    expect(schema.properties.id.description).toBe('User id');
+    expect(schema.additionalProperties).toBe(false);
+  });
+});
+
+describe('generateOpenAPI', () => {
+  it('should document request schemas, responses and metadata', () => {
+    const router = new Router();
+    router.post(
+      '/users',
+      {
+        name: 'users.create',
+        schema: {
+          body: z.object({ name: z.string() }),
+          response: { 201: z.object({ id: z.string(), name: z.string() }) },
+        },
+        meta: { summary: 'Create user', tags: ['users'], auth: true, errors: [409] },
+      },
+      noop
+    );
+
+    const spec = generateOpenAPI(router.getRoutes(), { info: { title: 'Users API' } });
+    const operation = spec.paths['/users'].post;
+
+    expect(spec.openapi).toBe('3.1.0');
+    expect(spec.info).toEqual({ title: 'Users API', version: '1.0.0' });
+    expect(spec.tags).toEqual([{ name: 'users' }]);
+    expect(operation.operationId).toBe('users.create');
+    expect(operation.summary).toBe('Create user');
+    expect(operation.security).toEqual([{ bearerAuth: [] }]);
+    expect(spec.components.securitySchemes?.bearerAuth).toMatchObject({ scheme: 'bearer' });
+    expect(operation.requestBody?.content['application/json'].schema).toMatchObject({
+      type: 'object',
+      required: ['name'],
+    });
+    expect(operation.responses['201'].content?.['application/json'].schema.required).toEqual([
+      'id',
+      'name',
+    ]);
+    expect(Object.keys(operation.responses)).toEqual(['201', '400', '401', '409', '500']);
+    expect(operation.responses['409'].content?.['application/problem+json'].schema).toEqual({
+      $ref: '#/components/schemas/ProblemDetails',
+    });
+  });
+
+  it('should convert path patterns and parameters', () => {
+    const router = new Router();
+    router.get(
+      '/users/:id<int>/posts/:slug?',
+      { schema: { query: z.object({ page: z.number().optional(), sort: z.string() }) } },
+      noop
+    );
+    router.get('/files/*path', noop);
+
+    const spec = generateOpenAPI(router.getRoutes());
+
+    expect(Object.keys(spec.paths)).toEqual([
+      '/users/{id}/posts',
+      '/users/{id}/posts/{slug}',
+      '/files/{path}',
+    ]);
+
+    const parameters = spec.paths['/users/{id}/posts/{slug}'].get.parameters;
+    expect(parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '\\d+' } },
+      { name: 'slug', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'page', in: 'query', required: false, schema: { type: 'number' } },
+      { name: 'sort', in: 'query', required: true, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('should prefer params schemas over pattern constraints', () => {
+    const router = new Router();
+    router.get('/items/:id', { schema: { params: z.object({ id: z.string().uuid() }) } }, noop);
+
+    const spec = generateOpenAPI(router.getRoutes());
+    expect(spec.paths['/items/{id}'].get.parameters?.[0].schema).toEqual({
+      type: 'string',
+      format: 'uuid',
+    });
+  });
+
+  it('should include mounted routes and skip hidden ones', () => {
+    const api = new Router();
+    api.get('/health', noop);
+    api.get('/internal', { meta: { hidden: true } }, noop);
+
+    const router = new Router();
+    router.use('/api', api);
+
+    const spec = generateOpenAPI(router.getRoutes());
+    expect(Object.keys(spec.paths)).toEqual(['/api/health']);
+    expect(spec.paths['/api/health'].get.responses['200']).toEqual({ description: 'OK' });
+  });
+});
+
+describe('Server.openapi', () => {
+  it('should generate the document and register hidden doc routes', async () => {
+    const app = new Server({
+      adapter: { type: 'node-http' },
+      openapi: { path: '/spec.json', info: { title: 'Test API', version: '2.0.0' } },
+    });
+    app.get('/ping', { meta: { description: 'Ping' } }, noop);
+
+    const spec = app.openapi();
+    expect(spec.info).toEqual({ title: 'Test API', version: '2.0.0' });
+    expect(Object.keys(spec.paths)).toEqual(['/ping']);
+
+    const paths = app.getRouter().getRoutes().map((route) => route.path);
+    expect(paths).toContain('/spec.json');
+    expect(paths).toContain('/docs');
+  });
+});
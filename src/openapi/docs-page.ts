@@ -0,0 +1,137 @@
+/**
+ * Self-hosted API docs page
+ * Plain HTML + inline script that renders the OpenAPI document - no CDN assets
+ */
+
+/**
+ * Render the docs page HTML for a spec URL
+ */
+export function renderDocsPage(specUrl: string, title = 'API Docs'): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+    header { background: #24292f; color: #fff; padding: 16px 32px; }
+    header h1 { margin: 0; font-size: 20px; }
+    header p { margin: 4px 0 0; opacity: 0.8; }
+    main { max-width: 960px; margin: 0 auto; padding: 24px 32px; }
+    h2 { font-size: 18px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+    details { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin: 8px 0; }
+    summary { cursor: pointer; padding: 8px 12px; display: flex; gap: 12px; align-items: center; }
+    .method { font-weight: 600; font-size: 12px; color: #fff; border-radius: 4px; padding: 2px 8px; min-width: 56px; text-align: center; }
+    .get { background: #1f6feb; } .post { background: #2da44e; } .put { background: #bf8700; }
+    .patch { background: #8250df; } .delete { background: #cf222e; } .head, .options { background: #57606a; }
+    .path { font-family: ui-monospace, monospace; }
+    .deprecated .path { text-decoration: line-through; }
+    .body { padding: 0 16px 12px; }
+    h4 { margin: 12px 0 4px; }
+    table { border-collapse: collapse; width: 100%; font-size: 14px; }
+    td, th { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eaeef2; }
+    pre { background: #f6f8fa; padding: 8px; border-radius: 4px; overflow: auto; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <header><h1 id="title">${escapeHtml(title)}</h1><p id="description"></p></header>
+  <main id="content">Loading...</main>
+  <script>
+    (function () {
+      var content = document.getElementById('content');
+
+      function el(tag, attrs, children) {
+        var node = document.createElement(tag);
+        Object.keys(attrs || {}).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+        (children || []).forEach(function (child) {
+          node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+        });
+        return node;
+      }
+
+      function schemaBlock(schema) {
+        return el('pre', {}, [JSON.stringify(schema, null, 2)]);
+      }
+
+      function renderOperation(method, path, op) {
+        var body = el('div', { class: 'body' });
+        if (op.description) body.appendChild(el('p', {}, [op.description]));
+
+        if (op.parameters && op.parameters.length) {
+          var rows = op.parameters.map(function (p) {
+            return el('tr', {}, [
+              el('td', {}, [el('code', {}, [p.name])]),
+              el('td', {}, [p.in]),
+              el('td', {}, [p.required ? 'yes' : 'no']),
+              el('td', {}, [el('code', {}, [JSON.stringify(p.schema)])]),
+            ]);
+          });
+          body.appendChild(el('h4', {}, ['Parameters']));
+          body.appendChild(el('table', {}, [
+            el('tr', {}, [el('th', {}, ['Name']), el('th', {}, ['In']), el('th', {}, ['Required']), el('th', {}, ['Schema'])]),
+          ].concat(rows)));
+        }
+
+        if (op.requestBody) {
+          body.appendChild(el('h4', {}, ['Request body']));
+          body.appendChild(schemaBlock(op.requestBody.content['application/json'].schema));
+        }
+
+        body.appendChild(el('h4', {}, ['Responses']));
+        Object.keys(op.responses).forEach(function (status) {
+          var response = op.responses[status];
+          body.appendChild(el('div', {}, [el('strong', {}, [status]), ' ' + response.description]));
+          if (response.content) body.appendChild(schemaBlock(response.content['application/json'].schema));
+        });
+
+        return el('details', { class: op.deprecated ? 'deprecated' : '' }, [
+          el('summary', {}, [
+            el('span', { class: 'method ' + method }, [method.toUpperCase()]),
+            el('span', { class: 'path' }, [path]),
+            el('span', {}, [op.summary || '']),
+          ]),
+          body,
+        ]);
+      }
+
+      function render(spec) {
+        document.getElementById('title').textContent = spec.info.title + ' ' + spec.info.version;
+        document.getElementById('description').textContent = spec.info.description || '';
+
+        var groups = {};
+        Object.keys(spec.paths).forEach(function (path) {
+          Object.keys(spec.paths[path]).forEach(function (method) {
+            var op = spec.paths[path][method];
+            (op.tags && op.tags.length ? op.tags : ['default']).forEach(function (tag) {
+              (groups[tag] = groups[tag] || []).push(renderOperation(method, path, op));
+            });
+          });
+        });
+
+        content.textContent = '';
+        Object.keys(groups).sort().forEach(function (tag) {
+          content.appendChild(el('h2', {}, [tag]));
+          groups[tag].forEach(function (node) { content.appendChild(node); });
+        });
+        content.appendChild(el('h2', {}, ['Schemas']));
+        content.appendChild(schemaBlock(spec.components.schemas));
+      }
+
+      fetch(${JSON.stringify(specUrl).replace(/</g, '\\u003c')})
+        .then(function (res) { return res.json(); })
+        .then(render)
+        .catch(function (err) { content.textContent = 'Failed to load spec: ' + err.message; });
+    })();
+  </script>
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
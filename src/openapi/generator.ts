@@ -0,0 +1,298 @@
+/**
+ * OpenAPI 3.1 document generator
+ * Builds the spec from the router's route table
+ */
+
+import { STATUS_CODES } from 'http';
+import type { ZodSchema } from 'zod';
+import type { Route } from '../core/types.js';
+import { parsePattern, expandOptional, type PatternSegment } from '../core/route-tree.js';
+import { zodToJsonSchema, isOptionalSchema, type JSONSchema } from './schema.js';
+import type {
+  OpenAPIConfig,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIParameter,
+} from './types.js';
+
+/**
+ * RFC 9457 problem details - shape of error responses (see createProblem)
+ */
+const PROBLEM_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', format: 'uri-reference' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    code: { type: 'string', description: 'Machine-readable error code' },
+    detail: { type: 'string' },
+    instance: { type: 'string', format: 'uri-reference' },
+    traceId: { type: 'string' },
+    errors: {
+      type: 'array',
+      description: 'Validation failures',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          message: { type: 'string' },
+          code: { type: 'string' },
+        },
+        required: ['field', 'message', 'code'],
+      },
+    },
+    stack: { type: 'string', description: 'Only present outside production' },
+  },
+  required: ['type', 'title', 'status', 'code'],
+};
+
+const PROBLEM_REF = { $ref: '#/components/schemas/ProblemDetails' };
+
+/**
+ * Generate an OpenAPI 3.1 document from registered routes
+ *
+ * @example
+ * const spec = generateOpenAPI(router.getRoutes(), { info: { title: 'Users API' } });
+ */
+export function generateOpenAPI(routes: Route[], config: OpenAPIConfig = {}): OpenAPIDocument {
+  const paths: OpenAPIDocument['paths'] = {};
+  const tags = new Set<string>();
+  const operationIds = new Set<string>();
+  let usesAuth = false;
+
+  for (const route of latestRoutes(routes)) {
+    if (route.meta?.hidden) continue;
+
+    for (const segments of expandOptional(parsePattern(route.path))) {
+      const operation = buildOperation(route, segments);
+
+      // Names are shared by every method of all() - keep operationIds unique
+      if (route.name) {
+        let operationId = route.name;
+        if (operationIds.has(operationId)) {
+          operationId = `${route.name}.${route.method.toLowerCase()}`;
+        }
+        if (!operationIds.has(operationId)) {
+          operationIds.add(operationId);
+          operation.operationId = operationId;
+        }
+      }
+
+      route.meta?.tags?.forEach((tag) => tags.add(tag));
+      usesAuth = usesAuth || !!route.meta?.auth;
+
+      const path = toOpenAPIPath(segments);
+      paths[path] = paths[path] || {};
+      paths[path][route.method.toLowerCase()] = operation;
+    }
+  }
+
+  const document: OpenAPIDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: 'RamAPI',
+      version: '1.0.0',
+      ...config.info,
+    },
+    paths,
+    components: {
+      schemas: { ProblemDetails: PROBLEM_SCHEMA },
+    },
+  };
+
+  if (config.servers?.length) {
+    document.servers = config.servers;
+  }
+
+  if (usesAuth) {
+    document.components.securitySchemes = {
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    };
+  }
+
+  if (tags.size > 0) {
+    document.tags = [...tags].sort().map((name) => ({ name }));
+  }
+
+  return document;
+}
+
+/**
+ * Keep the last registration of each method + path (it is the one the router serves)
+ */
+function latestRoutes(routes: Route[]): Route[] {
+  const byKey = new Map<string, Route>();
+  for (const route of routes) {
+    const key = `${route.method}:${route.path}`;
+    byKey.delete(key);
+    byKey.set(key, route);
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Convert route segments to an OpenAPI path template
+ * `/users/:id(\\d+)` becomes `/users/{id}`
+ */
+function toOpenAPIPath(segments: PatternSegment[]): string {
+  const parts = segments.map((segment) =>
+    segment.type === 'static' ? segment.value : `{${paramName(segment)}}`
+  );
+  return `/${parts.join('/')}`;
+}
+
+function paramName(segment: PatternSegment): string {
+  if (segment.type === 'static') return segment.value;
+  return segment.name === '*' ? 'wildcard' : segment.name;
+}
+
+/**
+ * Build operation object for a route variant
+ */
+function buildOperation(route: Route, segments: PatternSegment[]): OpenAPIOperation {
+  const { schema, meta } = route;
+  const operation: OpenAPIOperation = { responses: {} };
+
+  if (meta?.summary) operation.summary = meta.summary;
+  if (meta?.description) operation.description = meta.description;
+  if (meta?.tags?.length) operation.tags = meta.tags;
+  if (meta?.deprecated) operation.deprecated = true;
+  if (meta?.auth) operation.security = [{ bearerAuth: [] }];
+
+  // Parameters
+  const parameters: OpenAPIParameter[] = [];
+  const paramShape = objectShape(schema?.params);
+
+  for (const segment of segments) {
+    if (segment.type === 'static') continue;
+
+    const name = paramName(segment);
+    let paramSchema: JSONSchema = { type: 'string' };
+    if (paramShape?.[segment.name]) {
+      paramSchema = zodToJsonSchema(paramShape[segment.name]);
+    } else if (segment.type === 'param' && segment.constraint) {
+      // Strip the ^(?:...)$ anchoring added by the pattern parser
+      paramSchema = { type: 'string', pattern: segment.constraint.source.slice(4, -2) };
+    }
+
+    parameters.push({ name, in: 'path', required: true, schema: paramSchema });
+  }
+
+  const queryShape = objectShape(schema?.query);
+  if (queryShape) {
+    for (const [name, value] of Object.entries(queryShape)) {
+      const querySchema = zodToJsonSchema(value);
+      const parameter: OpenAPIParameter = {
+        name,
+        in: 'query',
+        required: !isOptionalSchema(value),
+        schema: querySchema,
+      };
+      if (querySchema.description) parameter.description = querySchema.description;
+      parameters.push(parameter);
+    }
+  }
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  // Request body (multipart when the route accepts files)
+  if (schema?.files) {
+    operation.requestBody = {
+      required: true,
+      content: { 'multipart/form-data': { schema: multipartSchema(schema.body, schema.files) } },
+    };
+  } else if (schema?.body) {
+    operation.requestBody = {
+      required: !isOptionalSchema(schema.body),
+      content: { 'application/json': { schema: zodToJsonSchema(schema.body) } },
+    };
+  }
+
+  // Success responses
+  const responses = responseSchemas(schema?.response);
+  if (responses) {
+    for (const [status, responseSchema] of Object.entries(responses)) {
+      operation.responses[status] = {
+        description: describeStatus(Number(status)),
+        content: { 'application/json': { schema: zodToJsonSchema(responseSchema) } },
+      };
+    }
+  } else {
+    operation.responses['200'] = { description: describeStatus(200) };
+  }
+
+  // Error responses (problem details)
+  const errors = new Set<number>(meta?.errors);
+  if (schema?.body || schema?.query || schema?.params || schema?.files) errors.add(400);
+  if (schema?.files) errors.add(413);
+  if (meta?.auth) errors.add(401);
+  if (segments.some((segment) => segment.type !== 'static')) errors.add(404);
+  errors.add(500);
+
+  for (const status of [...errors].sort((a, b) => a - b)) {
+    if (operation.responses[status]) continue;
+    operation.responses[status] = {
+      description: describeStatus(status),
+      content: { 'application/problem+json': { schema: PROBLEM_REF } },
+    };
+  }
+
+  return operation;
+}
+
+/**
+ * Get the object shape of a Zod schema (unwrapping refinements)
+ */
+function objectShape(zodSchema?: ZodSchema): Record<string, ZodSchema> | undefined {
+  let def = (zodSchema as any)?._def;
+  while (def?.typeName === 'ZodEffects') {
+    def = def.schema._def;
+  }
+  return def?.typeName === 'ZodObject' ? def.shape() : undefined;
+}
+
+/**
+ * Build a multipart/form-data schema from the fields (body) and files schemas
+ */
+function multipartSchema(body: ZodSchema | undefined, files: ZodSchema): JSONSchema {
+  const result: JSONSchema = { type: 'object', properties: {} };
+  const required: string[] = [];
+
+  for (const [name, value] of Object.entries(objectShape(body) || {})) {
+    result.properties[name] = zodToJsonSchema(value);
+    if (!isOptionalSchema(value)) required.push(name);
+  }
+
+  for (const [name, value] of Object.entries(objectShape(files) || {})) {
+    let def = (value as any)._def;
+    while (def.typeName === 'ZodOptional' || def.typeName === 'ZodEffects' || def.typeName === 'ZodDefault') {
+      def = def.typeName === 'ZodEffects' ? def.schema._def : def.innerType._def;
+    }
+
+    const binary: JSONSchema = { type: 'string', format: 'binary' };
+    result.properties[name] = def.typeName === 'ZodArray' ? { type: 'array', items: binary } : binary;
+    if (!isOptionalSchema(value)) required.push(name);
+  }
+
+  if (required.length > 0) result.required = required;
+  return result;
+}
+
+/**
+ * Normalize schema.response to a status -> schema map
+ */
+function responseSchemas(
+  response?: ZodSchema | Record<number, ZodSchema>
+): Record<number, ZodSchema> | undefined {
+  if (!response) return undefined;
+  if ((response as any)._def) {
+    return { 200: response as ZodSchema };
+  }
+  return response as Record<number, ZodSchema>;
+}
+
+function describeStatus(status: number): string {
+  return STATUS_CODES[status] || `Status ${status}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * OpenAPI exports
+ */
+
+export { generateOpenAPI } from './generator.js';
+export { zodToJsonSchema } from './schema.js';
+export { renderDocsPage } from './docs-page.js';
+export type { JSONSchema } from './schema.js';
+export type {
+  OpenAPIConfig,
+  OpenAPIInfo,
+  OpenAPIServer,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIParameter,
+} from './types.js';
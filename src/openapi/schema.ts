@@ -0,0 +1,247 @@
+/**
+ * Zod to JSON Schema conversion
+ * Produces JSON Schema 2020-12 (the dialect used by OpenAPI 3.1)
+ */
+
+import type { ZodSchema, ZodType } from 'zod';
+
+/**
+ * JSON Schema object (loosely typed - only the keywords we generate)
+ */
+export type JSONSchema = Record<string, any>;
+
+/**
+ * String format checks mapped to JSON Schema formats
+ */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+  ip: 'ip',
+};
+
+/**
+ * Check if a Zod schema accepts undefined (optional or defaulted)
+ */
+export function isOptionalSchema(zodSchema: ZodSchema): boolean {
+  const typeName = (zodSchema as any)._def.typeName;
+  return typeName === 'ZodOptional' || typeName === 'ZodDefault' || zodSchema.isOptional();
+}
+
+/**
+ * Convert Zod schema to JSON Schema
+ */
+export function zodToJsonSchema(zodSchema: ZodSchema): JSONSchema {
+  const def = (zodSchema as any)._def;
+  const schema = convert(def);
+
+  if (def.description && !schema.description) {
+    schema.description = def.description;
+  }
+
+  return schema;
+}
+
+function convert(def: any): JSONSchema {
+  switch (def.typeName) {
+    case 'ZodString':
+      return convertString(def);
+
+    case 'ZodNumber':
+      return convertNumber(def);
+
+    case 'ZodBigInt':
+      return { type: 'integer', format: 'int64' };
+
+    case 'ZodBoolean':
+      return { type: 'boolean' };
+
+    case 'ZodDate':
+      return { type: 'string', format: 'date-time' };
+
+    case 'ZodNull':
+      return { type: 'null' };
+
+    case 'ZodLiteral':
+      return { const: def.value };
+
+    case 'ZodEnum':
+      return { type: 'string', enum: [...def.values] };
+
+    case 'ZodNativeEnum': {
+      // Numeric enums have reverse mappings - keep only real values
+      const values = Object.entries(def.values)
+        .filter(([key]) => Number.isNaN(Number(key)))
+        .map(([, value]) => value);
+      return { enum: values };
+    }
+
+    case 'ZodArray': {
+      const schema: JSONSchema = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) schema.minItems = def.minLength.value;
+      if (def.maxLength) schema.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        schema.minItems = def.exactLength.value;
+        schema.maxItems = def.exactLength.value;
+      }
+      return schema;
+    }
+
+    case 'ZodSet':
+      return { type: 'array', uniqueItems: true, items: zodToJsonSchema(def.valueType) };
+
+    case 'ZodTuple': {
+      const schema: JSONSchema = {
+        type: 'array',
+        prefixItems: def.items.map((item: ZodType) => zodToJsonSchema(item)),
+      };
+      if (def.rest) {
+        schema.items = zodToJsonSchema(def.rest);
+      } else {
+        schema.items = false;
+      }
+      return schema;
+    }
+
+    case 'ZodObject':
+      return convertObject(def);
+
+    case 'ZodRecord':
+    case 'ZodMap':
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+
+    case 'ZodUnion':
+      return { anyOf: def.options.map((option: ZodType) => zodToJsonSchema(option)) };
+
+    case 'ZodDiscriminatedUnion':
+      return { oneOf: [...def.options].map((option: ZodType) => zodToJsonSchema(option)) };
+
+    case 'ZodIntersection':
+      return { allOf: [zodToJsonSchema(def.left), zodToJsonSchema(def.right)] };
+
+    case 'ZodOptional':
+      return zodToJsonSchema(def.innerType);
+
+    case 'ZodNullable':
+      return { anyOf: [zodToJsonSchema(def.innerType), { type: 'null' }] };
+
+    case 'ZodDefault':
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+
+    case 'ZodCatch':
+    case 'ZodBranded':
+    case 'ZodReadonly':
+      return zodToJsonSchema(def.innerType ?? def.type);
+
+    case 'ZodEffects':
+      // Refinements and transforms - document the input shape
+      return zodToJsonSchema(def.schema);
+
+    case 'ZodPipeline':
+      return zodToJsonSchema(def.in);
+
+    case 'ZodPromise':
+      return zodToJsonSchema(def.type);
+
+    case 'ZodNever':
+      return { not: {} };
+
+    default:
+      // ZodAny, ZodUnknown, ZodLazy (recursive) and anything unsupported
+      return {};
+  }
+}
+
+function convertString(def: any): JSONSchema {
+  const schema: JSONSchema = { type: 'string' };
+
+  for (const check of def.checks || []) {
+    switch (check.kind) {
+      case 'min':
+        schema.minLength = check.value;
+        break;
+      case 'max':
+        schema.maxLength = check.value;
+        break;
+      case 'length':
+        schema.minLength = check.value;
+        schema.maxLength = check.value;
+        break;
+      case 'regex':
+        schema.pattern = check.regex.source;
+        break;
+      case 'startsWith':
+        schema.pattern = `^${escapeRegex(check.value)}`;
+        break;
+      case 'endsWith':
+        schema.pattern = `${escapeRegex(check.value)}$`;
+        break;
+      default:
+        if (STRING_FORMATS[check.kind]) {
+          schema.format = STRING_FORMATS[check.kind];
+        }
+    }
+  }
+
+  return schema;
+}
+
+function convertNumber(def: any): JSONSchema {
+  const schema: JSONSchema = { type: 'number' };
+
+  for (const check of def.checks || []) {
+    switch (check.kind) {
+      case 'int':
+        schema.type = 'integer';
+        break;
+      case 'min':
+        if (check.inclusive) schema.minimum = check.value;
+        else schema.exclusiveMinimum = check.value;
+        break;
+      case 'max':
+        if (check.inclusive) schema.maximum = check.value;
+        else schema.exclusiveMaximum = check.value;
+        break;
+      case 'multipleOf':
+        schema.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return schema;
+}
+
+function convertObject(def: any): JSONSchema {
+  const shape = def.shape();
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(shape)) {
+    properties[key] = zodToJsonSchema(value as ZodType);
+    if (!isOptionalSchema(value as ZodType)) {
+      required.push(key);
+    }
+  }
+
+  const schema: JSONSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  const catchall = def.catchall?._def;
+  if (catchall && catchall.typeName !== 'ZodNever') {
+    schema.additionalProperties = convert(catchall);
+  } else if (def.unknownKeys === 'strict') {
+    schema.additionalProperties = false;
+  }
+
+  return schema;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
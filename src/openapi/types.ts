@@ -0,0 +1,79 @@
+/**
+ * OpenAPI types
+ */
+
+import type { JSONSchema } from './schema.js';
+
+/**
+ * OpenAPI info object
+ */
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/**
+ * OpenAPI server object
+ */
+export interface OpenAPIServer {
+  url: string;
+  description?: string;
+}
+
+/**
+ * OpenAPI configuration
+ */
+export interface OpenAPIConfig {
+  path?: string; // Default: /openapi.json
+  docsPath?: string | false; // Default: /docs (false disables the docs page)
+  info?: Partial<OpenAPIInfo>; // Default title: RamAPI, version: 1.0.0
+  servers?: OpenAPIServer[];
+}
+
+/**
+ * Generated OpenAPI 3.1 document
+ */
+export interface OpenAPIDocument {
+  openapi: '3.1.0';
+  info: OpenAPIInfo;
+  servers?: OpenAPIServer[];
+  paths: Record<string, Record<string, OpenAPIOperation>>;
+  components: {
+    schemas: Record<string, JSONSchema>;
+    securitySchemes?: Record<string, Record<string, unknown>>;
+  };
+  tags?: Array<{ name: string }>;
+}
+
+/**
+ * OpenAPI parameter object
+ */
+export interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JSONSchema;
+  description?: string;
+}
+
+/**
+ * OpenAPI operation object
+ */
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenAPIParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JSONSchema }>;
+  };
+  responses: Record<string, {
+    description: string;
+    content?: Record<string, { schema: JSONSchema }>;
+  }>;
+  security?: Array<Record<string, string[]>>;
+}
@@ -3,12 +3,31 @@
  * Handles GraphQL requests and maps them to operations
  */
 
-import { graphql, type GraphQLSchema } from 'graphql';
+import { graphql, type GraphQLError, type GraphQLFormattedError, type GraphQLSchema } from 'graphql';
 import type { Context } from '../../core/types.js';
 import type { ProtocolAdapter, Operation } from '../types.js';
 import type { GraphQLConfig } from './types.js';
 import { buildGraphQLSchema } from './schema-builder.js';
 import { HTTPError } from '../../core/types.js';
+import { errorRegistry } from '../../core/errors.js';
+
+/**
+ * Add a machine-readable `extensions.code` (see core/errors.ts)
+ * Errors thrown by resolvers are mapped through the error registry, with their details.
+ * Errors without one come from parsing or validating the query.
+ */
+function formatError(error: GraphQLError): GraphQLFormattedError {
+  const formatted = error.toJSON();
+  if (!error.originalError) {
+    return { ...formatted, extensions: { ...formatted.extensions, code: 'GRAPHQL_VALIDATION_FAILED' } };
+  }
+
+  const { graphql: code, details } = errorRegistry.resolve(error.originalError);
+  return {
+    ...formatted,
+    extensions: { ...formatted.extensions, code, ...(details !== undefined ? { details } : {}) },
+  };
+}
 
 /**
  * GraphQL adapter
@@ -93,7 +112,7 @@ export class GraphQLAdapter implements ProtocolAdapter {
         contextValue: { ctx }, // Pass context to resolvers
       });
 
-      ctx.json(result);
+      ctx.json(result.errors ? { ...result, errors: result.errors.map(formatError) } : result);
     } catch (error) {
       const err = error as Error;
       ctx.json({
@@ -4,8 +4,10 @@
  */
 
 import {
+  Metadata,
   Server,
   ServerCredentials,
+  type ServerErrorResponse,
   type ServiceDefinition,
   type UntypedServiceImplementation,
 } from '@grpc/grpc-js';
@@ -15,6 +17,23 @@ import { buildProtoFile } from './proto-builder.js';
 import { loadProtoRuntime } from './proto-loader-runtime.js';
 import { loadCompiledProto, generateAndCompileProto } from './proto-loader-build.js';
 import { join } from 'path';
+import { errorRegistry } from '../../core/errors.js';
+import { Container } from '../../core/container.js';
+
+/**
+ * Map a handler error to a gRPC status (see core/errors.ts)
+ * The error code is sent in the `error-code` trailer, details as JSON in `error-details`
+ */
+function toServiceError(error: unknown): ServerErrorResponse {
+  const { grpc, code, message, details } = errorRegistry.resolve(error);
+  const metadata = new Metadata();
+  metadata.set('error-code', code);
+  if (details !== undefined) {
+    metadata.set('error-details', JSON.stringify(details));
+  }
+
+  return Object.assign(new Error(message), { code: grpc, details: message, metadata });
+}
 
 /**
  * gRPC adapter
@@ -26,7 +45,10 @@ export class GRPCAdapter implements ProtocolAdapter {
   private services: Map<string, GRPCService> = new Map();
   private config: Required<GRPCConfig>;
 
-  constructor(config: GRPCConfig = {}) {
+  /**
+   * @param container - Dependencies for ctx.resolve() in operation handlers (app.container)
+   */
+  constructor(config: GRPCConfig = {}, private container: Container = new Container()) {
     this.config = {
       port: config.port || 50051,
       host: config.host || '0.0.0.0',
@@ -99,11 +121,15 @@ export class GRPCAdapter implements ProtocolAdapter {
 
       for (const [methodName, method] of service.methods) {
         implementation[methodName] = async (call: any, callback: any) => {
+          // One scope per call, like an HTTP request
+          const scope = this.container.createScope();
           try {
-            const result = await method.handler(call.request, { call });
+            const result = await method.handler(call.request, { call, resolve: (token: any) => scope.resolve(token) });
             callback(null, result);
           } catch (error) {
-            callback(error);
+            callback(toServiceError(error));
+          } finally {
+            await scope.dispose();
           }
         };
       }
@@ -152,11 +178,15 @@ export class GRPCAdapter implements ProtocolAdapter {
   /**
    * Stop gRPC server
    */
-  async stop(): Promise<void> {
+  async stop(timeout?: number): Promise<void> {
     if (!this.server) return;
+    const server = this.server;
 
     return new Promise((resolve) => {
-      this.server!.tryShutdown(() => {
+      // Calls still running after the timeout are cancelled
+      const timer = timeout !== undefined ? setTimeout(() => server.forceShutdown(), timeout) : undefined;
+      server.tryShutdown(() => {
+        clearTimeout(timer);
         console.log('🛑 gRPC server stopped');
         resolve();
       });
@@ -0,0 +1,67 @@
+/**
+ * Protobuf encoding of operation output
+ * Uses the same generated message as the gRPC service, so REST clients
+ * asking for application/x-protobuf get bytes a gRPC client can decode
+ */
+
+import * as protoLoader from '@grpc/proto-loader';
+import { writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Operation } from '../types.js';
+import { zodToProtoMessage } from './proto-builder.js';
+
+type Encoder = (value: unknown) => Buffer;
+
+// PERFORMANCE: the proto is generated and loaded once per operation
+const encoders = new WeakMap<Operation, Encoder | null>();
+
+/**
+ * Get the encoder for an operation's response message
+ * Returns undefined when the output is not an object schema (no message to encode into)
+ */
+export function getProtoEncoder(operation: Operation): Encoder | undefined {
+  let encoder = encoders.get(operation);
+  if (encoder === undefined) {
+    encoder = createEncoder(operation);
+    encoders.set(operation, encoder);
+  }
+  return encoder ?? undefined;
+}
+
+function createEncoder(operation: Operation): Encoder | null {
+  if ((operation.output as any)?._def.typeName !== 'ZodObject') {
+    return null;
+  }
+
+  const packageName = (operation.grpc as any)?.package || 'ramapi';
+  const messageName = `${capitalize(operation.name)}Response`;
+
+  // proto-loader only exposes serializers on service methods
+  const proto = [
+    'syntax = "proto3";',
+    `package ${packageName};`,
+    zodToProtoMessage(messageName, operation.output!),
+    `service ${messageName}Encoder {\n  rpc Encode (${messageName}) returns (${messageName});\n}`,
+  ].join('\n\n');
+
+  const dir = join(tmpdir(), 'ramapi-protos');
+  mkdirSync(dir, { recursive: true });
+  const protoPath = join(dir, `${packageName}.${messageName}.proto`);
+  writeFileSync(protoPath, proto);
+
+  const definition = protoLoader.loadSync(protoPath, {
+    keepCase: true,
+    longs: String,
+    enums: String,
+    defaults: true,
+    oneofs: true,
+  });
+
+  const method = (definition[`${packageName}.${messageName}Encoder`] as protoLoader.ServiceDefinition).Encode;
+  return (value) => method.responseSerialize(value as object);
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
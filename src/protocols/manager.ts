@@ -7,6 +7,8 @@ import type { Context } from '../core/types.js';
 import type { ProtocolAdapter, Operation } from './types.js';
 import { GraphQLAdapter } from './graphql/adapter.js';
 import { GRPCAdapter } from './grpc/adapter.js';
+import { assertResponse } from '../core/serializer.js';
+import type { Container } from '../core/container.js';
 
 /**
  * Protocol manager configuration
@@ -25,7 +27,7 @@ export class ProtocolManager {
   private graphqlAdapter?: GraphQLAdapter;
   private grpcAdapter?: GRPCAdapter;
 
-  constructor(config: ProtocolManagerConfig = {}) {
+  constructor(config: ProtocolManagerConfig = {}, container?: Container) {
     // Initialize GraphQL adapter if enabled
     if (config.graphql) {
       const graphqlConfig = typeof config.graphql === 'object' ? config.graphql : {};
@@ -36,7 +38,7 @@ export class ProtocolManager {
     // Initialize gRPC adapter if enabled
     if (config.grpc) {
       const grpcConfig = typeof config.grpc === 'object' ? config.grpc : {};
-      this.grpcAdapter = new GRPCAdapter(grpcConfig);
+      this.grpcAdapter = new GRPCAdapter(grpcConfig, container);
       this.adapters.set('grpc', this.grpcAdapter);
     }
   }
@@ -45,6 +47,8 @@ export class ProtocolManager {
    * Register an operation with all applicable adapters
    */
   registerOperation(operation: Operation): void {
+    operation = withOutputValidation(operation);
+
     // Register with GraphQL if metadata present
     if (operation.graphql && this.graphqlAdapter) {
       this.graphqlAdapter.register(operation);
@@ -99,9 +103,9 @@ export class ProtocolManager {
   /**
    * Stop gRPC server
    */
-  async stopGRPC(): Promise<void> {
+  async stopGRPC(timeout?: number): Promise<void> {
     if (this.grpcAdapter) {
-      await this.grpcAdapter.stop();
+      await this.grpcAdapter.stop(timeout);
     }
   }
 
@@ -119,3 +123,23 @@ export class ProtocolManager {
     return this.grpcAdapter;
   }
 }
+
+/**
+ * Strictly validate operation output in development
+ * In production GraphQL and gRPC only encode declared fields anyway
+ */
+function withOutputValidation(operation: Operation): Operation {
+  const { output, handler } = operation;
+  if (!output || process.env.NODE_ENV === 'production') {
+    return operation;
+  }
+
+  return {
+    ...operation,
+    handler: async (input, ctx) => {
+      const result = await handler(input, ctx);
+      assertResponse(output, result);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Response header helpers - header names are matched regardless of casing
+ */
+
+export type HeaderMap = Record<string, string | string[]>;
+
+/**
+ * Read a header, joining repeated values
+ */
+export function getHeader(headers: HeaderMap, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((existing) => existing.toLowerCase() === lower);
+  const value = key === undefined ? undefined : headers[key];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Remove a header under any casing
+ */
+export function deleteHeader(headers: HeaderMap, name: string): void {
+  const lower = name.toLowerCase();
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === lower) delete headers[key];
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * MIME type detection from file extensions
+ */
+
+import { extname } from 'path';
+
+const MIME_TYPES: Record<string, string> = {
+  // Text
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  cjs: 'text/javascript',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  xml: 'application/xml',
+  json: 'application/json',
+  map: 'application/json',
+  webmanifest: 'application/manifest+json',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+
+  // Images
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp',
+
+  // Fonts
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject',
+
+  // Audio / video
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+
+  // Other
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  wasm: 'application/wasm',
+};
+
+/**
+ * Look up the MIME type of a file (application/octet-stream if unknown)
+ */
+export function getMimeType(path: string): string {
+  return MIME_TYPES[extname(path).slice(1).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Check if a MIME type is text-based (gets a charset, worth compressing)
+ */
+export function isTextType(type: string): boolean {
+  return (
+    type.startsWith('text/') ||
+    type === 'image/svg+xml' ||
+    type === 'application/javascript' ||
+    type === 'application/xml' ||
+    type === 'application/yaml' ||
+    type === 'application/json' ||
+    type.endsWith('+json') ||
+    type.endsWith('+xml')
+  );
+}
+
+/**
+ * Content-Type header for a file, with a UTF-8 charset for text types
+ */
+export function getContentType(path: string): string {
+  const type = getMimeType(path);
+  return isTextType(type) && type !== 'image/svg+xml' ? `${type}; charset=utf-8` : type;
+}
@@ -0,0 +1,258 @@
+/**
+ * MessagePack encoding
+ * Covers JSON-compatible values plus binary data, bigints and dates (timestamp extension)
+ */
+
+/**
+ * Growable output buffer
+ */
+class Writer {
+  private buffer = Buffer.allocUnsafe(256);
+  private offset = 0;
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+
+    const next = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + size));
+    this.buffer.copy(next, 0, 0, this.offset);
+    this.buffer = next;
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.offset = this.buffer.writeUInt16BE(value, this.offset);
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.offset = this.buffer.writeUInt32BE(value, this.offset);
+  }
+
+  i8(value: number): void {
+    this.ensure(1);
+    this.offset = this.buffer.writeInt8(value, this.offset);
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.offset = this.buffer.writeInt16BE(value, this.offset);
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.offset = this.buffer.writeInt32BE(value, this.offset);
+  }
+
+  u64(value: bigint): void {
+    this.ensure(8);
+    this.offset = this.buffer.writeBigUInt64BE(value, this.offset);
+  }
+
+  i64(value: bigint): void {
+    this.ensure(8);
+    this.offset = this.buffer.writeBigInt64BE(value, this.offset);
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.offset = this.buffer.writeDoubleBE(value, this.offset);
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.buffer.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  string(value: string): void {
+    const length = Buffer.byteLength(value);
+    this.ensure(length);
+    this.offset += this.buffer.write(value, this.offset);
+  }
+
+  result(): Buffer {
+    return this.buffer.subarray(0, this.offset);
+  }
+}
+
+/**
+ * Encode a value as MessagePack
+ * Like JSON.stringify: undefined and functions are skipped in objects and become nil elsewhere,
+ * and objects with toJSON() are encoded through it
+ */
+export function encodeMsgpack(value: unknown): Buffer {
+  const writer = new Writer();
+  encode(writer, value, 0);
+  return writer.result();
+}
+
+const MAX_DEPTH = 512;
+
+function encode(w: Writer, value: unknown, depth: number): void {
+  if (depth > MAX_DEPTH) {
+    throw new RangeError('MessagePack: value is nested too deeply');
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return encodeString(w, value);
+    case 'number':
+      return encodeNumber(w, value);
+    case 'bigint':
+      return encodeBigInt(w, value);
+    case 'boolean':
+      return w.u8(value ? 0xc3 : 0xc2);
+    case 'object':
+      break;
+    default:
+      // undefined, functions, symbols
+      return w.u8(0xc0);
+  }
+
+  if (value === null) return w.u8(0xc0);
+  if (value instanceof Uint8Array) return encodeBinary(w, value);
+  if (value instanceof Date) return encodeTimestamp(w, value);
+
+  if (Array.isArray(value)) {
+    encodeLength(w, value.length, 0x90, 0xdc, 0xdd);
+    for (const item of value) {
+      encode(w, item, depth + 1);
+    }
+    return;
+  }
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return encode(w, (value as { toJSON: () => unknown }).toJSON(), depth + 1);
+  }
+
+  const entries = (value instanceof Map ? [...value.entries()] : Object.entries(value)).filter(
+    ([, item]) => item !== undefined && typeof item !== 'function' && typeof item !== 'symbol'
+  );
+  encodeLength(w, entries.length, 0x80, 0xde, 0xdf);
+  for (const [key, item] of entries) {
+    encode(w, key, depth + 1);
+    encode(w, item, depth + 1);
+  }
+}
+
+/**
+ * Write an array/map header: fix format for small sizes, then 16 and 32-bit lengths
+ */
+function encodeLength(w: Writer, length: number, fix: number, type16: number, type32: number): void {
+  if (length < 16) {
+    w.u8(fix | length);
+  } else if (length <= 0xffff) {
+    w.u8(type16);
+    w.u16(length);
+  } else {
+    w.u8(type32);
+    w.u32(length);
+  }
+}
+
+function encodeString(w: Writer, value: string): void {
+  const length = Buffer.byteLength(value);
+  if (length < 32) {
+    w.u8(0xa0 | length);
+  } else if (length <= 0xff) {
+    w.u8(0xd9);
+    w.u8(length);
+  } else if (length <= 0xffff) {
+    w.u8(0xda);
+    w.u16(length);
+  } else {
+    w.u8(0xdb);
+    w.u32(length);
+  }
+  w.string(value);
+}
+
+function encodeBinary(w: Writer, value: Uint8Array): void {
+  if (value.length <= 0xff) {
+    w.u8(0xc4);
+    w.u8(value.length);
+  } else if (value.length <= 0xffff) {
+    w.u8(0xc5);
+    w.u16(value.length);
+  } else {
+    w.u8(0xc6);
+    w.u32(value.length);
+  }
+  w.bytes(value);
+}
+
+function encodeNumber(w: Writer, value: number): void {
+  if (!Number.isSafeInteger(value)) {
+    // Floats, NaN, Infinity and integers beyond 2^53
+    w.u8(0xcb);
+    w.f64(value);
+    return;
+  }
+
+  if (value >= 0) {
+    if (value < 128) {
+      w.u8(value);
+    } else if (value <= 0xff) {
+      w.u8(0xcc);
+      w.u8(value);
+    } else if (value <= 0xffff) {
+      w.u8(0xcd);
+      w.u16(value);
+    } else if (value <= 0xffffffff) {
+      w.u8(0xce);
+      w.u32(value);
+    } else {
+      w.u8(0xcf);
+      w.u64(BigInt(value));
+    }
+  } else if (value >= -32) {
+    w.i8(value); // Negative fixint
+  } else if (value >= -0x80) {
+    w.u8(0xd0);
+    w.i8(value);
+  } else if (value >= -0x8000) {
+    w.u8(0xd1);
+    w.i16(value);
+  } else if (value >= -0x80000000) {
+    w.u8(0xd2);
+    w.i32(value);
+  } else {
+    w.u8(0xd3);
+    w.i64(BigInt(value));
+  }
+}
+
+function encodeBigInt(w: Writer, value: bigint): void {
+  if (value >= 0n && value <= 0xffffffffffffffffn) {
+    w.u8(0xcf);
+    w.u64(value);
+  } else if (value < 0n && value >= -0x8000000000000000n) {
+    w.u8(0xd3);
+    w.i64(value);
+  } else {
+    throw new RangeError('MessagePack: bigint does not fit in 64 bits');
+  }
+}
+
+/**
+ * Timestamp extension (type -1), 96-bit form: nanoseconds + signed seconds
+ */
+function encodeTimestamp(w: Writer, date: Date): void {
+  const ms = date.getTime();
+  if (Number.isNaN(ms)) {
+    throw new RangeError('MessagePack: invalid date');
+  }
+
+  const seconds = Math.floor(ms / 1000);
+  const nanoseconds = (ms - seconds * 1000) * 1e6;
+  w.u8(0xc7);
+  w.u8(12);
+  w.i8(-1);
+  w.u32(nanoseconds);
+  w.i64(BigInt(seconds));
+}
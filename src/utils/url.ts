@@ -55,6 +55,31 @@ export function parseQuery(queryString: string): Record<string, string | string[
   return result;
 }
 
+/**
+ * Query value accepted by stringifyQuery
+ */
+export type QueryValue = string | number | boolean | null | undefined | Array<string | number | boolean>;
+
+/**
+ * Serialize an object into a query string (without leading '?')
+ * Arrays become repeated keys, null and undefined values are skipped
+ */
+export function stringifyQuery(query: Record<string, QueryValue>): string {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(key, String(item)));
+    } else {
+      params.append(key, String(value));
+    }
+  }
+
+  return params.toString();
+}
+
 // Cache for split paths to avoid repeated splitting
 const pathCache = new Map<string, string[]>();
 